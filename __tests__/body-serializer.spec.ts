@@ -0,0 +1,123 @@
+import { BodySerializer } from '../src';
+
+describe('BodySerializer', () => {
+    describe('stringify', () => {
+        const serializer = new BodySerializer();
+
+        it('should serialize like JSON.stringify', () => {
+            expect(serializer.stringify({ a: 1, b: ['x', null] })).toBe(
+                '{"a":1,"b":["x",null]}'
+            );
+            expect(serializer.stringify('text')).toBe('"text"');
+            expect(serializer.stringify(undefined)).toBe('undefined');
+        });
+
+        it('should replace circular references', () => {
+            const body: Record<string, unknown> = { name: 'loop' };
+            body.self = body;
+            body.nested = { parent: body };
+
+            expect(serializer.stringify(body)).toBe(
+                '{"name":"loop","self":"[Circular]","nested":{"parent":"[Circular]"}}'
+            );
+        });
+
+        it('should keep repeated non-circular references', () => {
+            const shared = { id: 1 };
+
+            expect(serializer.stringify({ a: shared, b: [shared] })).toBe(
+                '{"a":{"id":1},"b":[{"id":1}]}'
+            );
+        });
+
+        it('should serialize BigInts and Buffers', () => {
+            expect(
+                serializer.stringify({
+                    id: BigInt('9007199254740993'),
+                    file: Buffer.alloc(3),
+                    bytes: new Uint8Array(2),
+                })
+            ).toBe(
+                '{"id":"9007199254740993","file":"[Buffer: 3 bytes]","bytes":"[Binary: 2 bytes]"}'
+            );
+            expect(serializer.stringify(Buffer.from('abc'))).toBe(
+                '"[Buffer: 3 bytes]"'
+            );
+        });
+
+        it('should never throw', () => {
+            const body = {
+                get broken(): string {
+                    throw new Error('boom');
+                },
+            };
+
+            expect(serializer.stringify(body)).toBe('"[Unserializable]"');
+        });
+    });
+
+    describe('truncate', () => {
+        it('should keep bodies without a limit or within the limit', () => {
+            const body = { items: [1, 2, 3] };
+
+            expect(new BodySerializer().truncate(body)).toBe(body);
+            expect(new BodySerializer({ maxLength: 100 }).truncate(body)).toBe(
+                body
+            );
+        });
+
+        it('should truncate serialized objects with the dropped byte count', () => {
+            const serializer = new BodySerializer({ maxLength: 16 });
+
+            expect(serializer.truncate({ items: ['a', 'b', 'c', 'd'] })).toBe(
+                '{"items":["a","b…[truncated 11 bytes]'
+            );
+        });
+
+        it('should truncate strings on whole characters', () => {
+            const serializer = new BodySerializer({ maxLength: 4 });
+
+            expect(serializer.truncate('ééé')).toBe('éé…[truncated 2 bytes]');
+            expect(serializer.truncate('abcdé')).toBe(
+                'abcd…[truncated 2 bytes]'
+            );
+        });
+    });
+
+    describe('placeholder', () => {
+        const serializer = new BodySerializer();
+
+        it('should replace multipart bodies', () => {
+            expect(
+                serializer.placeholder(
+                    { field: 'value' },
+                    'multipart/form-data; boundary=x'
+                )
+            ).toBe('[multipart/form-data body omitted]');
+        });
+
+        it('should replace binary bodies and binary content types', () => {
+            expect(
+                serializer.placeholder(Buffer.alloc(2048), 'text/plain')
+            ).toBe('[binary body: 2048 bytes]');
+            expect(serializer.placeholder({}, 'image/png')).toBe(
+                '[binary body omitted]'
+            );
+        });
+
+        it('should keep loggable bodies', () => {
+            expect(
+                serializer.placeholder({ a: 1 }, 'application/json')
+            ).toBeUndefined();
+            expect(
+                serializer.placeholder(undefined, 'image/png')
+            ).toBeUndefined();
+            expect(
+                new BodySerializer({ binaryContentTypes: [] }).placeholder(
+                    {},
+                    'image/png'
+                )
+            ).toBeUndefined();
+        });
+    });
+});
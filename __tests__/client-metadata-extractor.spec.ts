@@ -0,0 +1,212 @@
+import { ClientMetadataExtractor, Req } from '../src';
+
+describe('ClientMetadataExtractor', () => {
+    const createReq = (
+        headers: Record<string, string | string[]> = {},
+        socket: { remoteAddress?: string; encrypted?: boolean } = {
+            remoteAddress: '10.0.0.5',
+        }
+    ): Req => ({ headers, httpVersion: '1.1', socket }) as unknown as Req;
+
+    describe('ip', () => {
+        it('should use the socket address when no proxy is trusted', () => {
+            const extractor = new ClientMetadataExtractor();
+
+            expect(
+                extractor.extract(
+                    createReq({ 'x-forwarded-for': '203.0.113.42' })
+                ).ip
+            ).toBe('10.0.0.5');
+        });
+
+        it('should not fall back to forwarded addresses without a socket address', () => {
+            const extractor = new ClientMetadataExtractor();
+
+            expect(
+                extractor.extract(
+                    createReq({ 'x-forwarded-for': '203.0.113.42' }, {})
+                ).ip
+            ).toBeUndefined();
+        });
+
+        it('should strip the IPv4-mapped IPv6 prefix', () => {
+            const extractor = new ClientMetadataExtractor();
+
+            expect(
+                extractor.extract(
+                    createReq({}, { remoteAddress: '::ffff:192.0.2.1' })
+                ).ip
+            ).toBe('192.0.2.1');
+        });
+
+        it('should walk x-forwarded-for through trusted ranges only', () => {
+            const extractor = new ClientMetadataExtractor({
+                trustProxy: ['10.0.0.0/8', 'loopback'],
+            });
+
+            // 198.51.100.7 is not trusted, so the spoofed left-most entry is ignored
+            expect(
+                extractor.extract(
+                    createReq({
+                        'x-forwarded-for': '1.2.3.4, 198.51.100.7, 127.0.0.1',
+                    })
+                ).ip
+            ).toBe('198.51.100.7');
+        });
+
+        it('should trust a number of hops', () => {
+            const req = createReq({
+                'x-forwarded-for': '203.0.113.42, 198.51.100.7',
+            });
+
+            expect(
+                new ClientMetadataExtractor({ trustProxy: 1 }).extract(req).ip
+            ).toBe('198.51.100.7');
+            expect(
+                new ClientMetadataExtractor({ trustProxy: true }).extract(req)
+                    .ip
+            ).toBe('203.0.113.42');
+        });
+
+        it('should read the forwarded header before x-forwarded-for', () => {
+            const extractor = new ClientMetadataExtractor({
+                trustProxy: true,
+            });
+
+            const client = extractor.extract(
+                createReq({
+                    forwarded:
+                        'for="[2001:db8:cafe::17]:4711";proto=https;host=api.example.com, for=10.0.0.1',
+                    'x-forwarded-for': '203.0.113.42',
+                })
+            );
+
+            expect(client.ip).toBe('2001:db8:cafe::17');
+            expect(client.forwardedFor).toEqual([
+                '2001:db8:cafe::17',
+                '10.0.0.1',
+            ]);
+            expect(client.protocol).toBe('https');
+            expect(client.host).toBe('api.example.com');
+        });
+
+        it('should match IPv6 ranges and never throw from a trust function', () => {
+            const req = createReq(
+                { 'x-forwarded-for': '203.0.113.42' },
+                { remoteAddress: 'fd12:3456::1' }
+            );
+
+            expect(
+                new ClientMetadataExtractor({
+                    trustProxy: ['uniquelocal'],
+                }).extract(req).ip
+            ).toBe('203.0.113.42');
+            expect(
+                new ClientMetadataExtractor({
+                    trustProxy: () => {
+                        throw new Error('boom');
+                    },
+                }).extract(req).ip
+            ).toBe('fd12:3456::1');
+        });
+    });
+
+    describe('anonymizeIp', () => {
+        const extractor = new ClientMetadataExtractor({
+            trustProxy: true,
+            anonymizeIp: true,
+        });
+
+        it('should zero the last IPv4 octet of the ip and forwarded chain', () => {
+            const client = extractor.extract(
+                createReq({ 'x-forwarded-for': '203.0.113.42, 10.1.2.3' })
+            );
+
+            expect(client.ip).toBe('203.0.113.0');
+            expect(client.forwardedFor).toEqual(['203.0.113.0', '10.1.2.0']);
+        });
+
+        it('should keep the first 48 bits of IPv6 addresses', () => {
+            expect(
+                extractor.anonymize('2001:db8:85a3:8d3:1319:8a2e:370:7348')
+            ).toBe('2001:db8:85a3::');
+            expect(extractor.anonymize('unknown')).toBe('unknown');
+        });
+    });
+
+    describe('connection', () => {
+        it('should ignore forwarded protocol and host from untrusted peers', () => {
+            const extractor = new ClientMetadataExtractor();
+
+            expect(
+                extractor.extract(
+                    createReq({
+                        host: 'internal:3000',
+                        'x-forwarded-proto': 'https',
+                        'x-forwarded-host': 'evil.example.com',
+                    })
+                )
+            ).toEqual({
+                ip: '10.0.0.5',
+                httpVersion: '1.1',
+                protocol: 'http',
+                host: 'internal:3000',
+            });
+        });
+
+        it('should use forwarded protocol and host from trusted proxies', () => {
+            const extractor = new ClientMetadataExtractor({
+                trustProxy: ['10.0.0.0/8'],
+            });
+
+            expect(
+                extractor.extract(
+                    createReq({
+                        host: 'internal:3000',
+                        'x-forwarded-proto': 'HTTPS, http',
+                        'x-forwarded-host': 'api.example.com',
+                    })
+                )
+            ).toMatchObject({
+                protocol: 'https',
+                host: 'api.example.com',
+            });
+        });
+
+        it('should read the Fastify raw request', () => {
+            const extractor = new ClientMetadataExtractor();
+            const req = {
+                headers: { ':authority': 'api.example.com' },
+                raw: {
+                    httpVersion: '2.0',
+                    socket: { remoteAddress: '192.0.2.1', encrypted: true },
+                },
+            } as unknown as Req;
+
+            expect(extractor.extract(req)).toEqual({
+                ip: '192.0.2.1',
+                httpVersion: '2.0',
+                protocol: 'https',
+                host: 'api.example.com',
+            });
+        });
+    });
+
+    it('should only extract the enabled fields', () => {
+        const extractor = new ClientMetadataExtractor({
+            fields: ['ip', 'userAgent'],
+        });
+
+        expect(
+            extractor.extract(
+                createReq({
+                    host: 'api.example.com',
+                    'user-agent': 'curl/8.4.0',
+                })
+            )
+        ).toEqual({
+            ip: '10.0.0.5',
+            userAgent: { browser: 'curl', browserVersion: '8.4.0', bot: true },
+        });
+    });
+});
@@ -0,0 +1,119 @@
+import { LoggerService } from '@nestjs/common';
+import { ContextAwareLogger, RequestContext } from '../src';
+
+describe('ContextAwareLogger', () => {
+    let innerLogger: jest.Mocked<Required<LoggerService>>;
+    let logger: ContextAwareLogger;
+
+    beforeEach(() => {
+        innerLogger = {
+            log: jest.fn(),
+            error: jest.fn(),
+            warn: jest.fn(),
+            debug: jest.fn(),
+            verbose: jest.fn(),
+            fatal: jest.fn(),
+            setLogLevels: jest.fn(),
+        };
+        logger = new ContextAwareLogger(innerLogger);
+    });
+
+    const inScope = (callback: () => void) =>
+        RequestContext.run(
+            { requestId: 'req-1', method: 'POST', path: '/api/users' },
+            callback
+        );
+
+    it('should leave messages untouched outside of a request', () => {
+        logger.log('Loading users');
+
+        expect(innerLogger.log).toHaveBeenCalledWith('Loading users');
+    });
+
+    it('should append the request context to string messages', () => {
+        inScope(() => logger.log('Loading users'));
+
+        expect(innerLogger.log).toHaveBeenCalledWith(
+            'Loading users requestId=req-1 method=POST path=/api/users'
+        );
+    });
+
+    it('should omit the request id when none was assigned', () => {
+        RequestContext.run({ method: 'GET', path: '/' }, () =>
+            logger.warn('Slow query')
+        );
+
+        expect(innerLogger.warn).toHaveBeenCalledWith(
+            'Slow query method=GET path=/'
+        );
+    });
+
+    it('should merge the request context into object messages', () => {
+        inScope(() => logger.log({ event: 'user.created', userId: 7 }));
+
+        expect(innerLogger.log).toHaveBeenCalledWith({
+            requestId: 'req-1',
+            method: 'POST',
+            path: '/api/users',
+            event: 'user.created',
+            userId: 7,
+        });
+    });
+
+    it('should forward optional params such as stack and context', () => {
+        inScope(() => logger.error('Failed', 'stack trace', 'UsersService'));
+
+        expect(innerLogger.error).toHaveBeenCalledWith(
+            'Failed requestId=req-1 method=POST path=/api/users',
+            'stack trace',
+            'UsersService'
+        );
+    });
+
+    it('should delegate every log level', () => {
+        inScope(() => {
+            logger.debug('d');
+            logger.verbose('v');
+            logger.fatal('f');
+        });
+
+        expect(innerLogger.debug).toHaveBeenCalled();
+        expect(innerLogger.verbose).toHaveBeenCalled();
+        expect(innerLogger.fatal).toHaveBeenCalled();
+    });
+
+    it('should fall back to log for levels missing on the wrapped logger', () => {
+        const log = jest.fn();
+        const minimal = new ContextAwareLogger({
+            log,
+            error: jest.fn(),
+            warn: jest.fn(),
+        });
+
+        inScope(() => {
+            minimal.debug('d');
+            minimal.fatal('f');
+        });
+
+        expect(log).toHaveBeenCalledTimes(2);
+        expect(log).toHaveBeenNthCalledWith(
+            1,
+            'd requestId=req-1 method=POST path=/api/users'
+        );
+    });
+
+    it('should keep the stack of Error messages', () => {
+        const error = new Error('boom');
+
+        inScope(() => {
+            logger.error(error);
+            logger.warn(error);
+        });
+
+        expect(innerLogger.error).toHaveBeenCalledWith(
+            'Error: boom requestId=req-1 method=POST path=/api/users',
+            error.stack
+        );
+        expect(innerLogger.warn).toHaveBeenCalledWith(error);
+    });
+});
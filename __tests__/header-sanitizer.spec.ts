@@ -126,6 +126,153 @@ describe('HeaderSanitizer', () => {
         });
     });
 
+    describe('header name patterns', () => {
+        it('should match glob patterns', () => {
+            const sanitizer = new HeaderSanitizer(['x-*-token']);
+
+            const sanitized = sanitizer.sanitize({
+                'x-auth-token': 'a',
+                'X-Refresh-Token': 'b',
+                'x-token': 'c',
+            });
+
+            expect(sanitized['x-auth-token']).toBe('[REDACTED]');
+            expect(sanitized['X-Refresh-Token']).toBe('[REDACTED]');
+            expect(sanitized['x-token']).toBe('c');
+        });
+
+        it('should match RegExp patterns', () => {
+            const sanitizer = new HeaderSanitizer([/^x-secret-/i, /key$/g]);
+
+            const sanitized = sanitizer.sanitize({
+                'x-secret-one': 'a',
+                'x-api-key': 'b',
+                'x-other-key': 'c',
+                'x-public': 'd',
+            });
+
+            expect(sanitized['x-secret-one']).toBe('[REDACTED]');
+            expect(sanitized['x-api-key']).toBe('[REDACTED]');
+            expect(sanitized['x-other-key']).toBe('[REDACTED]');
+            expect(sanitized['x-public']).toBe('d');
+        });
+
+        it('should extend the defaults in merge mode', () => {
+            const sanitizer = new HeaderSanitizer(['x-session-id'], {
+                mergeWithDefaults: true,
+            });
+
+            const sanitized = sanitizer.sanitize({
+                authorization: 'Bearer token',
+                'x-session-id': 'abc',
+            });
+
+            expect(sanitized.authorization).toBe('[REDACTED]');
+            expect(sanitized['x-session-id']).toBe('[REDACTED]');
+        });
+
+        it('should expose isSensitive', () => {
+            const sanitizer = new HeaderSanitizer();
+
+            expect(sanitizer.isSensitive('Authorization')).toBe(true);
+            expect(sanitizer.isSensitive('content-type')).toBe(false);
+        });
+    });
+
+    describe('mask strategies', () => {
+        it('should keep the last characters with the partial strategy', () => {
+            const sanitizer = new HeaderSanitizer(undefined, {
+                strategy: 'partial',
+            });
+
+            const sanitized = sanitizer.sanitize({
+                authorization: 'Bearer abcdef123456',
+                'x-api-key': 'abc',
+            });
+
+            expect(sanitized.authorization).toBe('****3456');
+            expect(sanitized['x-api-key']).toBe('[REDACTED]');
+        });
+
+        it('should support a custom partial length', () => {
+            const sanitizer = new HeaderSanitizer(undefined, {
+                strategy: 'partial',
+                partialMask: 2,
+            });
+
+            expect(sanitizer.sanitize({ cookie: 'session=xyz' }).cookie).toBe(
+                '****yz'
+            );
+        });
+
+        it.each([0, -3, 1.5])(
+            'should fully redact with an invalid partial length (%p)',
+            (partialMask) => {
+                const sanitizer = new HeaderSanitizer(undefined, {
+                    strategy: 'partial',
+                    partialMask,
+                });
+
+                expect(
+                    sanitizer.sanitize({ authorization: 'Bearer abcdef123456' })
+                        .authorization
+                ).toBe('[REDACTED]');
+            }
+        );
+
+        it('should hash values deterministically with the hash strategy', () => {
+            const sanitizer = new HeaderSanitizer(undefined, {
+                strategy: 'hash',
+            });
+
+            const first = sanitizer.sanitize({ authorization: 'Bearer a' });
+            const second = sanitizer.sanitize({ authorization: 'Bearer a' });
+            const other = sanitizer.sanitize({ authorization: 'Bearer b' });
+
+            expect(first.authorization).toMatch(/^sha256:[0-9a-f]{16}$/);
+            expect(first.authorization).toBe(second.authorization);
+            expect(first.authorization).not.toBe(other.authorization);
+        });
+
+        it('should change hashes with the salt', () => {
+            const unsalted = new HeaderSanitizer(undefined, {
+                strategy: 'hash',
+            });
+            const salted = new HeaderSanitizer(undefined, {
+                strategy: 'hash',
+                hashSalt: 'pepper',
+            });
+
+            expect(
+                salted.sanitize({ authorization: 'Bearer a' }).authorization
+            ).not.toBe(
+                unsalted.sanitize({ authorization: 'Bearer a' }).authorization
+            );
+        });
+
+        it('should mask each item of array values', () => {
+            const sanitizer = new HeaderSanitizer(undefined, {
+                strategy: 'partial',
+            });
+
+            expect(
+                sanitizer.sanitize({ 'set-cookie': ['a=123456', 'b=654321'] })[
+                    'set-cookie'
+                ]
+            ).toEqual(['****3456', '****4321']);
+        });
+
+        it('should support a custom mask function', () => {
+            const sanitizer = new HeaderSanitizer(undefined, {
+                strategy: (value, name) => `${name}:${String(value).length}`,
+            });
+
+            expect(
+                sanitizer.sanitize({ authorization: 'Bearer a' }).authorization
+            ).toBe('authorization:8');
+        });
+    });
+
     describe('edge cases', () => {
         let sanitizer: HeaderSanitizer;
 
@@ -0,0 +1,158 @@
+import { LogBuffer, LogBufferOptions, LogTransportEvent } from '../src';
+
+describe('LogBuffer', () => {
+    let write: jest.Mock;
+    let buffers: LogBuffer[];
+
+    const event = (path: string): LogTransportEvent => ({
+        level: 'log',
+        event: 'request.incoming',
+        details: { method: 'GET', path, headers: {} },
+    });
+
+    const paths = () =>
+        write.mock.calls.map(
+            ([written]: [LogTransportEvent]) => written.details.path
+        );
+
+    const create = (
+        options?: LogBufferOptions,
+        onDrop?: (dropped: number) => void
+    ) => {
+        const buffer = new LogBuffer(write, options, onDrop);
+        buffers.push(buffer);
+        return buffer;
+    };
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        write = jest.fn();
+        buffers = [];
+    });
+
+    afterEach(() => {
+        buffers.forEach((buffer) => buffer.close());
+        jest.useRealTimers();
+    });
+
+    describe('batching', () => {
+        it('should queue lines until the flush interval', () => {
+            const buffer = create({ flushIntervalMs: 500 });
+
+            buffer.enqueue(event('/a'));
+            buffer.enqueue(event('/b'));
+
+            expect(write).not.toHaveBeenCalled();
+            expect(buffer.size).toBe(2);
+
+            jest.advanceTimersByTime(500);
+
+            expect(paths()).toEqual(['/a', '/b']);
+            expect(buffer.size).toBe(0);
+        });
+
+        it('should flush on the next tick once maxBatchSize lines are queued', () => {
+            const buffer = create({ maxBatchSize: 2 });
+
+            buffer.enqueue(event('/a'));
+            buffer.enqueue(event('/b'));
+            expect(write).not.toHaveBeenCalled();
+
+            jest.runOnlyPendingTimers();
+
+            expect(paths()).toEqual(['/a', '/b']);
+        });
+
+        it('should write lines with the writer they were queued with', () => {
+            const buffer = create();
+            const other = jest.fn();
+
+            buffer.enqueue(event('/a'));
+            buffer.enqueue(event('/b'), other);
+            buffer.flush();
+
+            expect(paths()).toEqual(['/a']);
+            expect(other).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    details: expect.objectContaining({ path: '/b' }),
+                })
+            );
+        });
+
+        it('should stamp lines with the time they were queued', () => {
+            jest.setSystemTime(1000);
+            const buffer = create();
+
+            buffer.enqueue(event('/a'));
+            jest.setSystemTime(5000);
+            buffer.flush();
+
+            expect(write.mock.calls[0][0].timestamp).toBe(1000);
+        });
+    });
+
+    describe('overflow', () => {
+        it('should drop the oldest lines by default', () => {
+            const buffer = create({ maxQueueSize: 2 });
+
+            ['/a', '/b', '/c'].forEach((path) => buffer.enqueue(event(path)));
+            buffer.flush();
+
+            expect(paths()).toEqual(['/b', '/c']);
+            expect(buffer.dropped).toBe(1);
+        });
+
+        it('should drop new lines with drop-new', () => {
+            const buffer = create({ maxQueueSize: 2, overflow: 'drop-new' });
+
+            ['/a', '/b', '/c'].forEach((path) => buffer.enqueue(event(path)));
+            buffer.flush();
+
+            expect(paths()).toEqual(['/a', '/b']);
+            expect(buffer.dropped).toBe(1);
+        });
+
+        it('should write a batch synchronously with block', () => {
+            const buffer = create({
+                maxQueueSize: 2,
+                maxBatchSize: 10,
+                overflow: 'block',
+            });
+
+            ['/a', '/b', '/c'].forEach((path) => buffer.enqueue(event(path)));
+
+            expect(paths()).toEqual(['/a', '/b']);
+            expect(buffer.size).toBe(1);
+            expect(buffer.dropped).toBe(0);
+        });
+
+        it('should report drops once per flush', () => {
+            const onDrop = jest.fn();
+            const buffer = create({ maxQueueSize: 1 }, onDrop);
+
+            ['/a', '/b', '/c'].forEach((path) => buffer.enqueue(event(path)));
+            buffer.flush();
+            buffer.flush();
+
+            expect(onDrop).toHaveBeenCalledTimes(1);
+            expect(onDrop).toHaveBeenCalledWith(2);
+            expect(buffer.dropped).toBe(2);
+        });
+    });
+
+    describe('close', () => {
+        it('should write queued lines and write later lines directly', () => {
+            const buffer = create();
+
+            buffer.enqueue(event('/a'));
+            buffer.close();
+            expect(paths()).toEqual(['/a']);
+
+            buffer.enqueue(event('/b'));
+            expect(paths()).toEqual(['/a', '/b']);
+
+            jest.advanceTimersByTime(5000);
+            expect(write).toHaveBeenCalledTimes(2);
+        });
+    });
+});
@@ -0,0 +1,122 @@
+import { CompletedRequestDetails, LogLevelResolver } from '../src';
+
+describe('LogLevelResolver', () => {
+    const details = (
+        statusCode: number,
+        extra: Partial<CompletedRequestDetails> = {}
+    ): CompletedRequestDetails => ({
+        method: 'GET',
+        path: '/api/users',
+        statusCode,
+        durationMs: '1.00',
+        ...extra,
+    });
+
+    describe('defaults', () => {
+        it('should log successes and error failures', () => {
+            const resolver = new LogLevelResolver();
+
+            expect(resolver.resolve(details(200))).toBe('log');
+            expect(resolver.resolve(details(302))).toBe('log');
+            expect(resolver.resolve(details(404))).toBe('error');
+            expect(resolver.resolve(details(500))).toBe('error');
+        });
+
+        it('should raise slow requests to warn', () => {
+            const resolver = new LogLevelResolver();
+
+            expect(resolver.resolve(details(200, { slow: true }))).toBe('warn');
+            expect(resolver.resolve(details(500, { slow: true }))).toBe(
+                'error'
+            );
+        });
+    });
+
+    describe('status map', () => {
+        const resolver = new LogLevelResolver({
+            levelForStatus: {
+                '2xx': 'log',
+                '3xx': 'debug',
+                '4xx': 'warn',
+                '404': 'verbose',
+                '5xx': 'error',
+            },
+        });
+
+        it('should map status classes', () => {
+            expect(resolver.resolve(details(201))).toBe('log');
+            expect(resolver.resolve(details(304))).toBe('debug');
+            expect(resolver.resolve(details(401))).toBe('warn');
+            expect(resolver.resolve(details(503))).toBe('error');
+        });
+
+        it('should prefer exact status codes', () => {
+            expect(resolver.resolve(details(404))).toBe('verbose');
+        });
+
+        it('should fall back to the defaults for unmapped classes', () => {
+            const partial = new LogLevelResolver({
+                levelForStatus: { '4xx': 'warn' },
+            });
+
+            expect(partial.resolve(details(200))).toBe('log');
+            expect(partial.resolve(details(500))).toBe('error');
+        });
+
+        it('should still raise slow requests to warn', () => {
+            expect(resolver.resolve(details(304, { slow: true }))).toBe('warn');
+        });
+    });
+
+    describe('fixed level and function', () => {
+        it('should use a fixed level', () => {
+            const resolver = new LogLevelResolver({ levelForStatus: 'debug' });
+
+            expect(resolver.resolve(details(500))).toBe('debug');
+        });
+
+        it('should call the function with the details', () => {
+            const levelForStatus = jest.fn(() => 'fatal' as const);
+            const resolver = new LogLevelResolver({ levelForStatus });
+            const completed = details(500);
+
+            expect(resolver.resolve(completed)).toBe('fatal');
+            expect(levelForStatus).toHaveBeenCalledWith(completed);
+        });
+
+        it('should fall back to the default level when the function throws', () => {
+            const onError = jest.fn();
+            const error = new Error('boom');
+            const resolver = new LogLevelResolver({
+                levelForStatus: () => {
+                    throw error;
+                },
+                onError,
+            });
+
+            expect(resolver.resolve(details(503))).toBe('error');
+            expect(resolver.resolve(details(200))).toBe('log');
+            expect(onError).toHaveBeenCalledWith(error);
+        });
+    });
+
+    describe('route overrides', () => {
+        it('should use the first matching route', () => {
+            const resolver = new LogLevelResolver({
+                levelForStatus: { '4xx': 'warn' },
+                routes: [
+                    { path: '/health', level: 'debug' },
+                    { method: 'POST', path: '/api/*', level: { '4xx': 'log' } },
+                ],
+            });
+
+            expect(
+                resolver.resolve(details(200, { path: '/health?probe=1' }))
+            ).toBe('debug');
+            expect(resolver.resolve(details(400, { method: 'POST' }))).toBe(
+                'log'
+            );
+            expect(resolver.resolve(details(400))).toBe('warn');
+        });
+    });
+});
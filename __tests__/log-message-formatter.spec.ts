@@ -131,5 +131,78 @@ describe('LogMessageFormatter', () => {
 
             expect(result).toContain('1234.56');
         });
+
+        it('should format aborted requests with reason and bytes sent', () => {
+            const result = formatter.completed({
+                method: 'GET',
+                path: '/api/export',
+                statusCode: 200,
+                durationMs: '812.40',
+                outcome: 'aborted',
+                abortReason: 'client closed connection',
+                bytesSent: 2048,
+            });
+
+            expect(result).toBe(
+                'Request aborted: method=GET path=/api/export statusCode=200 durationMs=812.40ms bytesSent=2048 reason="client closed connection"'
+            );
+        });
+
+        it('should format recorded exceptions', () => {
+            const result = formatter.completed({
+                method: 'GET',
+                path: '/api/users/42',
+                statusCode: 404,
+                durationMs: '2.10',
+                error: {
+                    name: 'NotFoundException',
+                    message: 'User 42 not found',
+                    response: { statusCode: 404 },
+                },
+            });
+
+            expect(result).toContain(
+                'error.name=NotFoundException error.message="User 42 not found" error.response={"statusCode":404}'
+            );
+        });
+
+        it('should format in-flight requests', () => {
+            const result = formatter.completed({
+                method: 'POST',
+                path: '/api/jobs',
+                statusCode: 200,
+                durationMs: '30000.12',
+                outcome: 'in-flight',
+            });
+
+            expect(result).toContain('Request still in flight:');
+        });
+
+        it('should include selected response headers, sanitized', () => {
+            formatter = new LogMessageFormatter({
+                responseHeaderFields: [
+                    'content-type',
+                    'set-cookie',
+                    'location',
+                ],
+            });
+
+            const result = formatter.completed({
+                method: 'POST',
+                path: '/api/users',
+                statusCode: 201,
+                durationMs: '4.00',
+                responseHeaders: {
+                    'content-type': 'application/json',
+                    'set-cookie': ['sid=abc'],
+                    location: '/api/users/1',
+                    etag: 'W/"1"',
+                },
+            });
+
+            expect(result).toBe(
+                'Request completed: method=POST path=/api/users statusCode=201 durationMs=4.00ms content-type=application/json set-cookie=[REDACTED] location=/api/users/1'
+            );
+        });
     });
 });
@@ -0,0 +1,225 @@
+import {
+    LogTransportDispatcher,
+    LogTransportEvent,
+    MemoryTransport,
+} from '../src';
+
+describe('LogTransportDispatcher', () => {
+    const event = (
+        level: LogTransportEvent['level'],
+        extra: Partial<LogTransportEvent> = {}
+    ): LogTransportEvent => ({
+        level,
+        event: 'request.completed',
+        details: {
+            method: 'GET',
+            path: '/api/users',
+            statusCode: 200,
+            durationMs: '1.00',
+        },
+        ...extra,
+    });
+
+    const formatters = (name: string) => ({
+        incoming: jest.fn(() => `${name} incoming`),
+        completed: jest.fn(() => `${name} completed`),
+    });
+
+    describe('levels', () => {
+        it('should write levels at or above the transport level', () => {
+            const memory = new MemoryTransport({ level: 'warn' });
+            const dispatcher = new LogTransportDispatcher({
+                transports: [memory],
+                formatter: formatters('default'),
+                formatterFor: () => formatters('named'),
+            });
+
+            dispatcher.dispatch(event('debug'));
+            dispatcher.dispatch(event('log'));
+            dispatcher.dispatch(event('warn'));
+            dispatcher.dispatch(event('fatal'));
+
+            expect(memory.entries.map((entry) => entry.level)).toEqual([
+                'warn',
+                'fatal',
+            ]);
+        });
+
+        it('should write every level when no level is set', () => {
+            const memory = new MemoryTransport();
+            const dispatcher = new LogTransportDispatcher({
+                transports: [memory],
+                formatter: formatters('default'),
+                formatterFor: () => formatters('named'),
+            });
+
+            dispatcher.dispatch(event('verbose'));
+
+            expect(memory.entries).toHaveLength(1);
+        });
+    });
+
+    describe('formats', () => {
+        it('should use the default formatter for transports without format', () => {
+            const memory = new MemoryTransport();
+            const dispatcher = new LogTransportDispatcher({
+                transports: [memory],
+                formatter: formatters('default'),
+                formatterFor: () => formatters('named'),
+            });
+
+            dispatcher.dispatch(event('log'));
+            dispatcher.dispatch(
+                event('log', {
+                    event: 'request.incoming',
+                    details: { method: 'GET', path: '/', headers: {} },
+                })
+            );
+
+            expect(memory.entries.map((entry) => entry.message)).toEqual([
+                'default completed',
+                'default incoming',
+            ]);
+        });
+
+        it('should build named formatters once and share messages', () => {
+            const json = formatters('json');
+            const formatterFor = jest.fn(() => json);
+            const first = new MemoryTransport({ format: 'json' });
+            const second = new MemoryTransport({ format: 'json' });
+            const dispatcher = new LogTransportDispatcher({
+                transports: [first, second],
+                formatter: formatters('default'),
+                formatterFor,
+            });
+
+            dispatcher.dispatch(event('log'));
+            dispatcher.dispatch(event('log'));
+
+            expect(formatterFor).toHaveBeenCalledTimes(1);
+            expect(formatterFor).toHaveBeenCalledWith('json');
+            expect(json.completed).toHaveBeenCalledTimes(2);
+            expect(second.entries[0].message).toBe('json completed');
+        });
+
+        it('should call format functions with the unformatted line', () => {
+            const memory = new MemoryTransport({
+                format: ({ level, details }) => `${level}:${details.path}`,
+            });
+            const dispatcher = new LogTransportDispatcher({
+                transports: [memory],
+                formatter: formatters('default'),
+                formatterFor: () => formatters('named'),
+            });
+
+            dispatcher.dispatch(event('error'));
+
+            expect(memory.entries[0].message).toBe('error:/api/users');
+        });
+    });
+
+    describe('errors', () => {
+        it('should report throwing and rejecting transports', async () => {
+            const onError = jest.fn();
+            const memory = new MemoryTransport();
+            const failing = {
+                write: () => {
+                    throw new Error('boom');
+                },
+            };
+            const rejecting = {
+                write: () => Promise.reject(new Error('later')),
+            };
+            const dispatcher = new LogTransportDispatcher({
+                transports: [failing, rejecting, memory],
+                formatter: formatters('default'),
+                formatterFor: () => formatters('named'),
+                onError,
+            });
+
+            dispatcher.dispatch(event('log'));
+            await Promise.resolve();
+
+            expect(memory.entries).toHaveLength(1);
+            expect(onError).toHaveBeenCalledWith(new Error('boom'), failing);
+            expect(onError).toHaveBeenCalledWith(new Error('later'), rejecting);
+        });
+
+        it('should report throwing format functions', () => {
+            const onError = jest.fn();
+            const dispatcher = new LogTransportDispatcher({
+                transports: [
+                    new MemoryTransport({
+                        format: () => {
+                            throw new Error('bad format');
+                        },
+                    }),
+                ],
+                formatter: formatters('default'),
+                formatterFor: () => formatters('named'),
+                onError,
+            });
+
+            expect(() => dispatcher.dispatch(event('log'))).not.toThrow();
+            expect(onError).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('flush and close', () => {
+        it('should flush and close the transports implementing them', async () => {
+            const flush = jest.fn(() => Promise.resolve());
+            const close = jest.fn();
+            const dispatcher = new LogTransportDispatcher({
+                transports: [
+                    { write: jest.fn(), flush, close },
+                    new MemoryTransport(),
+                ],
+                formatter: formatters('default'),
+                formatterFor: () => formatters('named'),
+            });
+
+            await dispatcher.flush();
+            await dispatcher.close();
+
+            expect(flush).toHaveBeenCalledTimes(1);
+            expect(close).toHaveBeenCalledTimes(1);
+        });
+
+        it('should settle every transport and report each failure', async () => {
+            const onError = jest.fn();
+            const rejecting = {
+                write: jest.fn(),
+                flush: jest.fn(() => Promise.reject(new Error('flush'))),
+                close: jest.fn(() => Promise.reject(new Error('close'))),
+            };
+            const throwing = {
+                write: jest.fn(),
+                flush: jest.fn(() => {
+                    throw new Error('sync flush');
+                }),
+            };
+            const healthy = {
+                write: jest.fn(),
+                flush: jest.fn(),
+                close: jest.fn(),
+            };
+            const dispatcher = new LogTransportDispatcher({
+                transports: [rejecting, throwing, healthy],
+                formatter: formatters('default'),
+                formatterFor: () => formatters('named'),
+                onError,
+            });
+
+            await expect(dispatcher.flush()).resolves.toBeUndefined();
+            await expect(dispatcher.close()).resolves.toBeUndefined();
+
+            expect(healthy.flush).toHaveBeenCalledTimes(1);
+            expect(healthy.close).toHaveBeenCalledTimes(1);
+            expect(onError.mock.calls).toEqual([
+                [new Error('flush'), rejecting],
+                [new Error('sync flush'), throwing],
+                [new Error('close'), rejecting],
+            ]);
+        });
+    });
+});
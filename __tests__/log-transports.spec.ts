@@ -0,0 +1,158 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Logger } from '@nestjs/common';
+import {
+    LoggerServiceTransport,
+    LogTransportEntry,
+    MemoryTransport,
+    RotatingFileTransport,
+    StdoutTransport,
+} from '../src';
+
+describe('Log transports', () => {
+    const entry = (
+        message: unknown,
+        level: LogTransportEntry['level'] = 'log'
+    ): LogTransportEntry => ({
+        level,
+        event: 'request.completed',
+        details: {
+            method: 'GET',
+            path: '/api/users',
+            statusCode: 200,
+            durationMs: '1.00',
+        },
+        message,
+    });
+
+    describe('StdoutTransport', () => {
+        it('should default to JSON lines on stdout', () => {
+            const write = jest
+                .spyOn(process.stdout, 'write')
+                .mockImplementation(() => true);
+
+            try {
+                const transport = new StdoutTransport();
+                transport.write(entry('{"event":"request.completed"}'));
+
+                expect(transport.format).toBe('json');
+                expect(write).toHaveBeenCalledWith(
+                    '{"event":"request.completed"}\n'
+                );
+            } finally {
+                write.mockRestore();
+            }
+        });
+
+        it('should serialize non-string messages safely', () => {
+            const stream = { write: jest.fn() };
+            const record: Record<string, unknown> = { id: 1 };
+            record.self = record;
+
+            new StdoutTransport({ stream, format: 'object' }).write(
+                entry(record)
+            );
+
+            expect(stream.write).toHaveBeenCalledWith(
+                '{"id":1,"self":"[Circular]"}\n'
+            );
+        });
+    });
+
+    describe('RotatingFileTransport', () => {
+        let directory: string;
+
+        beforeEach(() => {
+            directory = mkdtempSync(join(tmpdir(), 'request-logger-'));
+        });
+
+        afterEach(() => {
+            rmSync(directory, { recursive: true, force: true });
+        });
+
+        it('should append lines, creating parent directories', () => {
+            const filename = join(directory, 'logs', 'requests.log');
+            const transport = new RotatingFileTransport({ filename });
+
+            transport.write(entry('first'));
+            transport.write(entry({ second: true }));
+            transport.close();
+
+            expect(readFileSync(filename, 'utf8')).toBe(
+                'first\n{"second":true}\n'
+            );
+        });
+
+        it('should rotate by size and keep maxFiles rotated files', () => {
+            const filename = join(directory, 'requests.log');
+            const transport = new RotatingFileTransport({
+                filename,
+                maxSize: 10,
+                maxFiles: 2,
+            });
+
+            for (const line of ['line-1', 'line-2', 'line-3', 'line-4']) {
+                transport.write(entry(line));
+            }
+            transport.close();
+
+            expect(readFileSync(filename, 'utf8')).toBe('line-4\n');
+            expect(readFileSync(`${filename}.1`, 'utf8')).toBe('line-3\n');
+            expect(readFileSync(`${filename}.2`, 'utf8')).toBe('line-2\n');
+            expect(existsSync(`${filename}.3`)).toBe(false);
+        });
+
+        it('should continue an existing file after reopening', () => {
+            const filename = join(directory, 'requests.log');
+            const first = new RotatingFileTransport({ filename, maxSize: 10 });
+            first.write(entry('line-1'));
+            first.close();
+
+            const second = new RotatingFileTransport({ filename, maxSize: 10 });
+            second.write(entry('line-2'));
+            second.close();
+
+            expect(readFileSync(filename, 'utf8')).toBe('line-2\n');
+            expect(readFileSync(`${filename}.1`, 'utf8')).toBe('line-1\n');
+        });
+    });
+
+    describe('MemoryTransport', () => {
+        it('should keep entries up to maxEntries', () => {
+            const transport = new MemoryTransport({ maxEntries: 2 });
+
+            transport.write(entry('a'));
+            transport.write(entry('b'));
+            transport.write(entry('c'));
+
+            expect(transport.entries.map((stored) => stored.message)).toEqual([
+                'b',
+                'c',
+            ]);
+
+            transport.clear();
+            expect(transport.entries).toEqual([]);
+        });
+    });
+
+    describe('LoggerServiceTransport', () => {
+        it('should write at the entry level, falling back to log', () => {
+            const logger = {
+                log: jest.fn(),
+                error: jest.fn(),
+                warn: jest.fn(),
+            } as unknown as Logger;
+            const transport = new LoggerServiceTransport(logger, {
+                level: 'debug',
+            });
+
+            transport.write(entry('failed', 'error'));
+            transport.write(entry('details', 'debug'));
+
+            expect(transport.level).toBe('debug');
+            expect(logger.error).toHaveBeenCalledWith('failed');
+            expect(logger.log).toHaveBeenCalledWith('details');
+        });
+    });
+});
@@ -1,4 +1,4 @@
-import { PathMatcher } from '../src';
+import { PathMatcher, Req } from '../src';
 
 describe('PathMatcher', () => {
     describe('exact matching', () => {
@@ -199,6 +199,105 @@ describe('PathMatcher', () => {
         });
     });
 
+    describe('literal brackets and parentheses', () => {
+        it('should match paths containing regex characters literally', () => {
+            const matcher = new PathMatcher(['/files/(draft)', '/tags/[id']);
+
+            expect(matcher.matches('/files/(draft)')).toBe(true);
+            expect(matcher.matches('/tags/[id')).toBe(true);
+            expect(matcher.matches('/files/draft')).toBe(true);
+        });
+    });
+
+    describe('RegExp patterns', () => {
+        it('should match RegExp instances', () => {
+            const matcher = new PathMatcher([
+                /^\/api\/v\d+\/internal/,
+                /ping$/g,
+            ]);
+
+            expect(matcher.matches('/api/v2/internal/jobs')).toBe(true);
+            expect(matcher.matches('/ping')).toBe(true);
+            expect(matcher.matches('/ping')).toBe(true);
+            expect(matcher.matches('/api/internal')).toBe(false);
+        });
+    });
+
+    describe('express params and globstar', () => {
+        it('should match a single segment for :params', () => {
+            const matcher = new PathMatcher(['/users/:id', '/orgs/:org/repos']);
+
+            expect(matcher.matches('/users/42')).toBe(true);
+            expect(matcher.matches('/orgs/acme/repos')).toBe(true);
+            expect(matcher.matches('/users')).toBe(false);
+            expect(matcher.matches('/users/42/posts')).toBe(false);
+        });
+
+        it('should match any number of segments for **', () => {
+            const matcher = new PathMatcher(['/api/**/health', '/docs/**']);
+
+            expect(matcher.matches('/api/health')).toBe(true);
+            expect(matcher.matches('/api/v1/internal/health')).toBe(true);
+            expect(matcher.matches('/docs')).toBe(true);
+            expect(matcher.matches('/docs/guide/intro')).toBe(true);
+            expect(matcher.matches('/api/v1/status')).toBe(false);
+        });
+    });
+
+    describe('method rules', () => {
+        let matcher: PathMatcher;
+
+        beforeEach(() => {
+            matcher = new PathMatcher([
+                { method: 'GET', path: '/health' },
+                { method: ['post', 'put'], path: /^\/hooks\// },
+                { path: '/metrics' },
+            ]);
+        });
+
+        it('should only match the listed methods', () => {
+            expect(matcher.matches('/health', 'GET')).toBe(true);
+            expect(matcher.matches('/health', 'get')).toBe(true);
+            expect(matcher.matches('/health', 'POST')).toBe(false);
+            expect(matcher.matches('/health')).toBe(false);
+            expect(matcher.matches('/hooks/github', 'PUT')).toBe(true);
+            expect(matcher.matches('/hooks/github', 'GET')).toBe(false);
+        });
+
+        it('should match every method when none is given', () => {
+            expect(matcher.matches('/metrics', 'DELETE')).toBe(true);
+            expect(matcher.matches('/metrics')).toBe(true);
+        });
+    });
+
+    describe('predicates', () => {
+        it('should call the predicate with the request', () => {
+            const predicate = jest.fn(
+                (req) => req.headers['user-agent'] === 'kube-probe'
+            );
+            const matcher = new PathMatcher([predicate]);
+            const req = {
+                headers: { 'user-agent': 'kube-probe' },
+            } as unknown as Req;
+
+            expect(matcher.matches('/anything', 'GET', req)).toBe(true);
+            expect(predicate).toHaveBeenCalledWith(req);
+            expect(matcher.matches('/anything', 'GET')).toBe(false);
+        });
+
+        it('should not match when the predicate throws', () => {
+            const matcher = new PathMatcher([
+                () => {
+                    throw new Error('boom');
+                },
+            ]);
+
+            expect(matcher.matches('/x', 'GET', {} as unknown as Req)).toBe(
+                false
+            );
+        });
+    });
+
     describe('performance', () => {
         it('should handle large number of patterns', () => {
             const patterns = Array.from(
@@ -0,0 +1,36 @@
+import { PatternCompiler } from '../src';
+
+describe('PatternCompiler', () => {
+    describe('compile', () => {
+        it('should match wildcards against any characters', () => {
+            const pattern = PatternCompiler.compile('application/*+json');
+
+            expect(pattern.test('application/vnd.api+json')).toBe(true);
+            expect(pattern.test('text/plain')).toBe(false);
+        });
+
+        it('should match other regex characters literally', () => {
+            const pattern = PatternCompiler.compile('a.b(c)');
+
+            expect(pattern.test('a.b(c)')).toBe(true);
+            expect(pattern.test('axb(c)')).toBe(false);
+        });
+
+        it('should anchor the pattern and apply the given flags', () => {
+            const pattern = PatternCompiler.compile('x-*-token', 'i');
+
+            expect(pattern.test('X-Api-Token')).toBe(true);
+            expect(pattern.test('x-api-token-id')).toBe(false);
+        });
+    });
+
+    describe('stateless', () => {
+        it('should drop global and sticky flags only', () => {
+            const pattern = PatternCompiler.stateless(/token/giy);
+
+            expect(pattern.flags).toBe('i');
+            expect(pattern.test('TOKEN')).toBe(true);
+            expect(pattern.test('TOKEN')).toBe(true);
+        });
+    });
+});
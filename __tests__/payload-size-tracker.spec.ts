@@ -0,0 +1,106 @@
+import { PayloadSizeTracker, Req, Res } from '../src';
+
+describe('PayloadSizeTracker', () => {
+    const tracker = new PayloadSizeTracker();
+
+    const createRes = () =>
+        ({
+            write: jest.fn(() => true),
+            end: jest.fn(),
+        }) as unknown as Res & {
+            write: (...args: unknown[]) => boolean;
+            end: (...args: unknown[]) => unknown;
+        };
+
+    describe('request bytes', () => {
+        it('should read content-length', () => {
+            const req = {
+                headers: { 'content-length': '512' },
+                push: jest.fn(),
+            } as unknown as Req;
+
+            expect(tracker.attach(req, createRes())().requestBytes).toBe(512);
+        });
+
+        it('should report 0 for requests without body', () => {
+            const req = { headers: {}, push: jest.fn() } as unknown as Req;
+
+            expect(tracker.attach(req, createRes())().requestBytes).toBe(0);
+        });
+
+        it('should count chunked bodies as they are received', () => {
+            const push = jest.fn(() => true);
+            const req = {
+                headers: { 'transfer-encoding': 'chunked' },
+                complete: false,
+                push,
+            } as unknown as Req & { push: (...args: unknown[]) => boolean };
+
+            const readSizes = tracker.attach(req, createRes());
+            req.push(Buffer.from('hello'));
+            req.push('wörld', 'utf8');
+            req.push(null);
+
+            expect(readSizes().requestBytes).toBe(11);
+            expect(push).toHaveBeenCalledTimes(3);
+            expect(push).toHaveBeenLastCalledWith(null, undefined);
+        });
+
+        it('should leave consumed chunked bodies unknown', () => {
+            const req = {
+                headers: { 'transfer-encoding': 'chunked' },
+                complete: true,
+                push: jest.fn(),
+            } as unknown as Req;
+
+            expect(tracker.attach(req, createRes())()).toEqual({
+                responseBytes: 0,
+            });
+        });
+    });
+
+    describe('response bytes', () => {
+        it('should count bytes written with write and end', () => {
+            const res = createRes();
+            const write = res.write;
+            const readSizes = tracker.attach(
+                { headers: {} } as unknown as Req,
+                res
+            );
+
+            res.write('héllo');
+            res.write(Buffer.alloc(10));
+            res.write('68656c6c6f', 'hex');
+            res.end('!', () => undefined);
+
+            expect(readSizes().responseBytes).toBe(22);
+            expect(write).toHaveBeenCalledWith('68656c6c6f', 'hex');
+        });
+
+        it('should ignore end callbacks', () => {
+            const res = createRes();
+            const readSizes = tracker.attach(
+                { headers: {} } as unknown as Req,
+                res
+            );
+
+            res.end(() => undefined);
+
+            expect(readSizes().responseBytes).toBe(0);
+        });
+
+        it('should count Fastify payloads on the raw response', () => {
+            const raw = createRes();
+            const reply = { raw, send: jest.fn() } as unknown as Res;
+            const req = {
+                headers: {},
+                raw: { headers: { 'content-length': '3' }, push: jest.fn() },
+            } as unknown as Req;
+
+            const readSizes = tracker.attach(req, reply);
+            raw.end('{"id":1}');
+
+            expect(readSizes()).toEqual({ requestBytes: 3, responseBytes: 8 });
+        });
+    });
+});
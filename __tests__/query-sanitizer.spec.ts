@@ -0,0 +1,93 @@
+import { DEFAULT_SENSITIVE_QUERY_KEYS, QuerySanitizer } from '../src';
+
+describe('QuerySanitizer', () => {
+    const sanitizer = new QuerySanitizer();
+
+    describe('parse', () => {
+        it('should return an empty object without query string', () => {
+            expect(sanitizer.parse('/api/users')).toEqual({});
+            expect(sanitizer.parse('/api/users?')).toEqual({});
+        });
+
+        it('should decode parameters and group repeated keys', () => {
+            expect(
+                sanitizer.parse('/search?q=hello+world&tag=a&tag=b&tag=c&empty')
+            ).toEqual({
+                q: 'hello world',
+                tag: ['a', 'b', 'c'],
+                empty: '',
+            });
+        });
+
+        it('should keep keys named like Object.prototype members as data', () => {
+            const query = sanitizer.parse(
+                '/x?constructor=a&toString=b&__proto__=c&__proto__=d'
+            );
+
+            expect(Object.entries(query)).toEqual([
+                ['constructor', 'a'],
+                ['toString', 'b'],
+                ['__proto__', ['c', 'd']],
+            ]);
+            expect(Object.getPrototypeOf(query)).toBe(Object.prototype);
+        });
+
+        it('should redact sensitive parameters', () => {
+            expect(
+                sanitizer.parse(
+                    '/cb?code=xyz&API_KEY=k&X-Amz-Signature=s&state=1'
+                )
+            ).toEqual({
+                code: '[REDACTED]',
+                API_KEY: '[REDACTED]',
+                'X-Amz-Signature': '[REDACTED]',
+                state: '1',
+            });
+        });
+    });
+
+    describe('sanitizePath', () => {
+        it('should leave paths without sensitive parameters untouched', () => {
+            expect(sanitizer.sanitizePath('/api/users')).toBe('/api/users');
+            expect(sanitizer.sanitizePath('/a?b=%20c&d&e=f=g')).toBe(
+                '/a?b=%20c&d&e=f=g'
+            );
+        });
+
+        it('should redact sensitive values in place', () => {
+            expect(
+                sanitizer.sanitizePath(
+                    '/download?file=a%20b.pdf&token=abc&access%5Ftoken=def&sig=1'
+                )
+            ).toBe(
+                '/download?file=a%20b.pdf&token=[REDACTED]&access%5Ftoken=[REDACTED]&sig=[REDACTED]'
+            );
+        });
+
+        it('should keep malformed keys as is', () => {
+            expect(sanitizer.sanitizePath('/a?%E0%A4%A=1&token=2')).toBe(
+                '/a?%E0%A4%A=1&token=[REDACTED]'
+            );
+        });
+    });
+
+    it('should strip the query string', () => {
+        expect(sanitizer.stripQuery('/api/users?token=abc')).toBe('/api/users');
+        expect(sanitizer.stripQuery('/api/users')).toBe('/api/users');
+    });
+
+    it('should accept custom keys and replacement', () => {
+        const custom = new QuerySanitizer({
+            sensitiveKeys: [...DEFAULT_SENSITIVE_QUERY_KEYS, 'otp'],
+            replacement: '***',
+        });
+
+        expect(custom.isSensitive('OTP')).toBe(true);
+        expect(custom.sanitizePath('/verify?otp=123456&token=t')).toBe(
+            '/verify?otp=***&token=***'
+        );
+        expect(
+            new QuerySanitizer({ sensitiveKeys: [] }).isSensitive('token')
+        ).toBe(false);
+    });
+});
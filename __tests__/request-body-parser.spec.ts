@@ -0,0 +1,193 @@
+import { RequestBodyParser } from '../src';
+
+describe('RequestBodyParser', () => {
+    const parser = new RequestBodyParser();
+
+    it('should keep structured bodies as received', () => {
+        const body = { name: 'John' };
+
+        expect(parser.parse(body, 'application/json')).toEqual({
+            kind: 'data',
+            body,
+        });
+        expect(parser.parse(body)).toEqual({ kind: 'data', body });
+    });
+
+    it('should parse raw urlencoded bodies into fields', () => {
+        expect(
+            parser.parse(
+                Buffer.from('name=John+Doe&tag=a&tag=b'),
+                'application/x-www-form-urlencoded; charset=utf-8'
+            )
+        ).toEqual({
+            kind: 'data',
+            body: { name: 'John Doe', tag: ['a', 'b'] },
+        });
+    });
+
+    it('should keep urlencoded keys named like Object.prototype members as data', () => {
+        const { body } = parser.parse(
+            'constructor=a&toString=b&__proto__=c&__proto__=d',
+            'application/x-www-form-urlencoded'
+        );
+
+        expect(Object.entries(body as object)).toEqual([
+            ['constructor', 'a'],
+            ['toString', 'b'],
+            ['__proto__', ['c', 'd']],
+        ]);
+        expect(Object.getPrototypeOf(body)).toBe(Object.prototype);
+    });
+
+    it('should decode text bodies', () => {
+        expect(parser.parse(Buffer.from('héllo'), 'text/plain')).toEqual({
+            kind: 'text',
+            body: 'héllo',
+        });
+    });
+
+    it('should parse NDJSON lines', () => {
+        expect(
+            parser.parse(
+                '{"id":1}\n{"id":2}\r\nnot json\n\n',
+                'application/x-ndjson'
+            )
+        ).toEqual({
+            kind: 'data',
+            body: [{ id: 1 }, { id: 2 }, 'not json'],
+        });
+    });
+
+    describe('multipart', () => {
+        it('should summarize multer fields and files without content', () => {
+            const result = parser.parse(
+                { title: 'Holidays', tags: ['a', 'b'] },
+                'multipart/form-data; boundary=x',
+                [
+                    {
+                        fieldname: 'photos',
+                        originalname: 'beach.jpg',
+                        mimetype: 'image/jpeg',
+                        size: 20480,
+                        buffer: Buffer.alloc(8),
+                    },
+                ]
+            );
+
+            expect(result).toEqual({
+                kind: 'multipart',
+                body: {
+                    fields: ['title', 'tags'],
+                    files: [
+                        {
+                            field: 'photos',
+                            filename: 'beach.jpg',
+                            mimetype: 'image/jpeg',
+                            size: 20480,
+                        },
+                    ],
+                },
+            });
+        });
+
+        it('should summarize multer field maps and single files', () => {
+            expect(
+                parser.summarize(
+                    {},
+                    {
+                        avatar: [
+                            { fieldname: 'avatar', originalname: 'a.png' },
+                        ],
+                        docs: [{ fieldname: 'docs', originalname: 'b.pdf' }],
+                    }
+                ).files
+            ).toEqual([
+                { field: 'avatar', filename: 'a.png' },
+                { field: 'docs', filename: 'b.pdf' },
+            ]);
+            expect(
+                parser.summarize(undefined, {
+                    fieldname: 'avatar',
+                    originalname: 'a.png',
+                }).files
+            ).toEqual([{ field: 'avatar', filename: 'a.png' }]);
+        });
+
+        it('should summarize @fastify/multipart parts', () => {
+            expect(
+                parser.summarize({
+                    title: { type: 'field', fieldname: 'title', value: 'x' },
+                    avatar: {
+                        type: 'file',
+                        fieldname: 'avatar',
+                        filename: 'me.png',
+                        mimetype: 'image/png',
+                        _buf: Buffer.alloc(5),
+                    },
+                })
+            ).toEqual({
+                fields: ['title'],
+                files: [
+                    {
+                        field: 'avatar',
+                        filename: 'me.png',
+                        mimetype: 'image/png',
+                        size: 5,
+                    },
+                ],
+            });
+        });
+    });
+
+    describe('include / exclude', () => {
+        it('should omit excluded content types', () => {
+            const filtered = new RequestBodyParser({
+                exclude: ['application/xml', 'text/*'],
+            });
+
+            expect(filtered.parse('<a/>', 'application/xml')).toEqual({
+                kind: 'omitted',
+                body: '[application/xml body omitted]',
+            });
+            expect(filtered.isLogged('text/csv')).toBe(false);
+            expect(filtered.isLogged('application/json')).toBe(true);
+        });
+
+        it('should only log included content types', () => {
+            const filtered = new RequestBodyParser({
+                include: ['application/json', 'application/*+json'],
+                exclude: ['application/secret+json'],
+            });
+
+            expect(filtered.isLogged('application/json; charset=utf-8')).toBe(
+                true
+            );
+            expect(filtered.isLogged('application/vnd.api+json')).toBe(true);
+            expect(filtered.isLogged('application/secret+json')).toBe(false);
+            expect(filtered.isLogged('text/plain')).toBe(false);
+        });
+
+        it('should apply the include list to bodies without content type', () => {
+            const filtered = new RequestBodyParser({
+                include: ['application/json'],
+            });
+
+            expect(filtered.parse({ a: 1 })).toEqual({
+                kind: 'omitted',
+                body: '[body omitted]',
+            });
+            expect(parser.parse({ a: 1 }).kind).toBe('data');
+        });
+
+        it('should not emit a placeholder for a missing body', () => {
+            const filtered = new RequestBodyParser({
+                exclude: ['application/xml'],
+            });
+
+            expect(filtered.parse(undefined, 'application/xml')).toEqual({
+                kind: 'data',
+                body: undefined,
+            });
+        });
+    });
+});
@@ -0,0 +1,59 @@
+import { RequestContext } from '../src';
+
+describe('RequestContext', () => {
+    it('should return undefined outside of a scope', () => {
+        expect(RequestContext.get()).toBeUndefined();
+        expect(RequestContext.getRequestId()).toBeUndefined();
+    });
+
+    it('should expose the store inside a scope', () => {
+        const store = { requestId: 'abc', method: 'GET', path: '/api/users' };
+
+        RequestContext.run(store, () => {
+            expect(RequestContext.get()).toBe(store);
+            expect(RequestContext.getRequestId()).toBe('abc');
+        });
+    });
+
+    it('should return the callback result', () => {
+        const result = RequestContext.run(
+            { method: 'GET', path: '/' },
+            () => 42
+        );
+
+        expect(result).toBe(42);
+    });
+
+    it('should propagate the store across async continuations', async () => {
+        const requestId = await RequestContext.run(
+            { requestId: 'async-1', method: 'GET', path: '/' },
+            async () => {
+                await new Promise((resolve) => setTimeout(resolve, 5));
+                return RequestContext.getRequestId();
+            }
+        );
+
+        expect(requestId).toBe('async-1');
+    });
+
+    it('should isolate concurrent scopes', async () => {
+        const read = (requestId: string, delay: number) =>
+            RequestContext.run(
+                { requestId, method: 'GET', path: '/' },
+                () =>
+                    new Promise<string | undefined>((resolve) =>
+                        setTimeout(
+                            () => resolve(RequestContext.getRequestId()),
+                            delay
+                        )
+                    )
+            );
+
+        const results = await Promise.all([
+            read('first', 10),
+            read('second', 1),
+        ]);
+
+        expect(results).toEqual(['first', 'second']);
+    });
+});
@@ -0,0 +1,90 @@
+import { NotFoundException } from '@nestjs/common';
+import { RequestExceptionRecorder } from '../src';
+
+describe('RequestExceptionRecorder', () => {
+    describe('record and get', () => {
+        it('should return undefined when nothing was recorded', () => {
+            expect(RequestExceptionRecorder.get({})).toBeUndefined();
+            expect(RequestExceptionRecorder.get(undefined)).toBeUndefined();
+        });
+
+        it('should return the recorded exception', () => {
+            const req = {};
+            const error = new Error('boom');
+
+            RequestExceptionRecorder.record(req, error);
+
+            expect(RequestExceptionRecorder.get(req)).toBe(error);
+        });
+
+        it('should keep the first recorded exception', () => {
+            const req = {};
+            const first = new Error('first');
+
+            RequestExceptionRecorder.record(req, first);
+            RequestExceptionRecorder.record(req, new Error('second'));
+
+            expect(RequestExceptionRecorder.get(req)).toBe(first);
+        });
+
+        it('should expose exceptions recorded on a Fastify request through its raw request', () => {
+            const raw = {};
+            const error = new Error('boom');
+
+            RequestExceptionRecorder.record({ raw }, error);
+
+            expect(RequestExceptionRecorder.get(raw)).toBe(error);
+        });
+
+        it('should ignore non-object requests', () => {
+            expect(() =>
+                RequestExceptionRecorder.record(null, new Error('boom'))
+            ).not.toThrow();
+        });
+    });
+
+    describe('describe', () => {
+        it('should describe errors without the stack by default', () => {
+            const details = RequestExceptionRecorder.describe(
+                new TypeError('bad input')
+            );
+
+            expect(details).toEqual({
+                name: 'TypeError',
+                message: 'bad input',
+            });
+        });
+
+        it('should include the stack when requested', () => {
+            const details = RequestExceptionRecorder.describe(
+                new Error('boom'),
+                true
+            );
+
+            expect(details.stack).toContain('Error: boom');
+        });
+
+        it('should include the HttpException response', () => {
+            const details = RequestExceptionRecorder.describe(
+                new NotFoundException('User 42 not found')
+            );
+
+            expect(details).toEqual({
+                name: 'NotFoundException',
+                message: 'User 42 not found',
+                response: {
+                    statusCode: 404,
+                    message: 'User 42 not found',
+                    error: 'Not Found',
+                },
+            });
+        });
+
+        it('should describe thrown non-errors', () => {
+            expect(RequestExceptionRecorder.describe('oops')).toEqual({
+                name: 'Error',
+                message: 'oops',
+            });
+        });
+    });
+});
@@ -0,0 +1,108 @@
+import { RequestIdResolver } from '../src';
+
+describe('RequestIdResolver', () => {
+    const UUID_V4 =
+        /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+    describe('incoming headers', () => {
+        let resolver: RequestIdResolver;
+
+        beforeEach(() => {
+            resolver = new RequestIdResolver();
+        });
+
+        it('should reuse x-request-id', () => {
+            expect(resolver.resolve({ 'x-request-id': 'abc-123' })).toBe(
+                'abc-123'
+            );
+        });
+
+        it('should match header names case-insensitively', () => {
+            expect(resolver.resolve({ 'X-Correlation-ID': 'corr-1' })).toBe(
+                'corr-1'
+            );
+        });
+
+        it('should use the first value of array headers', () => {
+            expect(
+                resolver.resolve({ 'x-request-id': ['first', 'second'] })
+            ).toBe('first');
+        });
+
+        it('should extract the trace ID from traceparent', () => {
+            expect(
+                resolver.resolve({
+                    traceparent:
+                        '00-4BF92F3577B34DA6A3CE929D0E0E4736-00f067aa0ba902b7-01',
+                })
+            ).toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+        });
+
+        it('should ignore a malformed traceparent', () => {
+            expect(resolver.resolve({ traceparent: 'garbage' })).toMatch(
+                UUID_V4
+            );
+        });
+
+        it('should prefer headers in configured order', () => {
+            const ordered = new RequestIdResolver({
+                headers: ['x-trace', 'x-request-id'],
+            });
+
+            expect(
+                ordered.resolve({ 'x-request-id': 'req', 'x-trace': 'trace' })
+            ).toBe('trace');
+        });
+
+        it('should reject values with whitespace or control characters', () => {
+            expect(
+                resolver.resolve({ 'x-request-id': 'abc\n injected=1' })
+            ).toMatch(UUID_V4);
+        });
+
+        it('should reject values longer than 128 characters', () => {
+            expect(
+                resolver.resolve({ 'x-request-id': 'a'.repeat(129) })
+            ).toMatch(UUID_V4);
+        });
+    });
+
+    describe('generators', () => {
+        it('should generate unique UUID v4 values by default', () => {
+            const resolver = new RequestIdResolver();
+
+            const first = resolver.resolve({});
+            const second = resolver.resolve(undefined);
+
+            expect(first).toMatch(UUID_V4);
+            expect(second).toMatch(UUID_V4);
+            expect(first).not.toBe(second);
+        });
+
+        it('should generate ULIDs', () => {
+            const resolver = new RequestIdResolver({ generator: 'ulid' });
+
+            const id = resolver.generate();
+
+            expect(id).toMatch(/^[0-9A-HJKMNP-TV-Z]{26}$/);
+        });
+
+        it('should produce time-sortable ULIDs', async () => {
+            const resolver = new RequestIdResolver({ generator: 'ulid' });
+
+            const first = resolver.generate();
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            const second = resolver.generate();
+
+            expect(first.slice(0, 10) < second.slice(0, 10)).toBe(true);
+        });
+
+        it('should support a custom generator', () => {
+            const resolver = new RequestIdResolver({
+                generator: () => 'custom-id',
+            });
+
+            expect(resolver.resolve({})).toBe('custom-id');
+        });
+    });
+});
@@ -0,0 +1,50 @@
+import { CallHandler, ExecutionContext } from '@nestjs/common';
+import { lastValueFrom, of, throwError } from 'rxjs';
+import {
+    RequestExceptionRecorder,
+    RequestLoggerExceptionInterceptor,
+} from '../src';
+
+describe('RequestLoggerExceptionInterceptor', () => {
+    const interceptor = new RequestLoggerExceptionInterceptor();
+
+    const createContext = (req: object, type = 'http'): ExecutionContext =>
+        ({
+            getType: () => type,
+            switchToHttp: () => ({ getRequest: () => req }),
+        }) as unknown as ExecutionContext;
+
+    it('should pass results through', async () => {
+        const req = {};
+        const next: CallHandler = { handle: () => of('ok') };
+
+        await expect(
+            lastValueFrom(interceptor.intercept(createContext(req), next))
+        ).resolves.toBe('ok');
+        expect(RequestExceptionRecorder.get(req)).toBeUndefined();
+    });
+
+    it('should record and rethrow exceptions', async () => {
+        const req = {};
+        const error = new Error('boom');
+        const next: CallHandler = { handle: () => throwError(() => error) };
+
+        await expect(
+            lastValueFrom(interceptor.intercept(createContext(req), next))
+        ).rejects.toBe(error);
+        expect(RequestExceptionRecorder.get(req)).toBe(error);
+    });
+
+    it('should ignore non-http contexts', async () => {
+        const req = {};
+        const error = new Error('boom');
+        const next: CallHandler = { handle: () => throwError(() => error) };
+
+        await expect(
+            lastValueFrom(
+                interceptor.intercept(createContext(req, 'rpc'), next)
+            )
+        ).rejects.toBe(error);
+        expect(RequestExceptionRecorder.get(req)).toBeUndefined();
+    });
+});
@@ -0,0 +1,46 @@
+import { EventEmitter } from 'events';
+import { MemoryTransport, Req, Res, requestLoggerFactory } from '../src';
+
+describe('requestLoggerFactory', () => {
+    const createReq = (): Req =>
+        ({ method: 'GET', originalUrl: '/users', headers: {} }) as Req;
+
+    it('should return a middleware function', () => {
+        const memory = new MemoryTransport();
+        const requestLogger = requestLoggerFactory({ transports: [memory] });
+        const next = jest.fn();
+
+        requestLogger(
+            createReq(),
+            Object.assign(new EventEmitter(), {
+                statusCode: 200,
+            }) as unknown as Res,
+            next
+        );
+
+        expect(next).toHaveBeenCalled();
+        expect(memory.entries).toHaveLength(1);
+    });
+
+    it('should write buffered lines and close the transports on shutdown', async () => {
+        const transport = { write: jest.fn(), close: jest.fn() };
+        const requestLogger = requestLoggerFactory({
+            transports: [transport],
+            bufferLogs: true,
+        });
+
+        requestLogger(
+            createReq(),
+            Object.assign(new EventEmitter(), {
+                statusCode: 200,
+            }) as unknown as Res,
+            jest.fn()
+        );
+        expect(transport.write).not.toHaveBeenCalled();
+
+        await requestLogger.shutdown();
+
+        expect(transport.write).toHaveBeenCalledTimes(1);
+        expect(transport.close).toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,479 @@
+import {
+    CallHandler,
+    ExecutionContext,
+    LoggerService,
+    NotFoundException,
+} from '@nestjs/common';
+import { EventEmitter } from 'events';
+import { Observable, lastValueFrom, of, throwError } from 'rxjs';
+import {
+    LogLevel,
+    LogRequestBody,
+    LogResponseBody,
+    RedactFields,
+    RequestContext,
+    RequestLoggerInterceptor,
+    SkipRequestLog,
+} from '../src';
+
+describe('RequestLoggerInterceptor', () => {
+    let mockLogger: jest.Mocked<LoggerService>;
+
+    class UsersController {
+        findOne(): void {}
+    }
+
+    const createContext = (
+        type: string,
+        args: unknown[],
+        handler: object = UsersController.prototype.findOne,
+        controller: object = UsersController
+    ): ExecutionContext =>
+        ({
+            getType: () => type,
+            getClass: () => controller,
+            getHandler: () => handler,
+            getArgs: () => args,
+            switchToHttp: () => ({
+                getRequest: () => args[0],
+                getResponse: () => args[1],
+            }),
+            switchToRpc: () => ({ getData: () => args[0] }),
+        }) as unknown as ExecutionContext;
+
+    const createResponse = () =>
+        Object.assign(new EventEmitter(), { statusCode: 200 });
+
+    beforeEach(() => {
+        mockLogger = {
+            log: jest.fn(),
+            error: jest.fn(),
+            warn: jest.fn(),
+            debug: jest.fn(),
+        } as unknown as jest.Mocked<LoggerService>;
+    });
+
+    describe('http', () => {
+        it('should log the Express route template, controller and handler', async () => {
+            const interceptor = new RequestLoggerInterceptor({
+                logger: mockLogger,
+            });
+            const req = {
+                method: 'GET',
+                originalUrl: '/api/users/42',
+                headers: {},
+                baseUrl: '/api',
+                route: { path: '/users/:id' },
+            };
+            const res = createResponse();
+            const next: CallHandler = { handle: () => of('ok') };
+
+            await lastValueFrom(
+                interceptor.intercept(createContext('http', [req, res]), next)
+            );
+            res.emit('finish');
+
+            expect(mockLogger.log).toHaveBeenNthCalledWith(
+                1,
+                'Incoming request: method=GET path=/api/users/42 route=/api/users/:id controller=UsersController handler=findOne'
+            );
+            expect(mockLogger.log).toHaveBeenNthCalledWith(
+                2,
+                expect.stringMatching(
+                    /^Request completed: method=GET path=\/api\/users\/42 route=\/api\/users\/:id controller=UsersController handler=findOne statusCode=200/
+                )
+            );
+        });
+
+        it('should log the Fastify route template', async () => {
+            const interceptor = new RequestLoggerInterceptor({
+                logger: mockLogger,
+                outputFormat: 'object',
+            });
+            const raw = createResponse();
+            const req = {
+                method: 'GET',
+                url: '/users/42',
+                headers: {},
+                raw: { url: '/users/42' },
+                routeOptions: { url: '/users/:id' },
+            };
+            const next: CallHandler = { handle: () => of('ok') };
+
+            await lastValueFrom(
+                interceptor.intercept(
+                    createContext('http', [req, { raw, statusCode: 200 }]),
+                    next
+                )
+            );
+            raw.emit('finish');
+
+            expect(mockLogger.log).toHaveBeenLastCalledWith(
+                expect.objectContaining({
+                    event: 'request.completed',
+                    route: '/users/:id',
+                    controller: 'UsersController',
+                    handler: 'findOne',
+                })
+            );
+        });
+
+        it('should run the handler inside the request context', async () => {
+            const interceptor = new RequestLoggerInterceptor({
+                logger: mockLogger,
+                requestContext: true,
+            });
+            const req = {
+                method: 'GET',
+                originalUrl: '/users/42',
+                headers: {},
+            };
+            const next: CallHandler = {
+                handle: () =>
+                    new Observable((subscriber) => {
+                        subscriber.next(RequestContext.get());
+                        subscriber.complete();
+                    }),
+            };
+
+            const store = await lastValueFrom(
+                interceptor.intercept(
+                    createContext('http', [req, createResponse()]),
+                    next
+                )
+            );
+
+            expect(store).toEqual(
+                expect.objectContaining({ method: 'GET', path: '/users/42' })
+            );
+        });
+
+        it('should add handler exceptions to the completed line', async () => {
+            const interceptor = new RequestLoggerInterceptor({
+                logger: mockLogger,
+            });
+            const req = { method: 'GET', originalUrl: '/users/1', headers: {} };
+            const res = createResponse();
+            const error = new NotFoundException('User 1 not found');
+            const next: CallHandler = { handle: () => throwError(() => error) };
+
+            await expect(
+                lastValueFrom(
+                    interceptor.intercept(
+                        createContext('http', [req, res]),
+                        next
+                    )
+                )
+            ).rejects.toBe(error);
+            res.statusCode = 404;
+            res.emit('finish');
+
+            expect(mockLogger.error).toHaveBeenCalledWith(
+                expect.stringContaining(
+                    'error.name=NotFoundException error.message="User 1 not found"'
+                )
+            );
+        });
+    });
+
+    describe('rpc', () => {
+        it('should log the message pattern', async () => {
+            const interceptor = new RequestLoggerInterceptor({
+                logger: mockLogger,
+                logRequestBody: true,
+            });
+            const handler = function findUser(): void {};
+            Reflect.defineMetadata(
+                'microservices:pattern',
+                [{ cmd: 'find_user' }],
+                handler
+            );
+            const next: CallHandler = { handle: () => of({ id: 1 }) };
+
+            await lastValueFrom(
+                interceptor.intercept(
+                    createContext('rpc', [{ id: 1 }], handler),
+                    next
+                )
+            );
+
+            expect(mockLogger.log).toHaveBeenNthCalledWith(
+                1,
+                'Incoming request: method=RPC path={"cmd":"find_user"} route={"cmd":"find_user"} controller=UsersController handler=findUser body={"id":1}'
+            );
+            expect(mockLogger.log).toHaveBeenNthCalledWith(
+                2,
+                expect.stringMatching(
+                    /^Request completed: method=RPC .* statusCode=200 /
+                )
+            );
+        });
+
+        it('should log failures with status 500 once', async () => {
+            const interceptor = new RequestLoggerInterceptor({
+                logger: mockLogger,
+            });
+            const next: CallHandler = {
+                handle: () => throwError(() => new Error('broker down')),
+            };
+
+            await expect(
+                lastValueFrom(
+                    interceptor.intercept(createContext('rpc', [{}]), next)
+                )
+            ).rejects.toThrow('broker down');
+
+            expect(mockLogger.error).toHaveBeenCalledTimes(1);
+            expect(mockLogger.error).toHaveBeenCalledWith(
+                expect.stringMatching(
+                    /method=RPC path=findOne route=findOne .* statusCode=500 .* error\.message="broker down"/
+                )
+            );
+        });
+    });
+
+    describe('graphql', () => {
+        it('should log the operation type and resolver field', async () => {
+            const interceptor = new RequestLoggerInterceptor({
+                logger: mockLogger,
+                requestId: true,
+            });
+            const info = {
+                fieldName: 'user',
+                parentType: { name: 'Query' },
+                operation: { operation: 'query' },
+            };
+            const gqlContext = {
+                req: { headers: { 'x-request-id': 'gql-1' } },
+            };
+            const next: CallHandler = { handle: () => of({ id: 1 }) };
+
+            await lastValueFrom(
+                interceptor.intercept(
+                    createContext('graphql', [{}, { id: 1 }, gqlContext, info]),
+                    next
+                )
+            );
+
+            expect(mockLogger.log).toHaveBeenNthCalledWith(
+                1,
+                'Incoming request: method=QUERY path=user requestId=gql-1 route=Query.user controller=UsersController handler=findOne'
+            );
+            expect(mockLogger.log).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    it('should pass other context types through', async () => {
+        const interceptor = new RequestLoggerInterceptor({
+            logger: mockLogger,
+        });
+        const next: CallHandler = { handle: () => of('ok') };
+
+        await expect(
+            lastValueFrom(interceptor.intercept(createContext('ws', []), next))
+        ).resolves.toBe('ok');
+        expect(mockLogger.log).not.toHaveBeenCalled();
+    });
+
+    describe('decorators', () => {
+        const run = async (
+            interceptor: RequestLoggerInterceptor,
+            controller: new () => object,
+            handlerName: string,
+            data: unknown = {}
+        ): Promise<void> => {
+            const handler = (controller.prototype as Record<string, object>)[
+                handlerName
+            ];
+            const next: CallHandler = { handle: () => of('ok') };
+            await lastValueFrom(
+                interceptor.intercept(
+                    createContext('rpc', [data], handler, controller),
+                    next
+                )
+            );
+        };
+
+        it('should skip handlers and controllers decorated with @SkipRequestLog()', async () => {
+            @SkipRequestLog()
+            class HealthController {
+                check(): void {}
+
+                @SkipRequestLog(false)
+                details(): void {}
+            }
+            const interceptor = new RequestLoggerInterceptor({
+                logger: mockLogger,
+            });
+
+            await run(interceptor, HealthController, 'check');
+            expect(mockLogger.log).not.toHaveBeenCalled();
+
+            await run(interceptor, HealthController, 'details');
+            expect(mockLogger.log).toHaveBeenCalledTimes(2);
+        });
+
+        it('should override logRequestBody with @LogRequestBody()', async () => {
+            class PaymentsController {
+                @LogRequestBody()
+                create(): void {}
+
+                list(): void {}
+            }
+            const interceptor = new RequestLoggerInterceptor({
+                logger: mockLogger,
+            });
+
+            await run(interceptor, PaymentsController, 'create', { id: 1 });
+            await run(interceptor, PaymentsController, 'list', { id: 2 });
+
+            expect(mockLogger.log).toHaveBeenNthCalledWith(
+                1,
+                expect.stringContaining('handler=create body={"id":1}')
+            );
+            expect(mockLogger.log).toHaveBeenNthCalledWith(
+                3,
+                expect.not.stringContaining('body=')
+            );
+        });
+
+        it('should merge @RedactFields() from the controller and the handler', async () => {
+            @RedactFields('pin')
+            class PaymentsController {
+                @RedactFields('card.number')
+                @LogRequestBody()
+                create(): void {}
+            }
+            const interceptor = new RequestLoggerInterceptor({
+                logger: mockLogger,
+            });
+
+            await run(interceptor, PaymentsController, 'create', {
+                pin: '1234',
+                password: 'secret',
+                card: { number: '4111111111111111', brand: 'visa' },
+            });
+
+            expect(mockLogger.log).toHaveBeenNthCalledWith(
+                1,
+                expect.stringContaining(
+                    'body={"pin":"[REDACTED]","password":"[REDACTED]","card":{"number":"[REDACTED]","brand":"visa"}}'
+                )
+            );
+        });
+
+        it('should override the log level with @LogLevel()', async () => {
+            class PingController {
+                @LogLevel('debug')
+                ping(): void {}
+            }
+            const interceptor = new RequestLoggerInterceptor({
+                logger: mockLogger,
+                routeLogLevels: [{ path: '**', level: 'warn' }],
+            });
+
+            await run(interceptor, PingController, 'ping');
+
+            expect(mockLogger.debug).toHaveBeenCalledTimes(2);
+            expect(mockLogger.log).not.toHaveBeenCalled();
+            expect(mockLogger.warn).not.toHaveBeenCalled();
+        });
+
+        it('should capture response bodies with @LogResponseBody()', async () => {
+            class ExportController {
+                @LogResponseBody()
+                export(): void {}
+            }
+            const interceptor = new RequestLoggerInterceptor({
+                logger: mockLogger,
+            });
+            const end = jest.fn();
+            const res = Object.assign(createResponse(), { end });
+            const req = { method: 'GET', originalUrl: '/export', headers: {} };
+
+            await lastValueFrom(
+                interceptor.intercept(
+                    createContext(
+                        'http',
+                        [req, res],
+                        ExportController.prototype.export,
+                        ExportController
+                    ),
+                    { handle: () => of('ok') }
+                )
+            );
+
+            expect(res.end).not.toBe(end);
+        });
+    });
+
+    describe('buffered logging', () => {
+        it('should queue decorated handlers in the shared buffer', async () => {
+            class OrdersController {
+                @LogRequestBody()
+                create(): void {}
+
+                list(): void {}
+            }
+            const interceptor = new RequestLoggerInterceptor({
+                logger: mockLogger,
+                bufferLogs: true,
+            });
+            const next: CallHandler = { handle: () => of('ok') };
+
+            for (const handler of [
+                OrdersController.prototype.create,
+                OrdersController.prototype.list,
+            ]) {
+                await lastValueFrom(
+                    interceptor.intercept(
+                        createContext('rpc', [{}], handler, OrdersController),
+                        next
+                    )
+                );
+            }
+            expect(mockLogger.log).not.toHaveBeenCalled();
+
+            await interceptor.onApplicationShutdown();
+
+            expect(mockLogger.log).toHaveBeenCalledTimes(4);
+            expect(mockLogger.log).toHaveBeenNthCalledWith(
+                1,
+                expect.stringContaining('handler=create')
+            );
+        });
+
+        it('should flush and close shared transports once on shutdown', async () => {
+            class OrdersController {
+                @LogRequestBody()
+                create(): void {}
+            }
+            const transport = {
+                write: jest.fn(),
+                flush: jest.fn(),
+                close: jest.fn(),
+            };
+            const interceptor = new RequestLoggerInterceptor({
+                transports: [transport],
+                bufferLogs: true,
+            });
+
+            await lastValueFrom(
+                interceptor.intercept(
+                    createContext(
+                        'rpc',
+                        [{}],
+                        OrdersController.prototype.create,
+                        OrdersController
+                    ),
+                    { handle: () => of('ok') }
+                )
+            );
+            await interceptor.onApplicationShutdown();
+
+            expect(transport.write).toHaveBeenCalledTimes(2);
+            expect(transport.flush).toHaveBeenCalledTimes(1);
+            expect(transport.close).toHaveBeenCalledTimes(1);
+        });
+    });
+});
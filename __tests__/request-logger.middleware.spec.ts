@@ -1,5 +1,17 @@
 import { Logger } from '@nestjs/common';
-import { Req, RequestLoggerMiddleware, Res } from '../src';
+import { EventEmitter } from 'events';
+import { BadRequestException } from '@nestjs/common';
+import {
+    ClientMetadataExtractor,
+    LoggerServiceTransport,
+    LogTransportEntry,
+    MemoryTransport,
+    Req,
+    RequestContext,
+    RequestExceptionRecorder,
+    RequestLoggerMiddleware,
+    Res,
+} from '../src';
 describe('RequestLoggerMiddleware', () => {
     let middleware: RequestLoggerMiddleware;
     let mockLogger: Partial<Logger>;
@@ -11,6 +23,7 @@ describe('RequestLoggerMiddleware', () => {
         mockLogger = {
             log: jest.fn(),
             error: jest.fn(),
+            warn: jest.fn(),
         };
 
         mockReq = {
@@ -171,6 +184,47 @@ describe('RequestLoggerMiddleware', () => {
         });
     });
 
+    describe('body redaction', () => {
+        it('should redact sensitive fields in the logged request body', (done) => {
+            mockReq.body = { email: 'test@example.com', password: 'hunter22' };
+            middleware = new RequestLoggerMiddleware({
+                logRequestBody: true,
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            setTimeout(() => {
+                const logCall = (mockLogger.log as jest.Mock).mock.calls[0][0];
+                expect(logCall).not.toContain('hunter22');
+                expect(logCall).toContain('"password":"[REDACTED]"');
+                expect(mockReq.body.password).toBe('hunter22');
+                done();
+            }, 50);
+        });
+
+        it('should apply configured paths and patterns', (done) => {
+            mockReq.body = { user: { a: { ssn: '123' } }, note: 'x@y.io' };
+            middleware = new RequestLoggerMiddleware({
+                logRequestBody: true,
+                sensitiveBodyPaths: ['user.*.ssn'],
+                sensitiveBodyPatterns: [/[\w.]+@[\w.]+/],
+                bodyRedactionReplacement: '<hidden>',
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            setTimeout(() => {
+                const logCall = (mockLogger.log as jest.Mock).mock.calls[0][0];
+                expect(logCall).toContain(
+                    'body={"user":{"a":{"ssn":"<hidden>"}},"note":"<hidden>"}'
+                );
+                done();
+            }, 50);
+        });
+    });
+
     describe('response logging', () => {
         beforeEach(() => {
             middleware = new RequestLoggerMiddleware({
@@ -256,6 +310,77 @@ describe('RequestLoggerMiddleware', () => {
         });
     });
 
+    describe('response body logging', () => {
+        it('should log the response body when logResponseBody is true', (done) => {
+            const res = {
+                statusCode: 200,
+                write: jest.fn(),
+                end: jest.fn(),
+                getHeader: jest.fn(() => 'application/json'),
+                once: jest.fn((_event: string, callback: () => void) => {
+                    setTimeout(callback, 0);
+                }),
+            };
+            middleware = new RequestLoggerMiddleware({
+                logResponseBody: true,
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, res as unknown as Res, nextCallback);
+            (res as unknown as { end: (chunk: string) => void }).end(
+                '{"id":42}'
+            );
+
+            setTimeout(() => {
+                const logCalls = (mockLogger.log as jest.Mock).mock.calls;
+                const completionCall = logCalls[logCalls.length - 1][0];
+                expect(completionCall).toContain('body={"id":42}');
+                done();
+            }, 50);
+        });
+
+        it('should redact truncated response bodies', () => {
+            const res = Object.assign(new EventEmitter(), {
+                statusCode: 200,
+                write: jest.fn(),
+                end: jest.fn(),
+                getHeader: jest.fn(() => 'application/json'),
+            });
+            middleware = new RequestLoggerMiddleware({
+                logResponseBody: true,
+                maxResponseBodyBytes: 40,
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, res as unknown as Res, nextCallback);
+            (res as unknown as { end: (chunk: string) => void }).end(
+                JSON.stringify({
+                    user: 'a',
+                    password: 'hunter2hunter2',
+                    items: ['x'.repeat(100)],
+                })
+            );
+            res.emit('finish');
+
+            const logCalls = (mockLogger.log as jest.Mock).mock.calls;
+            const completionCall = logCalls[logCalls.length - 1][0];
+            expect(completionCall).toContain('[REDACTED]');
+            expect(completionCall).not.toContain('hunter2');
+        });
+
+        it('should not wrap the response when logResponseBody is false', () => {
+            const end = jest.fn();
+            const res = { ...mockRes, end } as unknown as Res;
+            middleware = new RequestLoggerMiddleware({
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, res, nextCallback);
+
+            expect((res as unknown as { end: jest.Mock }).end).toBe(end);
+        });
+    });
+
     describe('path filtering', () => {
         it('should skip logging for ignored paths', (done) => {
             const req = {
@@ -314,6 +439,37 @@ describe('RequestLoggerMiddleware', () => {
             }, 50);
         });
 
+        it('should support method-qualified ignore rules', (done) => {
+            middleware = new RequestLoggerMiddleware({
+                ignorePaths: [{ method: 'POST', path: '/api/users' }],
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            setTimeout(() => {
+                expect(mockLogger.log).toHaveBeenCalled();
+                done();
+            }, 50);
+        });
+
+        it('should support predicate ignore rules', (done) => {
+            const predicate = jest.fn(() => true);
+            middleware = new RequestLoggerMiddleware({
+                ignorePaths: [predicate],
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            setTimeout(() => {
+                expect(predicate).toHaveBeenCalledWith(mockReq);
+                expect(mockLogger.log).not.toHaveBeenCalled();
+                expect(nextCallback).toHaveBeenCalled();
+                done();
+            }, 50);
+        });
+
         it('should always call next middleware regardless of logging', (done) => {
             const req = {
                 method: 'GET',
@@ -383,6 +539,64 @@ describe('RequestLoggerMiddleware', () => {
         });
     });
 
+    describe('header sanitizer strategies', () => {
+        it('should use the custom sanitizeHeaders function', (done) => {
+            const sanitizeHeaders = jest.fn((headers) => ({
+                ...headers,
+                authorization: 'custom-mask',
+            }));
+            middleware = new RequestLoggerMiddleware({
+                headerFields: ['authorization'],
+                sanitizeHeaders,
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            setTimeout(() => {
+                const logCall = (mockLogger.log as jest.Mock).mock.calls[0][0];
+                expect(sanitizeHeaders).toHaveBeenCalled();
+                expect(logCall).toContain('authorization=custom-mask');
+                done();
+            }, 50);
+        });
+
+        it('should apply the configured mask strategy once', (done) => {
+            middleware = new RequestLoggerMiddleware({
+                headerFields: ['authorization'],
+                headerMaskStrategy: 'partial',
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            setTimeout(() => {
+                const logCall = (mockLogger.log as jest.Mock).mock.calls[0][0];
+                expect(logCall).toContain('authorization=****n123');
+                done();
+            }, 50);
+        });
+
+        it('should merge custom sensitive headers with the defaults', (done) => {
+            mockReq.headers['x-tenant-token'] = 'tenant-secret';
+            middleware = new RequestLoggerMiddleware({
+                headerFields: ['authorization', 'x-tenant-token'],
+                sensitiveHeaders: ['x-*-token'],
+                mergeSensitiveHeaders: true,
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            setTimeout(() => {
+                const logCall = (mockLogger.log as jest.Mock).mock.calls[0][0];
+                expect(logCall).not.toContain('token123');
+                expect(logCall).not.toContain('tenant-secret');
+                done();
+            }, 50);
+        });
+    });
+
     describe('header field extraction', () => {
         it('should include specified header fields in log', (done) => {
             middleware = new RequestLoggerMiddleware({
@@ -471,153 +685,1714 @@ describe('RequestLoggerMiddleware', () => {
         });
     });
 
-    describe('framework compatibility', () => {
-        it('should handle Express request format', (done) => {
-            const expressReq = {
-                method: 'POST',
-                originalUrl: '/api/data',
-                headers: { 'content-type': 'application/json' },
-                body: { data: 'test' },
-            } as unknown as Req;
-
+    describe('sampling', () => {
+        it('should drop both lines of a sampled-out request', (done) => {
             middleware = new RequestLoggerMiddleware({
+                sampleRate: 0,
                 logger: mockLogger as Logger,
             });
 
-            middleware.use(expressReq, mockRes, nextCallback);
+            middleware.use(mockReq, mockRes, nextCallback);
 
             setTimeout(() => {
-                expect(mockLogger.log).toHaveBeenCalled();
+                expect(mockLogger.log).not.toHaveBeenCalled();
+                expect(mockLogger.error).not.toHaveBeenCalled();
+                expect(nextCallback).toHaveBeenCalled();
                 done();
             }, 50);
         });
 
-        it('should handle Fastify request format with raw property', (done) => {
-            const fastifyReq = {
-                method: 'GET',
-                path: '/api/items',
-                headers: { 'content-type': 'application/json' },
-            } as unknown as Req;
-
+        it('should not describe a sampled-out request that is not kept', (done) => {
+            const sanitizeHeaders = jest.fn((headers) => headers);
+            const extract = jest.spyOn(
+                ClientMetadataExtractor.prototype,
+                'extract'
+            );
             middleware = new RequestLoggerMiddleware({
+                sampleRate: 0,
+                logRequestBody: true,
+                clientMetadata: true,
+                sanitizeHeaders,
                 logger: mockLogger as Logger,
             });
 
-            middleware.use(fastifyReq, mockRes, nextCallback);
+            middleware.use(mockReq, mockRes, nextCallback);
 
             setTimeout(() => {
-                expect(mockLogger.log).toHaveBeenCalled();
+                expect(sanitizeHeaders).not.toHaveBeenCalled();
+                expect(extract).not.toHaveBeenCalled();
+                expect(mockLogger.log).not.toHaveBeenCalled();
+                extract.mockRestore();
                 done();
             }, 50);
         });
 
-        it('should handle Fastify response format', (done) => {
-            const fastifyRes = {
-                statusCode: 200,
-                once: jest.fn((_event: string, callback: () => void) => {
-                    setTimeout(callback, 0);
-                }),
-                raw: {
-                    once: jest.fn((_event: string, callback: () => void) => {
-                        setTimeout(callback, 0);
-                    }),
-                },
-            } as unknown as Res;
-
+        it('should log both lines of a sampled-out error', (done) => {
+            mockRes.statusCode = 503;
             middleware = new RequestLoggerMiddleware({
+                sampleRate: 0,
                 logger: mockLogger as Logger,
             });
 
-            middleware.use(mockReq, fastifyRes, nextCallback);
+            middleware.use(mockReq, mockRes, nextCallback);
 
             setTimeout(() => {
-                expect(mockLogger.log).toHaveBeenCalled();
+                expect(mockLogger.log).toHaveBeenCalledTimes(1);
+                expect(
+                    (mockLogger.log as jest.Mock).mock.calls[0][0]
+                ).toContain('Incoming request');
+                expect(mockLogger.error).toHaveBeenCalledTimes(1);
                 done();
             }, 50);
         });
-    });
 
-    describe('integration tests', () => {
-        it('should log full request lifecycle', (done) => {
+        it('should not keep errors when alwaysLogErrors is disabled', (done) => {
+            mockRes.statusCode = 500;
             middleware = new RequestLoggerMiddleware({
-                headerFields: ['content-type'],
-                logRequestBody: true,
+                sampleRate: 0,
+                alwaysLogErrors: false,
                 logger: mockLogger as Logger,
             });
 
-            mockReq.body = { action: 'create' };
-            mockRes.statusCode = 201;
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            setTimeout(() => {
+                expect(mockLogger.log).not.toHaveBeenCalled();
+                expect(mockLogger.error).not.toHaveBeenCalled();
+                done();
+            }, 50);
+        });
+
+        it('should apply per-route rates', (done) => {
+            middleware = new RequestLoggerMiddleware({
+                sampleRate: 0,
+                routeSampleRates: [{ path: '/api/*', rate: 1 }],
+                logger: mockLogger as Logger,
+            });
 
             middleware.use(mockReq, mockRes, nextCallback);
 
             setTimeout(() => {
                 expect(mockLogger.log).toHaveBeenCalledTimes(2);
-                expect(nextCallback).toHaveBeenCalledTimes(1);
                 done();
             }, 50);
         });
 
-        it('should work with multiple middleware calls', (done) => {
+        it('should sample both lines together by request id', (done) => {
             middleware = new RequestLoggerMiddleware({
+                requestId: true,
+                sampleRate: 0.5,
+                alwaysLogErrors: false,
                 logger: mockLogger as Logger,
             });
+            const requests = Array.from({ length: 20 }, (_, i) => ({
+                ...mockReq,
+                headers: { 'x-request-id': `sampled-${i}` },
+            })) as unknown as Req[];
 
-            const req1 = {
-                method: 'GET',
-                path: '/api/users',
-                headers: mockReq.headers,
-                body: undefined,
-            } as unknown as Req;
-            const req2 = {
-                method: 'GET',
-                path: '/api/posts',
-                headers: mockReq.headers,
-                body: undefined,
-            } as unknown as Req;
+            for (const req of requests) {
+                middleware.use(req, mockRes, nextCallback);
+            }
 
-            middleware.use(req1, mockRes, nextCallback);
-            middleware.use(req2, mockRes, nextCallback);
+            setTimeout(() => {
+                const lines = (mockLogger.log as jest.Mock).mock.calls.map(
+                    ([message]) => String(message)
+                );
+                for (let i = 0; i < requests.length; i++) {
+                    const count = lines.filter((line) =>
+                        new RegExp(`requestId=sampled-${i}\\b`).test(line)
+                    ).length;
+                    expect([0, 2]).toContain(count);
+                }
+                done();
+            }, 50);
+        });
+    });
+
+    describe('slow requests', () => {
+        it('should log slow requests at warn level with slow=true', (done) => {
+            middleware = new RequestLoggerMiddleware({
+                slowRequestThresholdMs: 0,
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
 
             setTimeout(() => {
-                expect(nextCallback).toHaveBeenCalledTimes(2);
+                expect(mockLogger.log).toHaveBeenCalledTimes(1);
+                expect(mockLogger.warn).toHaveBeenCalledTimes(1);
+                expect(
+                    (mockLogger.warn as jest.Mock).mock.calls[0][0]
+                ).toContain('slow=true');
                 done();
             }, 50);
         });
 
-        it('should maintain separate state for concurrent requests', (done) => {
+        it('should keep error level for slow failed requests', (done) => {
+            mockRes.statusCode = 500;
             middleware = new RequestLoggerMiddleware({
+                slowRequestThresholdMs: 0,
                 logger: mockLogger as Logger,
             });
 
-            const res1 = {
-                statusCode: 200,
-                once: jest.fn((_, cb) => setTimeout(cb, 10)),
-            } as unknown as Res;
-            const res2 = {
-                statusCode: 404,
-                once: jest.fn((_, cb) => setTimeout(cb, 20)),
-            } as unknown as Res;
+            middleware.use(mockReq, mockRes, nextCallback);
 
-            const req1 = {
-                method: 'GET',
-                path: '/api/users',
-                headers: mockReq.headers,
-                body: undefined,
-            } as unknown as Req;
-            const req2 = {
-                method: 'GET',
-                path: '/api/notfound',
-                headers: mockReq.headers,
-                body: undefined,
-            } as unknown as Req;
+            setTimeout(() => {
+                expect(mockLogger.warn).not.toHaveBeenCalled();
+                expect(
+                    (mockLogger.error as jest.Mock).mock.calls[0][0]
+                ).toContain('slow=true');
+                done();
+            }, 50);
+        });
 
-            middleware.use(req1, res1, nextCallback);
-            middleware.use(req2, res2, nextCallback);
+        it('should not flag requests under the threshold', (done) => {
+            middleware = new RequestLoggerMiddleware({
+                slowRequestThresholdMs: 60000,
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
 
             setTimeout(() => {
-                expect(nextCallback).toHaveBeenCalledTimes(2);
+                expect(mockLogger.warn).not.toHaveBeenCalled();
+                expect(
+                    (mockLogger.log as jest.Mock).mock.calls[1][0]
+                ).not.toContain('slow=');
                 done();
             }, 50);
         });
+
+        it('should apply per-route thresholds', (done) => {
+            middleware = new RequestLoggerMiddleware({
+                slowRequestThresholdMs: 60000,
+                routeSlowRequestThresholds: [
+                    { method: 'GET', path: '/api/users', thresholdMs: 0 },
+                ],
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            setTimeout(() => {
+                expect(mockLogger.warn).toHaveBeenCalledTimes(1);
+                done();
+            }, 50);
+        });
+
+        it('should call onSlowRequest with the completed details', (done) => {
+            const onSlowRequest = jest.fn();
+            middleware = new RequestLoggerMiddleware({
+                slowRequestThresholdMs: 0,
+                onSlowRequest,
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            setTimeout(() => {
+                expect(onSlowRequest).toHaveBeenCalledWith(
+                    expect.objectContaining({
+                        method: 'GET',
+                        path: '/api/users',
+                        statusCode: 200,
+                        slow: true,
+                    })
+                );
+                done();
+            }, 50);
+        });
+
+        it('should log a failing onSlowRequest hook as an error', (done) => {
+            middleware = new RequestLoggerMiddleware({
+                slowRequestThresholdMs: 0,
+                onSlowRequest: () => {
+                    throw new Error('hook down');
+                },
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            setTimeout(() => {
+                expect(mockLogger.error).toHaveBeenCalledWith(
+                    'onSlowRequest hook failed: hook down'
+                );
+                done();
+            }, 50);
+        });
+
+        it('should keep slow requests that were sampled out', (done) => {
+            middleware = new RequestLoggerMiddleware({
+                sampleRate: 0,
+                alwaysLogErrors: false,
+                slowRequestThresholdMs: 0,
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            setTimeout(() => {
+                expect(mockLogger.log).toHaveBeenCalledTimes(1);
+                expect(mockLogger.warn).toHaveBeenCalledTimes(1);
+                done();
+            }, 50);
+        });
+
+        it('should add slow to structured records', (done) => {
+            middleware = new RequestLoggerMiddleware({
+                outputFormat: 'object',
+                slowRequestThresholdMs: 0,
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            setTimeout(() => {
+                expect((mockLogger.warn as jest.Mock).mock.calls[0][0]).toEqual(
+                    expect.objectContaining({
+                        event: 'request.completed',
+                        slow: true,
+                    })
+                );
+                done();
+            }, 50);
+        });
+    });
+
+    describe('log levels', () => {
+        it('should map statuses with levelForStatus', (done) => {
+            mockRes.statusCode = 404;
+            mockLogger.debug = jest.fn();
+            middleware = new RequestLoggerMiddleware({
+                levelForStatus: { '4xx': 'warn', '404': 'debug' },
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            setTimeout(() => {
+                expect(mockLogger.error).not.toHaveBeenCalled();
+                expect(mockLogger.debug).toHaveBeenCalledTimes(1);
+                done();
+            }, 50);
+        });
+
+        it('should apply route overrides', (done) => {
+            mockRes.statusCode = 401;
+            middleware = new RequestLoggerMiddleware({
+                routeLogLevels: [
+                    { path: '/api/users', level: { '4xx': 'warn' } },
+                ],
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            setTimeout(() => {
+                expect(mockLogger.error).not.toHaveBeenCalled();
+                expect(mockLogger.warn).toHaveBeenCalledTimes(1);
+                done();
+            }, 50);
+        });
+
+        it('should log the incoming line at incomingRequestLevel', (done) => {
+            mockLogger.verbose = jest.fn();
+            middleware = new RequestLoggerMiddleware({
+                incomingRequestLevel: 'verbose',
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            setTimeout(() => {
+                expect(
+                    (mockLogger.verbose as jest.Mock).mock.calls[0][0]
+                ).toContain('Incoming request');
+                expect(mockLogger.log).toHaveBeenCalledTimes(1);
+                done();
+            }, 50);
+        });
+
+        it('should fall back to log when the logger lacks the level', (done) => {
+            middleware = new RequestLoggerMiddleware({
+                incomingRequestLevel: 'debug',
+                levelForStatus: 'verbose',
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            setTimeout(() => {
+                expect(mockLogger.log).toHaveBeenCalledTimes(2);
+                done();
+            }, 50);
+        });
+
+        it('should report a throwing levelForStatus and use the default level', (done) => {
+            middleware = new RequestLoggerMiddleware({
+                levelForStatus: () => {
+                    throw new Error('boom');
+                },
+                logger: mockLogger as Logger,
+            });
+
+            expect(() =>
+                middleware.use(mockReq, mockRes, nextCallback)
+            ).not.toThrow();
+
+            setTimeout(() => {
+                expect(mockLogger.error).toHaveBeenCalledWith(
+                    'levelForStatus failed: boom'
+                );
+                expect(mockLogger.log).toHaveBeenCalledTimes(2);
+                done();
+            }, 50);
+        });
+    });
+
+    describe('aborted and in-flight requests', () => {
+        let emitterRes: EventEmitter & {
+            statusCode: number;
+            socket: { bytesWritten: number };
+            writableFinished: boolean;
+        };
+
+        beforeEach(() => {
+            emitterRes = Object.assign(new EventEmitter(), {
+                statusCode: 200,
+                socket: { bytesWritten: 100 },
+                writableFinished: false,
+            });
+        });
+
+        it('should log an aborted outcome when the client disconnects', () => {
+            middleware = new RequestLoggerMiddleware({
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, emitterRes as unknown as Res, nextCallback);
+            emitterRes.socket.bytesWritten = 612;
+            emitterRes.emit('close');
+
+            const message = (mockLogger.warn as jest.Mock).mock.calls[0][0];
+            expect(message).toContain('Request aborted: method=GET');
+            expect(message).toContain('bytesSent=512');
+            expect(message).toContain('reason="client closed connection"');
+        });
+
+        it('should log an aborted outcome on response errors', () => {
+            middleware = new RequestLoggerMiddleware({
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, emitterRes as unknown as Res, nextCallback);
+            emitterRes.emit('error', new Error('EPIPE'));
+            emitterRes.emit('close');
+
+            expect(mockLogger.warn).toHaveBeenCalledTimes(1);
+            expect((mockLogger.warn as jest.Mock).mock.calls[0][0]).toContain(
+                'reason="EPIPE"'
+            );
+        });
+
+        it('should log a single completed line when close follows finish', () => {
+            middleware = new RequestLoggerMiddleware({
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, emitterRes as unknown as Res, nextCallback);
+            emitterRes.writableFinished = true;
+            emitterRes.emit('finish');
+            emitterRes.emit('close');
+
+            expect(mockLogger.warn).not.toHaveBeenCalled();
+            expect(mockLogger.log).toHaveBeenCalledTimes(2);
+            expect((mockLogger.log as jest.Mock).mock.calls[1][0]).toContain(
+                'Request completed'
+            );
+        });
+
+        it('should log aborted requests even when sampled out', () => {
+            middleware = new RequestLoggerMiddleware({
+                sampleRate: 0,
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, emitterRes as unknown as Res, nextCallback);
+            emitterRes.emit('close');
+
+            expect(mockLogger.log).toHaveBeenCalledTimes(1);
+            expect(mockLogger.warn).toHaveBeenCalledTimes(1);
+        });
+
+        describe('in-flight timeout', () => {
+            beforeEach(() => {
+                jest.useFakeTimers();
+            });
+
+            afterEach(() => {
+                jest.useRealTimers();
+            });
+
+            it('should log requests still in flight after the timeout', () => {
+                middleware = new RequestLoggerMiddleware({
+                    inFlightTimeoutMs: 1000,
+                    logger: mockLogger as Logger,
+                });
+
+                middleware.use(
+                    mockReq,
+                    emitterRes as unknown as Res,
+                    nextCallback
+                );
+                jest.advanceTimersByTime(1000);
+
+                expect(
+                    (mockLogger.warn as jest.Mock).mock.calls[0][0]
+                ).toContain('Request still in flight: method=GET');
+
+                emitterRes.emit('finish');
+                expect(
+                    (mockLogger.log as jest.Mock).mock.calls[1][0]
+                ).toContain('Request completed');
+            });
+
+            it('should not log requests finished before the timeout', () => {
+                middleware = new RequestLoggerMiddleware({
+                    inFlightTimeoutMs: 1000,
+                    logger: mockLogger as Logger,
+                });
+
+                middleware.use(
+                    mockReq,
+                    emitterRes as unknown as Res,
+                    nextCallback
+                );
+                emitterRes.emit('finish');
+                jest.advanceTimersByTime(5000);
+
+                expect(mockLogger.warn).not.toHaveBeenCalled();
+            });
+
+            it('should keep both lines of a sampled-out request in flight', () => {
+                middleware = new RequestLoggerMiddleware({
+                    sampleRate: 0,
+                    alwaysLogErrors: false,
+                    inFlightTimeoutMs: 1000,
+                    logger: mockLogger as Logger,
+                });
+
+                middleware.use(
+                    mockReq,
+                    emitterRes as unknown as Res,
+                    nextCallback
+                );
+                jest.advanceTimersByTime(1000);
+                emitterRes.emit('finish');
+
+                expect(mockLogger.warn).toHaveBeenCalledTimes(1);
+                expect(mockLogger.log).toHaveBeenCalledTimes(2);
+            });
+        });
+    });
+
+    describe('exception details', () => {
+        it('should add the recorded exception to the completed line', (done) => {
+            mockRes.statusCode = 400;
+            middleware = new RequestLoggerMiddleware({
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
+            RequestExceptionRecorder.record(
+                mockReq,
+                new BadRequestException({ message: 'invalid', token: 'abc' })
+            );
+
+            setTimeout(() => {
+                expect(mockLogger.error).toHaveBeenCalledTimes(1);
+                const message = (mockLogger.error as jest.Mock).mock
+                    .calls[0][0];
+                expect(message).toContain('error.name=BadRequestException');
+                expect(message).toContain('error.message="invalid"');
+                expect(message).toContain('"token":"[REDACTED]"');
+                expect(message).not.toContain('error.stack=');
+                done();
+            }, 50);
+        });
+
+        it('should include the stack when logErrorStack is enabled', (done) => {
+            mockRes.statusCode = 500;
+            middleware = new RequestLoggerMiddleware({
+                logErrorStack: true,
+                outputFormat: 'object',
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
+            RequestExceptionRecorder.record(mockReq, new Error('db down'));
+
+            setTimeout(() => {
+                const record = (mockLogger.error as jest.Mock).mock.calls[0][0];
+                expect(record.error).toEqual({
+                    name: 'Error',
+                    message: 'db down',
+                    stack: expect.stringContaining('Error: db down'),
+                });
+                done();
+            }, 50);
+        });
+    });
+
+    describe('request id', () => {
+        it('should not assign a request id by default', (done) => {
+            middleware = new RequestLoggerMiddleware({
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            setTimeout(() => {
+                const logCall = (mockLogger.log as jest.Mock).mock.calls[0][0];
+                expect(logCall).not.toContain('requestId=');
+                expect(
+                    (mockReq as unknown as Record<string, unknown>).requestId
+                ).toBeUndefined();
+                done();
+            }, 50);
+        });
+
+        it('should reuse the incoming id, attach it and echo it', (done) => {
+            const setHeader = jest.fn();
+            const res = { ...mockRes, setHeader } as unknown as Res;
+            mockReq.headers['x-request-id'] = 'incoming-42';
+            middleware = new RequestLoggerMiddleware({
+                requestId: true,
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, res, nextCallback);
+
+            setTimeout(() => {
+                const logCalls = (mockLogger.log as jest.Mock).mock.calls;
+                expect(logCalls[0][0]).toContain('requestId=incoming-42');
+                expect(logCalls[1][0]).toContain('requestId=incoming-42');
+                expect(
+                    (mockReq as unknown as Record<string, unknown>).requestId
+                ).toBe('incoming-42');
+                expect(setHeader).toHaveBeenCalledWith(
+                    'x-request-id',
+                    'incoming-42'
+                );
+                done();
+            }, 50);
+        });
+
+        it('should use the same generated id on both lines', (done) => {
+            middleware = new RequestLoggerMiddleware({
+                requestId: true,
+                requestIdGenerator: () => 'generated-1',
+                requestIdResponseHeader: false,
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            setTimeout(() => {
+                const logCalls = (mockLogger.log as jest.Mock).mock.calls;
+                expect(logCalls[0][0]).toContain('requestId=generated-1');
+                expect(logCalls[1][0]).toContain('requestId=generated-1');
+                done();
+            }, 50);
+        });
+
+        it('should echo the id with reply.header on Fastify', () => {
+            const header = jest.fn();
+            const fastifyRes = {
+                statusCode: 200,
+                header,
+                raw: { once: jest.fn() },
+            } as unknown as Res;
+            middleware = new RequestLoggerMiddleware({
+                requestId: true,
+                requestIdGenerator: () => 'fastify-1',
+                requestIdResponseHeader: 'x-correlation-id',
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, fastifyRes, nextCallback);
+
+            expect(header).toHaveBeenCalledWith(
+                'x-correlation-id',
+                'fastify-1'
+            );
+        });
+    });
+
+    describe('request context', () => {
+        it('should run next inside a request context scope', () => {
+            let store: unknown;
+            middleware = new RequestLoggerMiddleware({
+                requestContext: true,
+                requestId: true,
+                requestIdGenerator: () => 'ctx-1',
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, () => {
+                store = RequestContext.get();
+            });
+
+            expect(store).toEqual({
+                requestId: 'ctx-1',
+                method: 'GET',
+                path: '/api/users',
+            });
+            expect(RequestContext.get()).toBeUndefined();
+        });
+
+        it('should not open a scope when requestContext is disabled', () => {
+            let store: unknown = 'unset';
+            middleware = new RequestLoggerMiddleware({
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, () => {
+                store = RequestContext.get();
+            });
+
+            expect(store).toBeUndefined();
+        });
+    });
+
+    describe('output format', () => {
+        it('should pass structured records to the logger in object mode', (done) => {
+            middleware = new RequestLoggerMiddleware({
+                outputFormat: 'object',
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            setTimeout(() => {
+                const logCalls = (mockLogger.log as jest.Mock).mock.calls;
+                expect(logCalls[0][0]).toMatchObject({
+                    event: 'request.incoming',
+                    method: 'GET',
+                    path: '/api/users',
+                });
+                expect(logCalls[1][0]).toMatchObject({
+                    event: 'request.completed',
+                    statusCode: 200,
+                });
+                done();
+            }, 50);
+        });
+
+        it('should log JSON lines in json mode', (done) => {
+            middleware = new RequestLoggerMiddleware({
+                outputFormat: 'json',
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            setTimeout(() => {
+                const logCalls = (mockLogger.log as jest.Mock).mock.calls;
+                expect(typeof logCalls[0][0]).toBe('string');
+                expect(JSON.parse(logCalls[1][0])).toMatchObject({
+                    event: 'request.completed',
+                    method: 'GET',
+                    path: '/api/users',
+                    statusCode: 200,
+                });
+                done();
+            }, 50);
+        });
+    });
+
+    describe('framework compatibility', () => {
+        it('should handle Express request format', (done) => {
+            const expressReq = {
+                method: 'POST',
+                originalUrl: '/api/data',
+                headers: { 'content-type': 'application/json' },
+                body: { data: 'test' },
+            } as unknown as Req;
+
+            middleware = new RequestLoggerMiddleware({
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(expressReq, mockRes, nextCallback);
+
+            setTimeout(() => {
+                expect(mockLogger.log).toHaveBeenCalled();
+                done();
+            }, 50);
+        });
+
+        it('should handle Fastify request format with raw property', (done) => {
+            const fastifyReq = {
+                method: 'GET',
+                path: '/api/items',
+                headers: { 'content-type': 'application/json' },
+            } as unknown as Req;
+
+            middleware = new RequestLoggerMiddleware({
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(fastifyReq, mockRes, nextCallback);
+
+            setTimeout(() => {
+                expect(mockLogger.log).toHaveBeenCalled();
+                done();
+            }, 50);
+        });
+
+        it('should handle Fastify response format', (done) => {
+            const fastifyRes = {
+                statusCode: 200,
+                once: jest.fn((_event: string, callback: () => void) => {
+                    setTimeout(callback, 0);
+                }),
+                raw: {
+                    once: jest.fn((_event: string, callback: () => void) => {
+                        setTimeout(callback, 0);
+                    }),
+                },
+            } as unknown as Res;
+
+            middleware = new RequestLoggerMiddleware({
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, fastifyRes, nextCallback);
+
+            setTimeout(() => {
+                expect(mockLogger.log).toHaveBeenCalled();
+                done();
+            }, 50);
+        });
+    });
+
+    describe('integration tests', () => {
+        it('should log full request lifecycle', (done) => {
+            middleware = new RequestLoggerMiddleware({
+                headerFields: ['content-type'],
+                logRequestBody: true,
+                logger: mockLogger as Logger,
+            });
+
+            mockReq.body = { action: 'create' };
+            mockRes.statusCode = 201;
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            setTimeout(() => {
+                expect(mockLogger.log).toHaveBeenCalledTimes(2);
+                expect(nextCallback).toHaveBeenCalledTimes(1);
+                done();
+            }, 50);
+        });
+
+        it('should work with multiple middleware calls', (done) => {
+            middleware = new RequestLoggerMiddleware({
+                logger: mockLogger as Logger,
+            });
+
+            const req1 = {
+                method: 'GET',
+                path: '/api/users',
+                headers: mockReq.headers,
+                body: undefined,
+            } as unknown as Req;
+            const req2 = {
+                method: 'GET',
+                path: '/api/posts',
+                headers: mockReq.headers,
+                body: undefined,
+            } as unknown as Req;
+
+            middleware.use(req1, mockRes, nextCallback);
+            middleware.use(req2, mockRes, nextCallback);
+
+            setTimeout(() => {
+                expect(nextCallback).toHaveBeenCalledTimes(2);
+                done();
+            }, 50);
+        });
+
+        it('should maintain separate state for concurrent requests', (done) => {
+            middleware = new RequestLoggerMiddleware({
+                logger: mockLogger as Logger,
+            });
+
+            const res1 = {
+                statusCode: 200,
+                once: jest.fn((_, cb) => setTimeout(cb, 10)),
+            } as unknown as Res;
+            const res2 = {
+                statusCode: 404,
+                once: jest.fn((_, cb) => setTimeout(cb, 20)),
+            } as unknown as Res;
+
+            const req1 = {
+                method: 'GET',
+                path: '/api/users',
+                headers: mockReq.headers,
+                body: undefined,
+            } as unknown as Req;
+            const req2 = {
+                method: 'GET',
+                path: '/api/notfound',
+                headers: mockReq.headers,
+                body: undefined,
+            } as unknown as Req;
+
+            middleware.use(req1, res1, nextCallback);
+            middleware.use(req2, res2, nextCallback);
+
+            setTimeout(() => {
+                expect(nextCallback).toHaveBeenCalledTimes(2);
+                done();
+            }, 50);
+        });
+    });
+
+    describe('route normalization', () => {
+        it('should not add a route by default', (done) => {
+            middleware = new RequestLoggerMiddleware({
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            setTimeout(() => {
+                const calls = (mockLogger.log as jest.Mock).mock.calls;
+                expect(calls[0][0]).not.toContain('route=');
+                expect(calls[1][0]).not.toContain('route=');
+                done();
+            }, 50);
+        });
+
+        it('should log a normalized route alongside the raw path', (done) => {
+            (mockReq as unknown as { originalUrl: string }).originalUrl =
+                '/api/users/42?expand=orders';
+            middleware = new RequestLoggerMiddleware({
+                normalizeRoutes: true,
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            setTimeout(() => {
+                const calls = (mockLogger.log as jest.Mock).mock.calls;
+                expect(calls[0][0]).toBe(
+                    'Incoming request: method=GET path=/api/users/42?expand=orders route=/api/users/:id'
+                );
+                expect(calls[1][0]).toContain(
+                    'path=/api/users/42?expand=orders route=/api/users/:id statusCode=200'
+                );
+                done();
+            }, 50);
+        });
+
+        it('should use the Express route template once routing ran', () => {
+            const emitterRes = Object.assign(new EventEmitter(), {
+                statusCode: 200,
+            });
+            const req = mockReq as unknown as Record<string, unknown>;
+            req.originalUrl = '/api/users/abc-42';
+            middleware = new RequestLoggerMiddleware({
+                normalizeRoutes: true,
+                outputFormat: 'object',
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, emitterRes as unknown as Res, () => {
+                req.baseUrl = '/api';
+                req.route = { path: '/users/:slug' };
+            });
+            emitterRes.emit('finish');
+
+            const calls = (mockLogger.log as jest.Mock).mock.calls;
+            expect(calls[0][0].route).toBe('/api/users/abc-42');
+            expect(calls[1][0].route).toBe('/api/users/:slug');
+            expect(calls[1][0].path).toBe('/api/users/abc-42');
+        });
+    });
+
+    describe('query string', () => {
+        beforeEach(() => {
+            (mockReq as unknown as { originalUrl: string }).originalUrl =
+                '/api/files?name=report&token=abc123&page=2';
+        });
+
+        it('should redact sensitive query parameters in the logged path', (done) => {
+            middleware = new RequestLoggerMiddleware({
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            setTimeout(() => {
+                const calls = (mockLogger.log as jest.Mock).mock.calls;
+                expect(calls[0][0]).toBe(
+                    'Incoming request: method=GET path=/api/files?name=report&token=[REDACTED]&page=2'
+                );
+                expect(calls[1][0]).toContain(
+                    'path=/api/files?name=report&token=[REDACTED]&page=2 '
+                );
+                expect(JSON.stringify(calls)).not.toContain('abc123');
+                done();
+            }, 50);
+        });
+
+        it('should log query parameters as a separate field', () => {
+            middleware = new RequestLoggerMiddleware({
+                logQueryParams: true,
+                sensitiveQueryKeys: ['name'],
+                queryRedactionReplacement: '***',
+                outputFormat: 'object',
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            expect(mockLogger.log).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    event: 'request.incoming',
+                    path: '/api/files?name=***&token=abc123&page=2',
+                    query: { name: '***', token: 'abc123', page: '2' },
+                })
+            );
+        });
+
+        it('should strip the query string with stripQueryString', (done) => {
+            middleware = new RequestLoggerMiddleware({
+                stripQueryString: true,
+                logQueryParams: true,
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            setTimeout(() => {
+                const calls = (mockLogger.log as jest.Mock).mock.calls;
+                expect(calls[0][0]).toBe(
+                    'Incoming request: method=GET path=/api/files query={"name":"report","token":"[REDACTED]","page":"2"}'
+                );
+                expect(calls[1][0]).toContain('path=/api/files statusCode=200');
+                done();
+            }, 50);
+        });
+
+        it('should still match ignore rules against the raw path', () => {
+            middleware = new RequestLoggerMiddleware({
+                stripQueryString: true,
+                ignorePaths: ['/api/files'],
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            expect(mockLogger.log).not.toHaveBeenCalled();
+            expect(nextCallback).toHaveBeenCalled();
+        });
+    });
+
+    describe('client metadata', () => {
+        beforeEach(() => {
+            Object.assign(mockReq, {
+                httpVersion: '1.1',
+                socket: { remoteAddress: '10.0.0.5' },
+            });
+            mockReq.headers['x-forwarded-for'] = '203.0.113.42';
+            mockReq.headers['user-agent'] =
+                'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+        });
+
+        it('should not log client metadata by default', () => {
+            middleware = new RequestLoggerMiddleware({
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            expect(mockLogger.log).toHaveBeenCalledWith(
+                'Incoming request: method=GET path=/api/users'
+            );
+        });
+
+        it('should log the client on the incoming line', () => {
+            middleware = new RequestLoggerMiddleware({
+                clientMetadata: true,
+                trustProxy: ['10.0.0.0/8'],
+                anonymizeIp: true,
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            expect(mockLogger.log).toHaveBeenCalledWith(
+                'Incoming request: method=GET path=/api/users client.ip=203.0.113.0 client.forwardedFor=203.0.113.0 client.httpVersion=1.1 client.protocol=http client.browser=Chrome/120.0.0.0 client.os=Windows/10.0 client.bot=false'
+            );
+        });
+
+        it('should log selected fields in structured records', () => {
+            middleware = new RequestLoggerMiddleware({
+                clientMetadata: ['ip', 'userAgent'],
+                outputFormat: 'object',
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            expect(mockLogger.log).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    event: 'request.incoming',
+                    client: {
+                        ip: '10.0.0.5',
+                        userAgent: {
+                            browser: 'Chrome',
+                            browserVersion: '120.0.0.0',
+                            os: 'Windows',
+                            osVersion: '10.0',
+                            bot: false,
+                        },
+                    },
+                })
+            );
+        });
+    });
+
+    describe('response headers', () => {
+        let emitterRes: EventEmitter & {
+            statusCode: number;
+            getHeaders: () => Record<string, unknown>;
+        };
+
+        beforeEach(() => {
+            emitterRes = Object.assign(new EventEmitter(), {
+                statusCode: 200,
+                getHeaders: () => ({
+                    'content-type': 'application/json',
+                    'content-length': 27,
+                    'set-cookie': ['sid=secret'],
+                    'x-ratelimit-remaining': '99',
+                }),
+            });
+        });
+
+        it('should log selected response headers on the completed line', () => {
+            middleware = new RequestLoggerMiddleware({
+                responseHeaderFields: [
+                    'content-type',
+                    'content-length',
+                    'set-cookie',
+                    'x-ratelimit-remaining',
+                ],
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, emitterRes as unknown as Res, nextCallback);
+            emitterRes.emit('finish');
+
+            const calls = (mockLogger.log as jest.Mock).mock.calls;
+            expect(calls[0][0]).not.toContain('content-length');
+            expect(calls[1][0]).toMatch(
+                /ms content-type=application\/json content-length=27 set-cookie=\[REDACTED\] x-ratelimit-remaining=99$/
+            );
+        });
+
+        it('should use the configured header masking strategy', () => {
+            middleware = new RequestLoggerMiddleware({
+                responseHeaderFields: ['set-cookie'],
+                headerMaskStrategy: 'partial',
+                headerPartialMask: 3,
+                outputFormat: 'object',
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, emitterRes as unknown as Res, nextCallback);
+            emitterRes.emit('finish');
+
+            const record = (mockLogger.log as jest.Mock).mock.calls[1][0];
+            expect(record.responseHeaders).toEqual({
+                'set-cookie': expect.not.stringContaining('secret'),
+            });
+        });
+
+        it('should not read response headers by default', () => {
+            const getHeaders = jest.spyOn(emitterRes, 'getHeaders');
+            middleware = new RequestLoggerMiddleware({
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, emitterRes as unknown as Res, nextCallback);
+            emitterRes.emit('finish');
+
+            expect(getHeaders).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('completion-only mode', () => {
+        beforeEach(() => {
+            mockReq.body = { name: 'John', password: 'secret' };
+        });
+
+        it('should log a single combined text line', (done) => {
+            middleware = new RequestLoggerMiddleware({
+                mode: 'completion-only',
+                headerFields: ['content-type', 'authorization'],
+                logRequestBody: true,
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
+            expect(mockLogger.log).not.toHaveBeenCalled();
+
+            setTimeout(() => {
+                expect(mockLogger.log).toHaveBeenCalledTimes(1);
+                expect((mockLogger.log as jest.Mock).mock.calls[0][0]).toMatch(
+                    /^Request completed: method=GET path=\/api\/users content-type=application\/json authorization=\[REDACTED\] statusCode=200 durationMs=[\d.]+ms requestBody=\{"name":"John","password":"\[REDACTED\]"\}$/
+                );
+                done();
+            }, 50);
+        });
+
+        it('should log a single combined structured record', (done) => {
+            middleware = new RequestLoggerMiddleware({
+                mode: 'completion-only',
+                outputFormat: 'object',
+                headerFields: ['content-type'],
+                logRequestBody: true,
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            setTimeout(() => {
+                expect(mockLogger.log).toHaveBeenCalledTimes(1);
+                expect(mockLogger.log).toHaveBeenCalledWith(
+                    expect.objectContaining({
+                        event: 'request.completed',
+                        statusCode: 200,
+                        headers: { 'content-type': 'application/json' },
+                        body: { name: 'John', password: '[REDACTED]' },
+                    })
+                );
+                done();
+            }, 50);
+        });
+
+        it('should log only the completed line of a sampled-out error', (done) => {
+            mockRes.statusCode = 503;
+            middleware = new RequestLoggerMiddleware({
+                mode: 'completion-only',
+                sampleRate: 0,
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            setTimeout(() => {
+                expect(mockLogger.log).not.toHaveBeenCalled();
+                expect(mockLogger.error).toHaveBeenCalledTimes(1);
+                done();
+            }, 50);
+        });
+
+        it('should log a single line for tracked executions', () => {
+            middleware = new RequestLoggerMiddleware({
+                mode: 'completion-only',
+                logRequestBody: true,
+                logger: mockLogger as Logger,
+            });
+
+            const complete = middleware.trackExecution({
+                method: 'RPC',
+                path: 'users.find',
+                headers: {},
+                body: { id: 1 },
+            });
+            expect(mockLogger.log).not.toHaveBeenCalled();
+            complete(200);
+
+            expect(mockLogger.log).toHaveBeenCalledTimes(1);
+            expect((mockLogger.log as jest.Mock).mock.calls[0][0]).toMatch(
+                /^Request completed: method=RPC path=users\.find statusCode=200 .* requestBody=\{"id":1\}$/
+            );
+        });
+    });
+
+    describe('body limits', () => {
+        it('should truncate request bodies longer than maxBodyLength', () => {
+            mockReq.body = { description: 'x'.repeat(100) };
+            middleware = new RequestLoggerMiddleware({
+                logRequestBody: true,
+                maxBodyLength: 20,
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            expect(mockLogger.log).toHaveBeenCalledWith(
+                'Incoming request: method=GET path=/api/users body="{\\"description\\":\\"xxxx…[truncated 98 bytes]"'
+            );
+        });
+
+        it('should log placeholders for binary bodies', () => {
+            middleware = new RequestLoggerMiddleware({
+                logRequestBody: true,
+                outputFormat: 'object',
+                logger: mockLogger as Logger,
+            });
+
+            mockReq.headers['content-type'] = 'application/octet-stream';
+            mockReq.body = Buffer.alloc(1024);
+            middleware.use(mockReq, mockRes, nextCallback);
+            mockReq.headers['content-type'] = 'image/png';
+            mockReq.body = {};
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            const calls = (mockLogger.log as jest.Mock).mock.calls;
+            expect(calls[0][0].body).toBe('[binary body: 1024 bytes]');
+            expect(calls[1][0].body).toBe('[binary body omitted]');
+        });
+
+        it('should serialize circular and BigInt bodies in JSON output', () => {
+            const body: Record<string, unknown> = { id: BigInt(1) };
+            body.self = body;
+            mockReq.body = body;
+            middleware = new RequestLoggerMiddleware({
+                logRequestBody: true,
+                outputFormat: 'json',
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            expect(
+                JSON.parse((mockLogger.log as jest.Mock).mock.calls[0][0]).body
+            ).toEqual({ id: '1', self: '[Circular]' });
+        });
+    });
+
+    describe('content-type aware bodies', () => {
+        beforeEach(() => {
+            middleware = new RequestLoggerMiddleware({
+                logRequestBody: true,
+                outputFormat: 'object',
+                excludeRequestBodyContentTypes: ['application/xml'],
+                logger: mockLogger as Logger,
+            });
+        });
+
+        const loggedBody = (): unknown =>
+            (mockLogger.log as jest.Mock).mock.calls[0][0].body;
+
+        it('should log redacted urlencoded fields', () => {
+            mockReq.headers['content-type'] =
+                'application/x-www-form-urlencoded';
+            mockReq.body = 'user=john&password=hunter2';
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            expect(loggedBody()).toEqual({
+                user: 'john',
+                password: '[REDACTED]',
+            });
+        });
+
+        it('should summarize multipart bodies with multer files', () => {
+            mockReq.headers['content-type'] = 'multipart/form-data; boundary=x';
+            mockReq.body = { title: 'secret title' };
+            Object.assign(mockReq, {
+                file: {
+                    fieldname: 'avatar',
+                    originalname: 'me.png',
+                    mimetype: 'image/png',
+                    size: 2048,
+                    buffer: Buffer.from('content'),
+                },
+            });
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            expect(loggedBody()).toEqual({
+                fields: ['title'],
+                files: [
+                    {
+                        field: 'avatar',
+                        filename: 'me.png',
+                        mimetype: 'image/png',
+                        size: 2048,
+                    },
+                ],
+            });
+        });
+
+        it('should truncate text bodies', () => {
+            mockReq.headers['content-type'] = 'text/plain';
+            mockReq.body = 'a'.repeat(5000);
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            expect(loggedBody()).toBe(
+                `${'a'.repeat(4096)}…[truncated 904 bytes]`
+            );
+        });
+
+        it('should omit excluded content types', () => {
+            mockReq.headers['content-type'] = 'application/xml';
+            mockReq.body = '<user password="x"/>';
+
+            middleware.use(mockReq, mockRes, nextCallback);
+
+            expect(loggedBody()).toBe('[application/xml body omitted]');
+        });
+    });
+
+    describe('payload sizes', () => {
+        let emitterRes: EventEmitter & {
+            statusCode: number;
+            write: (chunk: unknown) => boolean;
+            end: (chunk?: unknown) => void;
+        };
+
+        beforeEach(() => {
+            mockReq.headers['content-length'] = '42';
+            emitterRes = Object.assign(new EventEmitter(), {
+                statusCode: 200,
+                write: jest.fn(() => true),
+                end: jest.fn(),
+            });
+        });
+
+        it('should log request and response bytes on the completed line', () => {
+            middleware = new RequestLoggerMiddleware({
+                logPayloadSizes: true,
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, emitterRes as unknown as Res, nextCallback);
+            emitterRes.write('{"items":');
+            emitterRes.end('[]}');
+            emitterRes.emit('finish');
+
+            const calls = (mockLogger.log as jest.Mock).mock.calls;
+            expect(calls[0][0]).not.toContain('Bytes');
+            expect(calls[1][0]).toMatch(/ms requestBytes=42 responseBytes=12$/);
+        });
+
+        it('should include the sizes in structured and aborted records', () => {
+            middleware = new RequestLoggerMiddleware({
+                logPayloadSizes: true,
+                outputFormat: 'object',
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, emitterRes as unknown as Res, nextCallback);
+            emitterRes.write('partial');
+            emitterRes.emit('close');
+
+            expect(mockLogger.warn).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    event: 'request.aborted',
+                    requestBytes: 42,
+                    responseBytes: 7,
+                })
+            );
+        });
+
+        it('should not measure payloads by default', () => {
+            const write = emitterRes.write;
+            middleware = new RequestLoggerMiddleware({
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, emitterRes as unknown as Res, nextCallback);
+
+            expect(emitterRes.write).toBe(write);
+        });
+    });
+
+    describe('transports', () => {
+        let emitterRes: EventEmitter & { statusCode: number };
+
+        beforeEach(() => {
+            emitterRes = Object.assign(new EventEmitter(), { statusCode: 200 });
+        });
+
+        it('should fan out to transports with their own level and format', () => {
+            const all = new MemoryTransport();
+            const errors = new MemoryTransport({
+                level: 'error',
+                format: 'object',
+            });
+            middleware = new RequestLoggerMiddleware({
+                transports: [all, errors],
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, emitterRes as unknown as Res, nextCallback);
+            emitterRes.statusCode = 500;
+            emitterRes.emit('finish');
+
+            expect(all.entries.map((entry) => entry.event)).toEqual([
+                'request.incoming',
+                'request.completed',
+            ]);
+            expect(all.entries[1].level).toBe('error');
+            expect(all.entries[1].message).toMatch(
+                /^Request completed: method=GET path=\/api\/users statusCode=500/
+            );
+            expect(errors.entries).toHaveLength(1);
+            expect(errors.entries[0].message).toEqual(
+                expect.objectContaining({
+                    event: 'request.completed',
+                    statusCode: 500,
+                })
+            );
+            expect(mockLogger.log).not.toHaveBeenCalled();
+            expect(mockLogger.error).not.toHaveBeenCalled();
+        });
+
+        it('should flush then close the transports on shutdown', async () => {
+            const calls: string[] = [];
+            middleware = new RequestLoggerMiddleware({
+                transports: [
+                    {
+                        write: jest.fn(),
+                        flush: () => {
+                            calls.push('flush');
+                        },
+                        close: () => {
+                            calls.push('close');
+                        },
+                    },
+                ],
+                logger: mockLogger as Logger,
+            });
+
+            await middleware.onApplicationShutdown();
+
+            expect(calls).toEqual(['flush', 'close']);
+        });
+
+        it('should still close the transports when a flush fails', async () => {
+            const close = jest.fn();
+            middleware = new RequestLoggerMiddleware({
+                transports: [
+                    {
+                        write: jest.fn(),
+                        flush: () => Promise.reject(new Error('disk full')),
+                        close,
+                    },
+                ],
+                logger: mockLogger as Logger,
+            });
+
+            await expect(
+                middleware.onApplicationShutdown()
+            ).resolves.toBeUndefined();
+
+            expect(close).toHaveBeenCalledTimes(1);
+            expect(mockLogger.error).toHaveBeenCalledWith(
+                'Log transport failed: disk full'
+            );
+        });
+
+        it('should pass format functions the unformatted line', () => {
+            const written: LogTransportEntry[] = [];
+            middleware = new RequestLoggerMiddleware({
+                transports: [
+                    {
+                        format: ({ event, details }) =>
+                            `${event} ${details.method} ${details.path}`,
+                        write: (entry) => {
+                            written.push(entry);
+                        },
+                    },
+                ],
+            });
+
+            middleware.use(mockReq, emitterRes as unknown as Res, nextCallback);
+
+            expect(written[0]).toEqual(
+                expect.objectContaining({
+                    level: 'log',
+                    message: 'request.incoming GET /api/users',
+                })
+            );
+        });
+
+        it('should report failing transports without affecting the others', async () => {
+            const memory = new MemoryTransport();
+            middleware = new RequestLoggerMiddleware({
+                transports: [
+                    {
+                        write: () => {
+                            throw new Error('disk full');
+                        },
+                    },
+                    { write: () => Promise.reject(new Error('queue down')) },
+                    memory,
+                ],
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, emitterRes as unknown as Res, nextCallback);
+            await Promise.resolve();
+
+            expect(memory.entries).toHaveLength(1);
+            expect(mockLogger.error).toHaveBeenCalledWith(
+                'Log transport failed: disk full'
+            );
+            expect(mockLogger.error).toHaveBeenCalledWith(
+                'Log transport failed: queue down'
+            );
+            expect(nextCallback).toHaveBeenCalled();
+        });
+
+        it('should keep the Nest logger through LoggerServiceTransport', () => {
+            const memory = new MemoryTransport({ format: 'json' });
+            middleware = new RequestLoggerMiddleware({
+                transports: [
+                    new LoggerServiceTransport(mockLogger as Logger),
+                    memory,
+                ],
+            });
+
+            middleware.use(mockReq, emitterRes as unknown as Res, nextCallback);
+
+            expect(mockLogger.log).toHaveBeenCalledWith(
+                expect.stringContaining('Incoming request')
+            );
+            expect(
+                JSON.parse(memory.entries[0].message as string)
+            ).toMatchObject({ event: 'request.incoming', method: 'GET' });
+        });
+
+        it('should ignore custom message formatters for named formats', () => {
+            const memory = new MemoryTransport({ format: 'text' });
+            const custom = new MemoryTransport();
+            middleware = new RequestLoggerMiddleware({
+                transports: [memory, custom],
+                incomingRequestMessage: () => 'custom incoming',
+            });
+
+            middleware.use(mockReq, emitterRes as unknown as Res, nextCallback);
+
+            expect(memory.entries[0].message).toMatch(/^Incoming request:/);
+            expect(custom.entries[0].message).toBe('custom incoming');
+        });
+    });
+
+    describe('buffered logging', () => {
+        let emitterRes: EventEmitter & { statusCode: number };
+
+        beforeEach(() => {
+            emitterRes = Object.assign(new EventEmitter(), { statusCode: 200 });
+        });
+
+        it('should write buffered lines on shutdown with their original time', async () => {
+            jest.useFakeTimers({ now: Date.UTC(2025, 0, 1, 12) });
+            try {
+                const memory = new MemoryTransport({ format: 'object' });
+                const flush = jest.fn();
+                middleware = new RequestLoggerMiddleware({
+                    bufferLogs: { flushIntervalMs: 60000 },
+                    transports: [memory, { write: jest.fn(), flush }],
+                });
+
+                middleware.use(
+                    mockReq,
+                    emitterRes as unknown as Res,
+                    nextCallback
+                );
+                emitterRes.emit('finish');
+                jest.setSystemTime(Date.UTC(2025, 0, 1, 13));
+
+                expect(memory.entries).toHaveLength(0);
+
+                await middleware.onApplicationShutdown();
+
+                expect(memory.entries.map((entry) => entry.message)).toEqual([
+                    expect.objectContaining({
+                        event: 'request.incoming',
+                        timestamp: '2025-01-01T12:00:00.000Z',
+                    }),
+                    expect.objectContaining({
+                        event: 'request.completed',
+                        timestamp: '2025-01-01T12:00:00.000Z',
+                    }),
+                ]);
+                expect(flush).toHaveBeenCalledTimes(1);
+            } finally {
+                jest.useRealTimers();
+            }
+        });
+
+        it('should write through the logger on the flush interval', async () => {
+            jest.useFakeTimers();
+            try {
+                middleware = new RequestLoggerMiddleware({
+                    bufferLogs: { flushIntervalMs: 100 },
+                    logger: mockLogger as Logger,
+                });
+
+                middleware.use(
+                    mockReq,
+                    emitterRes as unknown as Res,
+                    nextCallback
+                );
+                expect(mockLogger.log).not.toHaveBeenCalled();
+                expect(nextCallback).toHaveBeenCalled();
+
+                jest.advanceTimersByTime(100);
+
+                expect(mockLogger.log).toHaveBeenCalledWith(
+                    expect.stringContaining('Incoming request')
+                );
+                await middleware.onApplicationShutdown();
+            } finally {
+                jest.useRealTimers();
+            }
+        });
+
+        it('should count and report dropped lines', async () => {
+            middleware = new RequestLoggerMiddleware({
+                bufferLogs: { maxQueueSize: 1, overflow: 'drop-new' },
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, emitterRes as unknown as Res, nextCallback);
+            middleware.use(mockReq, emitterRes as unknown as Res, nextCallback);
+
+            expect(middleware.droppedLogCount).toBe(1);
+
+            await middleware.onApplicationShutdown();
+
+            expect(mockLogger.log).toHaveBeenCalledTimes(1);
+            expect(mockLogger.warn).toHaveBeenCalledWith(
+                'Request log buffer full: dropped 1 log lines'
+            );
+        });
+
+        it('should not buffer by default', () => {
+            middleware = new RequestLoggerMiddleware({
+                logger: mockLogger as Logger,
+            });
+
+            middleware.use(mockReq, emitterRes as unknown as Res, nextCallback);
+
+            expect(mockLogger.log).toHaveBeenCalledTimes(1);
+            expect(middleware.droppedLogCount).toBe(0);
+        });
     });
 });
@@ -0,0 +1,190 @@
+import { Injectable, MiddlewareConsumer, Provider } from '@nestjs/common';
+import {
+    REQUEST_LOGGER_MODULE_CONFIG,
+    REQUEST_LOGGER_OPTIONS,
+    RequestLoggerMiddleware,
+    RequestLoggerModule,
+    RequestLoggerOptionsFactory,
+} from '../src';
+
+describe('RequestLoggerModule', () => {
+    const findProvider = (
+        providers: Provider[] | undefined,
+        token: unknown
+    ): Record<string, unknown> | undefined =>
+        (providers ?? []).find(
+            (provider) =>
+                typeof provider === 'object' &&
+                (provider as { provide: unknown }).provide === token
+        ) as Record<string, unknown> | undefined;
+
+    @Injectable()
+    class LoggerConfigService implements RequestLoggerOptionsFactory {
+        createRequestLoggerOptions() {
+            return { ignorePaths: ['/health'] };
+        }
+    }
+
+    describe('forRoot', () => {
+        it('should register options and middleware providers', () => {
+            const dynamicModule = RequestLoggerModule.forRoot({
+                ignorePaths: ['/health'],
+            });
+
+            expect(dynamicModule.module).toBe(RequestLoggerModule);
+            expect(
+                findProvider(dynamicModule.providers, REQUEST_LOGGER_OPTIONS)
+                    ?.useValue
+            ).toEqual({ ignorePaths: ['/health'] });
+            expect(dynamicModule.providers).toContain(RequestLoggerMiddleware);
+            expect(dynamicModule.exports).toContain(REQUEST_LOGGER_OPTIONS);
+        });
+
+        it('should keep route config out of the logger options', () => {
+            const dynamicModule = RequestLoggerModule.forRoot({
+                logRequestBody: true,
+                forRoutes: ['api'],
+                exclude: ['health'],
+                isGlobal: true,
+            });
+
+            expect(
+                findProvider(dynamicModule.providers, REQUEST_LOGGER_OPTIONS)
+                    ?.useValue
+            ).toEqual({ logRequestBody: true });
+            expect(
+                findProvider(
+                    dynamicModule.providers,
+                    REQUEST_LOGGER_MODULE_CONFIG
+                )?.useValue
+            ).toEqual({ forRoutes: ['api'], exclude: ['health'] });
+        });
+
+        it('should honor the isGlobal flag', () => {
+            expect(RequestLoggerModule.forRoot().global).toBe(false);
+            expect(RequestLoggerModule.forRoot({ isGlobal: true }).global).toBe(
+                true
+            );
+        });
+    });
+
+    describe('forRootAsync', () => {
+        it('should support useFactory with inject and imports', async () => {
+            class ConfigModule {}
+            const dynamicModule = RequestLoggerModule.forRootAsync({
+                imports: [ConfigModule],
+                useFactory: (flag: boolean) => ({ logRequestBody: flag }),
+                inject: ['FLAG'],
+            });
+
+            const provider = findProvider(
+                dynamicModule.providers,
+                REQUEST_LOGGER_OPTIONS
+            );
+            expect(dynamicModule.imports).toEqual([ConfigModule]);
+            expect(provider?.inject).toEqual(['FLAG']);
+            expect(
+                await (provider?.useFactory as (flag: boolean) => unknown)(true)
+            ).toEqual({ logRequestBody: true });
+        });
+
+        it('should support useClass', async () => {
+            const dynamicModule = RequestLoggerModule.forRootAsync({
+                useClass: LoggerConfigService,
+            });
+
+            const provider = findProvider(
+                dynamicModule.providers,
+                REQUEST_LOGGER_OPTIONS
+            );
+            expect(provider?.inject).toEqual([LoggerConfigService]);
+            expect(
+                findProvider(dynamicModule.providers, LoggerConfigService)
+            ).toBeDefined();
+            expect(
+                await (
+                    provider?.useFactory as (
+                        factory: RequestLoggerOptionsFactory
+                    ) => unknown
+                )(new LoggerConfigService())
+            ).toEqual({ ignorePaths: ['/health'] });
+        });
+
+        it('should support useExisting without registering the class', () => {
+            const dynamicModule = RequestLoggerModule.forRootAsync({
+                useExisting: LoggerConfigService,
+            });
+
+            expect(
+                findProvider(dynamicModule.providers, REQUEST_LOGGER_OPTIONS)
+                    ?.inject
+            ).toEqual([LoggerConfigService]);
+            expect(
+                findProvider(dynamicModule.providers, LoggerConfigService)
+            ).toBeUndefined();
+        });
+
+        it('should throw when no options source is given', () => {
+            expect(() => RequestLoggerModule.forRootAsync({})).toThrow(
+                'useFactory, useClass or useExisting'
+            );
+        });
+    });
+
+    describe('configure', () => {
+        let proxy: { exclude: jest.Mock; forRoutes: jest.Mock };
+        let consumer: MiddlewareConsumer;
+        let middleware: RequestLoggerMiddleware;
+
+        beforeEach(() => {
+            proxy = {
+                exclude: jest.fn(),
+                forRoutes: jest.fn(),
+            };
+            proxy.exclude.mockReturnValue(proxy);
+            consumer = {
+                apply: jest.fn().mockReturnValue(proxy),
+            } as unknown as MiddlewareConsumer;
+            middleware = new RequestLoggerMiddleware();
+        });
+
+        it('should apply the provider instance to all routes by default', () => {
+            const use = jest.spyOn(middleware, 'use');
+            new RequestLoggerModule({}, middleware).configure(consumer);
+
+            const [[applied]] = (consumer.apply as jest.Mock).mock.calls;
+            const next = jest.fn();
+            applied({ method: 'GET', url: '/', headers: {} }, {}, next);
+
+            expect(use).toHaveBeenCalledWith(
+                expect.objectContaining({ method: 'GET' }),
+                {},
+                next
+            );
+            expect(proxy.exclude).not.toHaveBeenCalled();
+            expect(proxy.forRoutes).toHaveBeenCalledWith('*');
+        });
+
+        it('should apply configured routes and exclusions', () => {
+            new RequestLoggerModule(
+                {
+                    forRoutes: ['api', 'admin'],
+                    exclude: ['health'],
+                },
+                middleware
+            ).configure(consumer);
+
+            expect(proxy.exclude).toHaveBeenCalledWith('health');
+            expect(proxy.forRoutes).toHaveBeenCalledWith('api', 'admin');
+        });
+
+        it('should not apply the middleware when applyMiddleware is false', () => {
+            new RequestLoggerModule(
+                { applyMiddleware: false },
+                middleware
+            ).configure(consumer);
+
+            expect(consumer.apply).not.toHaveBeenCalled();
+        });
+    });
+});
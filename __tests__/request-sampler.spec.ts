@@ -0,0 +1,119 @@
+import { RequestSampler } from '../src';
+
+describe('RequestSampler', () => {
+    const ids = Array.from({ length: 2000 }, (_, i) => `request-${i}`);
+
+    describe('rates', () => {
+        it('should sample everything by default', () => {
+            const sampler = new RequestSampler();
+
+            expect(sampler.isSampled('/api', 'GET', 'id')).toBe(true);
+            expect(sampler.rateFor('/api')).toBe(1);
+        });
+
+        it('should sample nothing with a zero rate', () => {
+            const sampler = new RequestSampler({ rate: 0 });
+
+            expect(ids.some((id) => sampler.isSampled('/api', 'GET', id))).toBe(
+                false
+            );
+        });
+
+        it('should sample approximately the configured rate', () => {
+            const sampler = new RequestSampler({ rate: 0.25 });
+
+            const kept = ids.filter((id) =>
+                sampler.isSampled('/api', 'GET', id)
+            ).length;
+
+            expect(kept / ids.length).toBeGreaterThan(0.2);
+            expect(kept / ids.length).toBeLessThan(0.3);
+        });
+
+        it('should clamp out of range rates', () => {
+            expect(new RequestSampler({ rate: 5 }).rateFor('/')).toBe(1);
+            expect(new RequestSampler({ rate: -1 }).rateFor('/')).toBe(0);
+        });
+
+        it('should use the first matching route rate', () => {
+            const sampler = new RequestSampler({
+                rate: 0.5,
+                routes: [
+                    { method: 'GET', path: '/api/search', rate: 0 },
+                    { path: '/api/*', rate: 1 },
+                ],
+            });
+
+            expect(sampler.rateFor('/api/search', 'GET')).toBe(0);
+            expect(sampler.rateFor('/api/search', 'POST')).toBe(1);
+            expect(sampler.rateFor('/api/users?page=2', 'GET')).toBe(1);
+            expect(sampler.rateFor('/health', 'GET')).toBe(0.5);
+        });
+    });
+
+    describe('determinism', () => {
+        it('should make the same decision for the same request id', () => {
+            const first = new RequestSampler({ rate: 0.5 });
+            const second = new RequestSampler({ rate: 0.5 });
+
+            for (const id of ids.slice(0, 100)) {
+                const decision = first.isSampled('/api', 'GET', id);
+                expect(first.isSampled('/api', 'GET', id)).toBe(decision);
+                expect(second.isSampled('/other', 'POST', id)).toBe(decision);
+            }
+        });
+
+        it('should keep ids sampled at a lower rate when the rate increases', () => {
+            const low = new RequestSampler({ rate: 0.1 });
+            const high = new RequestSampler({ rate: 0.5 });
+
+            for (const id of ids) {
+                if (low.isSampled('/api', 'GET', id)) {
+                    expect(high.isSampled('/api', 'GET', id)).toBe(true);
+                }
+            }
+        });
+    });
+
+    describe('overrides', () => {
+        it('should always log errors by default', () => {
+            const sampler = new RequestSampler({ rate: 0 });
+
+            expect(sampler.hasOverrides).toBe(true);
+            expect(sampler.shouldAlwaysLog(500, 1)).toBe(true);
+            expect(sampler.shouldAlwaysLog(404, 1)).toBe(true);
+            expect(sampler.shouldAlwaysLog(200, 1)).toBe(false);
+        });
+
+        it('should treat aborted requests as errors', () => {
+            expect(new RequestSampler().shouldAlwaysLog(200, 1, true)).toBe(
+                true
+            );
+            expect(
+                new RequestSampler({ alwaysLogErrors: false }).shouldAlwaysLog(
+                    200,
+                    1,
+                    true
+                )
+            ).toBe(false);
+        });
+
+        it('should always log slow requests when configured', () => {
+            const sampler = new RequestSampler({
+                rate: 0,
+                alwaysLogErrors: false,
+                alwaysLogSlowerThanMs: 500,
+            });
+
+            expect(sampler.shouldAlwaysLog(500, 10)).toBe(false);
+            expect(sampler.shouldAlwaysLog(200, 500)).toBe(true);
+            expect(sampler.shouldAlwaysLog(200, 499)).toBe(false);
+        });
+
+        it('should report no overrides when both are disabled', () => {
+            const sampler = new RequestSampler({ alwaysLogErrors: false });
+
+            expect(sampler.hasOverrides).toBe(false);
+        });
+    });
+});
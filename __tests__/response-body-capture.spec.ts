@@ -0,0 +1,271 @@
+import { Readable } from 'stream';
+import { BodySanitizer, Res, ResponseBodyCapture } from '../src';
+
+describe('ResponseBodyCapture', () => {
+    const createExpressRes = (contentType = 'application/json') => {
+        const res = {
+            statusCode: 200,
+            write: jest.fn().mockReturnValue(true),
+            end: jest.fn(),
+            getHeader: jest.fn((name: string) =>
+                name === 'content-type' ? contentType : undefined
+            ),
+        };
+        return res;
+    };
+
+    const createFastifyReply = (contentType = 'application/json') => {
+        const reply = {
+            statusCode: 200,
+            raw: {},
+            send: jest.fn(),
+            getHeader: jest.fn((name: string) =>
+                name === 'content-type' ? contentType : undefined
+            ),
+        };
+        return reply;
+    };
+
+    describe('Express responses', () => {
+        it('should capture a JSON payload written through end', () => {
+            const res = createExpressRes('application/json; charset=utf-8');
+            const readBody = new ResponseBodyCapture().attach(
+                res as unknown as Res
+            );
+
+            (res as unknown as { end: (c: string) => void }).end(
+                '{"id":1,"name":"John"}'
+            );
+
+            expect(readBody()).toEqual({ id: 1, name: 'John' });
+        });
+
+        it('should concatenate chunks written through write and end', () => {
+            const res = createExpressRes('text/plain');
+            const readBody = new ResponseBodyCapture().attach(
+                res as unknown as Res
+            );
+            const writable = res as unknown as {
+                write: (c: unknown) => void;
+                end: (c?: unknown) => void;
+            };
+
+            writable.write('hello ');
+            writable.write(Buffer.from('wor'));
+            writable.end('ld');
+
+            expect(readBody()).toBe('hello world');
+        });
+
+        it('should still call the original write and end', () => {
+            const res = createExpressRes();
+            const { write, end } = res;
+            new ResponseBodyCapture().attach(res as unknown as Res);
+
+            (res as unknown as { write: (c: string) => void }).write('{}');
+            (res as unknown as { end: () => void }).end();
+
+            expect(write).toHaveBeenCalledWith('{}');
+            expect(end).toHaveBeenCalled();
+        });
+
+        it('should ignore a callback passed as first argument to end', () => {
+            const res = createExpressRes('text/plain');
+            const readBody = new ResponseBodyCapture().attach(
+                res as unknown as Res
+            );
+
+            (res as unknown as { end: (cb: () => void) => void }).end(
+                () => undefined
+            );
+
+            expect(readBody()).toBeUndefined();
+        });
+
+        it('should truncate payloads over the byte limit', () => {
+            const res = createExpressRes('application/json');
+            const readBody = new ResponseBodyCapture({
+                maxBytes: 5,
+                truncationMarker: '<cut>',
+            }).attach(res as unknown as Res);
+
+            (res as unknown as { end: (c: string) => void }).end(
+                '{"id":12345}'
+            );
+
+            expect(readBody()).toBe('{"id"<cut>');
+        });
+
+        it('should redact JSON payloads before truncating them', () => {
+            const res = createExpressRes('application/json');
+            const readBody = new ResponseBodyCapture({
+                maxBytes: 40,
+                truncationMarker: '<cut>',
+                sanitize: (body) => ({
+                    ...(body as object),
+                    password: '[REDACTED]',
+                }),
+            }).attach(res as unknown as Res);
+
+            (res as unknown as { end: (c: string) => void }).end(
+                JSON.stringify({
+                    user: 'a',
+                    password: 'hunter2hunter2',
+                    items: ['x'.repeat(100)],
+                })
+            );
+
+            expect(readBody()).toBe(
+                '{"user":"a","password":"[REDACTED]","ite<cut>'
+            );
+        });
+
+        it('should never log a partial JSON payload', () => {
+            const res = createExpressRes('application/json');
+            const readBody = new ResponseBodyCapture({ maxBytes: 5 }).attach(
+                res as unknown as Res
+            );
+            const writable = res as unknown as {
+                write: (c: string) => void;
+                end: () => void;
+            };
+
+            writable.write(`{"password":"${'x'.repeat(1024 * 1024)}"}`);
+            writable.end();
+
+            expect(readBody()).toBe('[JSON body: 1048591 bytes]');
+        });
+
+        it('should cut text payloads on a character boundary', () => {
+            const res = createExpressRes('text/plain');
+            const readBody = new ResponseBodyCapture({
+                maxBytes: 4,
+                truncationMarker: '<cut>',
+            }).attach(res as unknown as Res);
+
+            (res as unknown as { end: (c: string) => void }).end('abc€def');
+
+            expect(readBody()).toBe('abc<cut>');
+        });
+
+        it('should skip content types outside the allowlist', () => {
+            const res = createExpressRes('image/png');
+            const readBody = new ResponseBodyCapture().attach(
+                res as unknown as Res
+            );
+
+            (res as unknown as { end: (c: Buffer) => void }).end(
+                Buffer.from([0x89, 0x50, 0x4e, 0x47])
+            );
+
+            expect(readBody()).toBeUndefined();
+        });
+
+        it('should support a custom content type allowlist', () => {
+            const res = createExpressRes('application/xml');
+            const readBody = new ResponseBodyCapture({
+                contentTypes: ['application/xml'],
+            }).attach(res as unknown as Res);
+
+            (res as unknown as { end: (c: string) => void }).end('<a/>');
+
+            expect(readBody()).toBe('<a/>');
+        });
+    });
+
+    describe('Fastify replies', () => {
+        it('should capture objects passed to reply.send', () => {
+            const reply = createFastifyReply();
+            const send = reply.send;
+            const readBody = new ResponseBodyCapture().attach(
+                reply as unknown as Res
+            );
+
+            (reply as unknown as { send: (p: unknown) => void }).send({
+                ok: true,
+            });
+
+            expect(send).toHaveBeenCalledWith({ ok: true });
+            expect(readBody()).toEqual({ ok: true });
+        });
+
+        it('should keep only the last payload sent', () => {
+            const reply = createFastifyReply('text/plain');
+            const readBody = new ResponseBodyCapture().attach(
+                reply as unknown as Res
+            );
+            const sendable = reply as unknown as { send: (p: unknown) => void };
+
+            sendable.send('first');
+            sendable.send('second');
+
+            expect(readBody()).toBe('second');
+        });
+
+        it('should not serialize payloads inside reply.send', () => {
+            const reply = createFastifyReply();
+            const send = reply.send;
+            const readBody = new ResponseBodyCapture().attach(
+                reply as unknown as Res
+            );
+            const payload: Record<string, unknown> = { id: BigInt(1) };
+            payload.self = payload;
+
+            expect(() =>
+                (reply as unknown as { send: (p: unknown) => void }).send(
+                    payload
+                )
+            ).not.toThrow();
+            expect(send).toHaveBeenCalledWith(payload);
+            expect(readBody()).toEqual({ id: '1', self: '[Circular]' });
+        });
+
+        it('should redact class instances passed to reply.send', () => {
+            class User {
+                constructor(
+                    readonly name: string,
+                    readonly password: string
+                ) {}
+            }
+            const reply = createFastifyReply();
+            const readBody = new ResponseBodyCapture({
+                sanitize: (body) => new BodySanitizer().sanitize(body),
+            }).attach(reply as unknown as Res);
+
+            (reply as unknown as { send: (p: unknown) => void }).send({
+                user: new User('bob', 'hunter2'),
+            });
+
+            expect(readBody()).toEqual({
+                user: { name: 'bob', password: '[REDACTED]' },
+            });
+        });
+
+        it('should truncate large objects once serialized', () => {
+            const reply = createFastifyReply();
+            const readBody = new ResponseBodyCapture({
+                maxBytes: 8,
+                truncationMarker: '<cut>',
+            }).attach(reply as unknown as Res);
+            const payload: Record<string, unknown> = { id: BigInt(1) };
+            payload.self = payload;
+
+            (reply as unknown as { send: (p: unknown) => void }).send(payload);
+
+            expect(readBody()).toBe('{"id":"1<cut>');
+        });
+
+        it('should skip streamed payloads', () => {
+            const reply = createFastifyReply('text/plain');
+            const readBody = new ResponseBodyCapture().attach(
+                reply as unknown as Res
+            );
+
+            (reply as unknown as { send: (p: unknown) => void }).send(
+                Readable.from(['data'])
+            );
+
+            expect(readBody()).toBeUndefined();
+        });
+    });
+});
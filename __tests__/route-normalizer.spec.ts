@@ -0,0 +1,69 @@
+import { Req, RouteNormalizer } from '../src';
+
+describe('RouteNormalizer', () => {
+    const normalizer = new RouteNormalizer();
+
+    it('should replace numeric IDs, UUIDs and hashes', () => {
+        expect(normalizer.normalize('/users/42/orders/7')).toBe(
+            '/users/:id/orders/:id'
+        );
+        expect(
+            normalizer.normalize('/files/3F2B6C1E-8D4A-4F0E-9A55-1C2D3E4F5A6B')
+        ).toBe('/files/:uuid');
+        expect(normalizer.normalize('/posts/507f1f77bcf86cd799439011')).toBe(
+            '/posts/:hash'
+        );
+    });
+
+    it('should keep static segments and drop the query string', () => {
+        expect(normalizer.normalize('/api/v2/users/?page=2&id=3')).toBe(
+            '/api/v2/users/'
+        );
+        expect(normalizer.normalize('/')).toBe('/');
+        expect(normalizer.normalize('/cafe/deadbeef')).toBe('/cafe/deadbeef');
+    });
+
+    it('should test custom placeholders first', () => {
+        const custom = new RouteNormalizer({
+            placeholders: [
+                { pattern: /^[a-z]{2}-[A-Z]{2}$/g, placeholder: ':locale' },
+                { pattern: /^\d{4}$/, placeholder: ':year' },
+            ],
+        });
+
+        expect(custom.normalize('/en-US/archive/2024/12')).toBe(
+            '/:locale/archive/:year/:id'
+        );
+        // Stateless despite the global flag
+        expect(custom.normalize('/fr-FR')).toBe('/:locale');
+    });
+
+    it('should read the Express route template', () => {
+        const req = {
+            baseUrl: '/api',
+            route: { path: '/users/:id' },
+        } as unknown as Req;
+
+        expect(RouteNormalizer.template(req)).toBe('/api/users/:id');
+        expect(normalizer.resolve(req, '/api/users/42')).toBe('/api/users/:id');
+    });
+
+    it('should read the Fastify route template', () => {
+        expect(
+            RouteNormalizer.template({
+                routeOptions: { url: '/users/:id' },
+            } as unknown as Req)
+        ).toBe('/users/:id');
+        expect(
+            RouteNormalizer.template({
+                routerPath: '/legacy/:id',
+            } as unknown as Req)
+        ).toBe('/legacy/:id');
+    });
+
+    it('should fall back to the normalized path before routing', () => {
+        expect(normalizer.resolve({} as Req, '/users/42?x=1')).toBe(
+            '/users/:id'
+        );
+    });
+});
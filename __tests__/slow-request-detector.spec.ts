@@ -0,0 +1,41 @@
+import { SlowRequestDetector } from '../src';
+
+describe('SlowRequestDetector', () => {
+    it('should never flag requests without thresholds', () => {
+        const detector = new SlowRequestDetector();
+
+        expect(detector.thresholdFor('/api')).toBeUndefined();
+        expect(detector.isSlow('/api', 'GET', 100000)).toBe(false);
+    });
+
+    it('should flag requests reaching the global threshold', () => {
+        const detector = new SlowRequestDetector({ thresholdMs: 500 });
+
+        expect(detector.isSlow('/api', 'GET', 499.99)).toBe(false);
+        expect(detector.isSlow('/api', 'GET', 500)).toBe(true);
+    });
+
+    it('should use the first matching route threshold', () => {
+        const detector = new SlowRequestDetector({
+            thresholdMs: 500,
+            routes: [
+                { method: 'POST', path: '/api/reports/*', thresholdMs: 5000 },
+                { path: /^\/api\/reports\//, thresholdMs: 2000 },
+            ],
+        });
+
+        expect(detector.thresholdFor('/api/reports/1', 'POST')).toBe(5000);
+        expect(detector.thresholdFor('/api/reports/1?x=1', 'GET')).toBe(2000);
+        expect(detector.thresholdFor('/api/users', 'GET')).toBe(500);
+        expect(detector.isSlow('/api/reports/1', 'GET', 1000)).toBe(false);
+    });
+
+    it('should support per-route thresholds without a global one', () => {
+        const detector = new SlowRequestDetector({
+            routes: [{ path: '/api/search', thresholdMs: 100 }],
+        });
+
+        expect(detector.isSlow('/api/search', 'GET', 150)).toBe(true);
+        expect(detector.isSlow('/api/users', 'GET', 150)).toBe(false);
+    });
+});
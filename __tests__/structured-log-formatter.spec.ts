@@ -0,0 +1,179 @@
+import { StructuredLogFormatter } from '../src';
+
+describe('StructuredLogFormatter', () => {
+    let formatter: StructuredLogFormatter;
+
+    beforeEach(() => {
+        formatter = new StructuredLogFormatter();
+    });
+
+    describe('incoming', () => {
+        it('should build an incoming record', () => {
+            const record = formatter.incoming({
+                method: 'GET',
+                path: '/api/users',
+                headers: {},
+            });
+
+            expect(record).toEqual({
+                event: 'request.incoming',
+                message: 'Incoming request',
+                timestamp: expect.any(String),
+                method: 'GET',
+                path: '/api/users',
+            });
+            expect(new Date(record.timestamp).toISOString()).toBe(
+                record.timestamp
+            );
+        });
+
+        it('should include selected header fields as an object', () => {
+            const formatterWithHeaders = new StructuredLogFormatter({
+                headerFields: ['content-type', 'authorization'],
+            });
+
+            const record = formatterWithHeaders.incoming({
+                method: 'POST',
+                path: '/api/data',
+                headers: {
+                    'content-type': 'application/json',
+                    authorization: 'Bearer token123',
+                    'x-other': 'value',
+                },
+            });
+
+            expect(record.headers).toEqual({
+                'content-type': 'application/json',
+                authorization: '[REDACTED]',
+            });
+        });
+
+        it('should include body only when logRequestBody is true', () => {
+            const details = {
+                method: 'POST',
+                path: '/api/data',
+                headers: {},
+                body: { name: 'test' },
+            };
+            const formatterWithBody = new StructuredLogFormatter({
+                logRequestBody: true,
+            });
+
+            expect(formatter.incoming(details).body).toBeUndefined();
+            expect(formatterWithBody.incoming(details).body).toEqual({
+                name: 'test',
+            });
+        });
+    });
+
+    describe('completed', () => {
+        it('should build a completed record with numeric duration', () => {
+            const record = formatter.completed({
+                method: 'GET',
+                path: '/api/users',
+                statusCode: 200,
+                durationMs: '45.23',
+            });
+
+            expect(record).toEqual({
+                event: 'request.completed',
+                message: 'Request completed',
+                timestamp: expect.any(String),
+                startedAt: expect.any(String),
+                method: 'GET',
+                path: '/api/users',
+                statusCode: 200,
+                durationMs: 45.23,
+            });
+            expect(
+                Date.parse(record.timestamp) - Date.parse(record.startedAt!)
+            ).toBe(45);
+        });
+
+        it('should include the request id when present', () => {
+            const record = formatter.completed({
+                requestId: 'abc-123',
+                method: 'GET',
+                path: '/api/users',
+                statusCode: 200,
+                durationMs: '1.00',
+            });
+
+            expect(record.requestId).toBe('abc-123');
+        });
+
+        it('should include the response body when present', () => {
+            const record = formatter.completed({
+                method: 'GET',
+                path: '/api/users/1',
+                statusCode: 200,
+                durationMs: '1.00',
+                responseData: { id: 1 },
+            });
+
+            expect(record.responseBody).toEqual({ id: 1 });
+        });
+
+        it('should build aborted records', () => {
+            const record = formatter.completed({
+                method: 'GET',
+                path: '/api/export',
+                statusCode: 200,
+                durationMs: '5.00',
+                outcome: 'aborted',
+                abortReason: 'socket hang up',
+                bytesSent: 10,
+            });
+
+            expect(record).toEqual(
+                expect.objectContaining({
+                    event: 'request.aborted',
+                    message: 'Request aborted',
+                    abortReason: 'socket hang up',
+                    bytesSent: 10,
+                })
+            );
+        });
+
+        it('should build in-flight records', () => {
+            const record = formatter.completed({
+                method: 'GET',
+                path: '/api/export',
+                statusCode: 200,
+                durationMs: '5.00',
+                outcome: 'in-flight',
+            });
+
+            expect(record.event).toBe('request.in-flight');
+            expect(record.message).toBe('Request still in flight');
+        });
+
+        it('should include selected response headers', () => {
+            formatter = new StructuredLogFormatter({
+                responseHeaderFields: [
+                    'content-length',
+                    'x-ratelimit-remaining',
+                ],
+            });
+
+            const record = formatter.completed({
+                method: 'GET',
+                path: '/api/users',
+                statusCode: 200,
+                durationMs: '1.00',
+                responseHeaders: { 'content-length': 42, server: 'nginx' },
+            });
+
+            expect(record.responseHeaders).toEqual({ 'content-length': 42 });
+            expect(
+                formatter.completed({
+                    method: 'GET',
+                    path: '/api/users',
+                    statusCode: 200,
+                    durationMs: '1.00',
+                    responseHeaders: { server: 'nginx' },
+                })
+            ).not.toHaveProperty('responseHeaders');
+        });
+    });
+});
@@ -0,0 +1,74 @@
+import { UserAgentParser } from '../src';
+
+describe('UserAgentParser', () => {
+    const parser = new UserAgentParser();
+
+    it('should parse Chrome on macOS', () => {
+        expect(
+            parser.parse(
+                'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+            )
+        ).toEqual({
+            browser: 'Chrome',
+            browserVersion: '120.0.0.0',
+            os: 'macOS',
+            osVersion: '10.15.7',
+            bot: false,
+        });
+    });
+
+    it('should prefer Edge over Chrome and detect Windows', () => {
+        expect(
+            parser.parse(
+                'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.2210.91'
+            )
+        ).toEqual({
+            browser: 'Edge',
+            browserVersion: '120.0.2210.91',
+            os: 'Windows',
+            osVersion: '10.0',
+            bot: false,
+        });
+    });
+
+    it('should parse Safari on iOS and Firefox on Android', () => {
+        expect(
+            parser.parse(
+                'Mozilla/5.0 (iPhone; CPU iPhone OS 17_2 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Mobile/15E148 Safari/604.1'
+            )
+        ).toMatchObject({
+            browser: 'Safari',
+            browserVersion: '17.2',
+            os: 'iOS',
+            osVersion: '17.2',
+        });
+        expect(
+            parser.parse(
+                'Mozilla/5.0 (Android 14; Mobile; rv:121.0) Gecko/121.0 Firefox/121.0'
+            )
+        ).toMatchObject({
+            browser: 'Firefox',
+            browserVersion: '121.0',
+            os: 'Android',
+            osVersion: '14',
+        });
+    });
+
+    it('should flag crawlers and HTTP clients as bots', () => {
+        expect(
+            parser.parse(
+                'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)'
+            ).bot
+        ).toBe(true);
+        expect(parser.parse('curl/8.4.0')).toEqual({
+            browser: 'curl',
+            browserVersion: '8.4.0',
+            bot: true,
+        });
+        expect(parser.parse('python-requests/2.31.0').bot).toBe(true);
+    });
+
+    it('should leave unknown fields undefined', () => {
+        expect(parser.parse('CustomClient')).toEqual({ bot: false });
+    });
+});
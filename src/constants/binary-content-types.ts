@@ -0,0 +1,35 @@
+/**
+ * @file Binary Content Types
+ * @description List of content types whose bodies are never logged
+ * @author samofprog
+ * @license MIT
+ */
+
+/**
+ * Default content types logged as a `[binary body: N bytes]` placeholder
+ * instead of their payload. Wildcards match any subtype (`image/*`).
+ *
+ * @constant BINARY_CONTENT_TYPES
+ *
+ * @example
+ * ```typescript
+ * import { BINARY_CONTENT_TYPES } from '@samofprog/nestjs-request-logger';
+ *
+ * const binaryContentTypes = [...BINARY_CONTENT_TYPES, 'application/x-ndjson'];
+ * ```
+ */
+export const BINARY_CONTENT_TYPES = [
+    'application/octet-stream',
+    'application/pdf',
+    'application/zip',
+    'application/gzip',
+    'application/x-tar',
+    'application/x-7z-compressed',
+    'application/x-protobuf',
+    'application/protobuf',
+    'application/grpc',
+    'image/*',
+    'audio/*',
+    'video/*',
+    'font/*',
+] as const;
@@ -0,0 +1,32 @@
+/**
+ * @file Body Redaction Patterns
+ * @description Regular expressions matching sensitive values inside logged bodies
+ * @author samofprog
+ * @license MIT
+ */
+
+/**
+ * Ready-made value patterns for `sensitiveBodyPatterns`.
+ *
+ * @constant BODY_REDACTION_PATTERNS
+ *
+ * Patterns included:
+ * - CREDIT_CARD: 13-19 digit card numbers, optionally separated by spaces or dashes
+ * - JWT: three base64url segments starting with `eyJ`
+ * - EMAIL: e-mail addresses
+ *
+ * @example
+ * ```typescript
+ * import { BODY_REDACTION_PATTERNS } from '@samofprog/nestjs-request-logger';
+ *
+ * app.use(requestLoggerFactory({
+ *   logRequestBody: true,
+ *   sensitiveBodyPatterns: [BODY_REDACTION_PATTERNS.CREDIT_CARD, BODY_REDACTION_PATTERNS.EMAIL],
+ * }));
+ * ```
+ */
+export const BODY_REDACTION_PATTERNS = {
+    CREDIT_CARD: /\b(?:\d[ -]?){12,18}\d\b/g,
+    JWT: /\beyJ[\w-]+\.[\w-]+\.[\w-]+\b/g,
+    EMAIL: /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g,
+} as const;
@@ -0,0 +1,29 @@
+/**
+ * @file Default Request ID Headers
+ * @description List of incoming headers read to reuse a caller-provided request ID
+ * @author samofprog
+ * @license MIT
+ */
+
+/**
+ * Default list of headers checked, in order, for an incoming request ID.
+ *
+ * @constant DEFAULT_REQUEST_ID_HEADERS
+ *
+ * Headers included:
+ * - x-request-id: De facto standard set by proxies and API gateways
+ * - x-correlation-id: Common alternative used by message-driven systems
+ * - traceparent: W3C trace context (the trace ID is used)
+ *
+ * @example
+ * ```typescript
+ * import { DEFAULT_REQUEST_ID_HEADERS } from '@samofprog/nestjs-request-logger';
+ *
+ * const requestIdHeaders = [...DEFAULT_REQUEST_ID_HEADERS, 'x-amzn-trace-id'];
+ * ```
+ */
+export const DEFAULT_REQUEST_ID_HEADERS = [
+    'x-request-id',
+    'x-correlation-id',
+    'traceparent',
+] as const;
@@ -0,0 +1,38 @@
+/**
+ * @file Default Sensitive Body Keys
+ * @description List of payload keys whose values should be redacted in logged bodies
+ * @author samofprog
+ * @license MIT
+ */
+
+/**
+ * Default list of sensitive keys redacted in request and response bodies.
+ * Keys are matched case-insensitively, ignoring `-` and `_` (so `access_token`,
+ * `accessToken` and `Access-Token` all match `accesstoken`), at any depth.
+ *
+ * @constant DEFAULT_SENSITIVE_BODY_KEYS
+ *
+ * @example
+ * ```typescript
+ * import { DEFAULT_SENSITIVE_BODY_KEYS } from '@samofprog/nestjs-request-logger';
+ *
+ * const sensitiveBodyKeys = [...DEFAULT_SENSITIVE_BODY_KEYS, 'pin'];
+ * ```
+ */
+export const DEFAULT_SENSITIVE_BODY_KEYS = [
+    'password',
+    'passwd',
+    'secret',
+    'clientSecret',
+    'token',
+    'accessToken',
+    'refreshToken',
+    'idToken',
+    'apiKey',
+    'privateKey',
+    'creditCard',
+    'cardNumber',
+    'cvv',
+    'cvc',
+    'ssn',
+] as const;
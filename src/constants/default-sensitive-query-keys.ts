@@ -0,0 +1,37 @@
+/**
+ * @file Default Sensitive Query Keys
+ * @description List of query parameters whose values should be redacted in logs
+ * @author samofprog
+ * @license MIT
+ */
+
+/**
+ * Default list of sensitive query parameters redacted in the logged path and
+ * query field. Keys are matched case-insensitively, ignoring `-` and `_` (so
+ * `api_key`, `apiKey` and `API-KEY` all match `apikey`).
+ *
+ * @constant DEFAULT_SENSITIVE_QUERY_KEYS
+ *
+ * @example
+ * ```typescript
+ * import { DEFAULT_SENSITIVE_QUERY_KEYS } from '@samofprog/nestjs-request-logger';
+ *
+ * const sensitiveQueryKeys = [...DEFAULT_SENSITIVE_QUERY_KEYS, 'otp'];
+ * ```
+ */
+export const DEFAULT_SENSITIVE_QUERY_KEYS = [
+    'token',
+    'accessToken',
+    'refreshToken',
+    'idToken',
+    'apiKey',
+    'key',
+    'signature',
+    'sig',
+    'xAmzSignature',
+    'xAmzCredential',
+    'password',
+    'secret',
+    'clientSecret',
+    'code',
+] as const;
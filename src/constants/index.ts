@@ -7,3 +7,16 @@
 
 export { DEFAULT_SENSITIVE_HEADERS } from './default-sensitive-headers';
 export { REQUEST_LOGGER_OPTIONS } from './request-logger-options';
+export { REQUEST_LOGGER_MODULE_CONFIG } from './request-logger-module-config';
+export { DEFAULT_REQUEST_ID_HEADERS } from './default-request-id-headers';
+export { DEFAULT_SENSITIVE_BODY_KEYS } from './default-sensitive-body-keys';
+export { BODY_REDACTION_PATTERNS } from './body-redaction-patterns';
+export { DEFAULT_SENSITIVE_QUERY_KEYS } from './default-sensitive-query-keys';
+export { BINARY_CONTENT_TYPES } from './binary-content-types';
+export {
+    SKIP_REQUEST_LOG_METADATA,
+    LOG_REQUEST_BODY_METADATA,
+    LOG_RESPONSE_BODY_METADATA,
+    REDACT_FIELDS_METADATA,
+    LOG_LEVEL_METADATA,
+} from './request-log-metadata';
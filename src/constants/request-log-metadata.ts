@@ -0,0 +1,36 @@
+/**
+ * @file Request Log Metadata Keys
+ * @description Metadata keys set by the request logging decorators
+ * @author samofprog
+ * @license MIT
+ */
+
+/**
+ * Metadata key set by `@SkipRequestLog()`.
+ * @constant
+ */
+export const SKIP_REQUEST_LOG_METADATA = 'request-logger:skip';
+
+/**
+ * Metadata key set by `@LogRequestBody()`.
+ * @constant
+ */
+export const LOG_REQUEST_BODY_METADATA = 'request-logger:log-request-body';
+
+/**
+ * Metadata key set by `@LogResponseBody()`.
+ * @constant
+ */
+export const LOG_RESPONSE_BODY_METADATA = 'request-logger:log-response-body';
+
+/**
+ * Metadata key set by `@RedactFields()`.
+ * @constant
+ */
+export const REDACT_FIELDS_METADATA = 'request-logger:redact-fields';
+
+/**
+ * Metadata key set by `@LogLevel()`.
+ * @constant
+ */
+export const LOG_LEVEL_METADATA = 'request-logger:log-level';
@@ -0,0 +1,13 @@
+/**
+ * @file Request Logger Module Config Token
+ * @description Dependency injection token for request logger module wiring
+ * @author samofprog
+ * @license MIT
+ */
+
+/**
+ * Dependency injection token for the route configuration used by
+ * `RequestLoggerModule` when applying the middleware.
+ * @constant
+ */
+export const REQUEST_LOGGER_MODULE_CONFIG = 'REQUEST_LOGGER_MODULE_CONFIG';
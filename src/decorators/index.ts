@@ -0,0 +1,12 @@
+/**
+ * @file Decorators Export Hub
+ * @description Central export for all decorators
+ * @author samofprog
+ * @license MIT
+ */
+
+export { SkipRequestLog } from './skip-request-log.decorator';
+export { LogRequestBody } from './log-request-body.decorator';
+export { LogResponseBody } from './log-response-body.decorator';
+export { RedactFields } from './redact-fields.decorator';
+export { LogLevel } from './log-level.decorator';
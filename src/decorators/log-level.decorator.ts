@@ -0,0 +1,38 @@
+/**
+ * @file Log Level Decorator
+ * @description Overrides the log level for a controller or handler
+ * @author samofprog
+ * @license MIT
+ */
+
+import { CustomDecorator, SetMetadata } from '@nestjs/common';
+import { LOG_LEVEL_METADATA } from '../constants';
+import { LevelForStatus } from '../types';
+
+/**
+ * Set the log level of a controller or handler, overriding `levelForStatus`
+ * and `routeLogLevels`.
+ *
+ * Accepts the same values as `levelForStatus`. A fixed level also applies to
+ * the incoming line; slow requests are still raised to `warn`. Honored by
+ * `RequestLoggerInterceptor`.
+ *
+ * Import it under another name if it clashes with the `LogLevel` type of
+ * `@nestjs/common`.
+ *
+ * @param {LevelForStatus} level - Fixed level, status map or function
+ * @returns {CustomDecorator<string>} Class or method decorator
+ *
+ * @example
+ * ```typescript
+ * @LogLevel('debug')
+ * @Get('ping')
+ * ping() {}
+ *
+ * @LogLevel({ '4xx': 'log' })
+ * @Get('search')
+ * search() {}
+ * ```
+ */
+export const LogLevel = (level: LevelForStatus): CustomDecorator<string> =>
+    SetMetadata(LOG_LEVEL_METADATA, level);
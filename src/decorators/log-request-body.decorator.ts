@@ -0,0 +1,28 @@
+/**
+ * @file Log Request Body Decorator
+ * @description Overrides `logRequestBody` for a controller or handler
+ * @author samofprog
+ * @license MIT
+ */
+
+import { CustomDecorator, SetMetadata } from '@nestjs/common';
+import { LOG_REQUEST_BODY_METADATA } from '../constants';
+
+/**
+ * Log (or stop logging) the request body of a controller or handler,
+ * overriding the global `logRequestBody` option.
+ *
+ * Honored by `RequestLoggerInterceptor`. Bodies are still redacted.
+ *
+ * @param {boolean} [enabled=true] - Whether to log the request body
+ * @returns {CustomDecorator<string>} Class or method decorator
+ *
+ * @example
+ * ```typescript
+ * @LogRequestBody()
+ * @Post()
+ * create(@Body() dto: CreateUserDto) {}
+ * ```
+ */
+export const LogRequestBody = (enabled = true): CustomDecorator<string> =>
+    SetMetadata(LOG_REQUEST_BODY_METADATA, enabled);
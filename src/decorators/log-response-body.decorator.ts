@@ -0,0 +1,29 @@
+/**
+ * @file Log Response Body Decorator
+ * @description Overrides `logResponseBody` for a controller or handler
+ * @author samofprog
+ * @license MIT
+ */
+
+import { CustomDecorator, SetMetadata } from '@nestjs/common';
+import { LOG_RESPONSE_BODY_METADATA } from '../constants';
+
+/**
+ * Log (or stop logging) the response body of a controller or handler,
+ * overriding the global `logResponseBody` option.
+ *
+ * Honored by `RequestLoggerInterceptor`. The `maxResponseBodyBytes` and
+ * `responseBodyContentTypes` limits still apply.
+ *
+ * @param {boolean} [enabled=true] - Whether to log the response body
+ * @returns {CustomDecorator<string>} Class or method decorator
+ *
+ * @example
+ * ```typescript
+ * @LogResponseBody(false)
+ * @Get('export')
+ * export() {}
+ * ```
+ */
+export const LogResponseBody = (enabled = true): CustomDecorator<string> =>
+    SetMetadata(LOG_RESPONSE_BODY_METADATA, enabled);
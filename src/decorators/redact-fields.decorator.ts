@@ -0,0 +1,31 @@
+/**
+ * @file Redact Fields Decorator
+ * @description Adds body fields to redact for a controller or handler
+ * @author samofprog
+ * @license MIT
+ */
+
+import { CustomDecorator, SetMetadata } from '@nestjs/common';
+import { REDACT_FIELDS_METADATA } from '../constants';
+
+/**
+ * Redact additional fields in the logged request and response bodies of a
+ * controller or handler.
+ *
+ * Plain names extend `sensitiveBodyKeys`; dotted paths (`card.number`,
+ * `items.*.secret`) extend `sensitiveBodyPaths`. Fields declared on the
+ * controller and on the handler are combined. Honored by
+ * `RequestLoggerInterceptor`.
+ *
+ * @param {...string} fields - Keys or paths to redact
+ * @returns {CustomDecorator<string>} Class or method decorator
+ *
+ * @example
+ * ```typescript
+ * @RedactFields('pin', 'card.number')
+ * @Post('payments')
+ * pay(@Body() dto: PaymentDto) {}
+ * ```
+ */
+export const RedactFields = (...fields: string[]): CustomDecorator<string> =>
+    SetMetadata(REDACT_FIELDS_METADATA, fields);
@@ -0,0 +1,31 @@
+/**
+ * @file Skip Request Log Decorator
+ * @description Disables request logging for a controller or handler
+ * @author samofprog
+ * @license MIT
+ */
+
+import { CustomDecorator, SetMetadata } from '@nestjs/common';
+import { SKIP_REQUEST_LOG_METADATA } from '../constants';
+
+/**
+ * Skip request logging for a controller or handler.
+ *
+ * Honored by `RequestLoggerInterceptor`; replaces `ignorePaths` entries that
+ * would otherwise have to follow route changes.
+ *
+ * @param {boolean} [skip=true] - Pass `false` on a handler to log it inside a skipped controller
+ * @returns {CustomDecorator<string>} Class or method decorator
+ *
+ * @example
+ * ```typescript
+ * @Controller('health')
+ * export class HealthController {
+ *   @SkipRequestLog()
+ *   @Get()
+ *   check() {}
+ * }
+ * ```
+ */
+export const SkipRequestLog = (skip = true): CustomDecorator<string> =>
+    SetMetadata(SKIP_REQUEST_LOG_METADATA, skip);
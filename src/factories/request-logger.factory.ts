@@ -8,12 +8,13 @@
  * binding request logger middleware with minimal configuration.
  */
 
-import { RequestLoggerOptions, Req, Res } from '../types';
+import { RequestLoggerHandler, RequestLoggerOptions } from '../types';
 import { Logger } from '@nestjs/common';
 import { RequestLoggerMiddleware } from '../middlewares';
 
 /**
- * Creates a request logger middleware instance and returns its bound use method.
+ * Creates a request logger middleware instance and returns its bound use method,
+ * with a `shutdown()` handle on the instance.
  *
  * This is the **recommended approach** for integrating the request logger middleware
  * into your NestJS application. It handles:
@@ -27,15 +28,20 @@ import { RequestLoggerMiddleware } from '../middlewares';
  * 3. Binds the `use` method to the middleware context
  * 4. Returns the bound middleware function ready to be used with `app.use()`
  *
+ * Nest does not manage the instance: call `shutdown()` on the returned
+ * function after `app.close()` so lines queued by `bufferLogs` are written
+ * and the transports are flushed and closed. No process signal handler is
+ * registered.
+ *
  * @param {Partial<RequestLoggerOptions>} [options={}] - Configuration options for the logger
  * @param {boolean} [options.logHeaders=false] - Whether to log request headers (sanitized)
  * @param {boolean} [options.logRequestBody=false] - Whether to log request body
- * @param {string[]} [options.ignorePaths=[]] - Paths to ignore from logging (supports wildcards)
+ * @param {IgnorePathRule[]} [options.ignorePaths=[]] - Paths, RegExps, method rules or predicates to ignore from logging
  * @param {string[]} [options.sensitiveHeaders] - Custom list of sensitive headers to mask
  * @param {LoggerService} [options.logger] - Custom logger service instance
  * @param {Function} [options.incomingRequestMessage] - Custom formatter for incoming requests
  * @param {Function} [options.completedRequestMessage] - Custom formatter for completed requests
- * @returns {Function} Express/Fastify compatible middleware function
+ * @returns {RequestLoggerHandler} Express/Fastify compatible middleware function
  *
  * @example
  * ```typescript
@@ -66,6 +72,19 @@ import { RequestLoggerMiddleware } from '../middlewares';
  *
  * @example
  * ```typescript
+ * // With buffered logging, flushed on shutdown
+ * const requestLogger = requestLoggerFactory({ bufferLogs: true });
+ * app.use(requestLogger);
+ * await app.listen(3000);
+ *
+ * process.once('SIGTERM', async () => {
+ *   await app.close();
+ *   await requestLogger.shutdown();
+ * });
+ * ```
+ *
+ * @example
+ * ```typescript
  * // With custom message formatters
  * app.use(requestLoggerFactory({
  *   incomingRequestMessage: (details) => {
@@ -79,10 +98,12 @@ import { RequestLoggerMiddleware } from '../middlewares';
  */
 export function requestLoggerFactory(
     options: Partial<RequestLoggerOptions> = {}
-): (req: Req, res: Res, next: () => void) => void {
+): RequestLoggerHandler {
     const middleware = new RequestLoggerMiddleware({
         logger: new Logger(RequestLoggerMiddleware.name),
         ...options,
     });
-    return middleware.use.bind(middleware);
+    return Object.assign(middleware.use.bind(middleware), {
+        shutdown: () => middleware.onApplicationShutdown(),
+    });
 }
@@ -1,6 +1,12 @@
 // Middlewares
 export * from './middlewares';
 
+// Interceptors
+export * from './interceptors';
+
+// Decorators
+export * from './decorators';
+
 // Constants
 export * from './constants';
 
@@ -13,5 +19,8 @@ export * from './utils';
 // Factories
 export * from './factories';
 
+// Modules
+export * from './modules';
+
 // Types
 export * from './types';
@@ -0,0 +1,9 @@
+/**
+ * @file Interceptors Export Hub
+ * @description Central export for all interceptor implementations
+ * @author samofprog
+ * @license MIT
+ */
+
+export { RequestLoggerExceptionInterceptor } from './request-logger-exception.interceptor';
+export { RequestLoggerInterceptor } from './request-logger.interceptor';
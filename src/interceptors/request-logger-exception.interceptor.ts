@@ -0,0 +1,61 @@
+/**
+ * @file Request Logger Exception Interceptor
+ * @description Records exceptions thrown by route handlers for RequestLoggerMiddleware
+ * @author samofprog
+ * @license MIT
+ */
+
+import {
+    CallHandler,
+    ExecutionContext,
+    Injectable,
+    NestInterceptor,
+} from '@nestjs/common';
+import { Observable, catchError, throwError } from 'rxjs';
+import { RequestExceptionRecorder } from '../utils';
+
+/**
+ * Interceptor recording exceptions thrown by route handlers.
+ *
+ * The exception is rethrown untouched, so exception filters still build the
+ * response. It is not logged here: `RequestLoggerMiddleware` adds its name,
+ * message, optional stack and `HttpException` response to the completed line,
+ * so each failed request is logged once.
+ *
+ * @class RequestLoggerExceptionInterceptor
+ *
+ * @example
+ * ```typescript
+ * // main.ts
+ * app.useGlobalInterceptors(new RequestLoggerExceptionInterceptor());
+ *
+ * // Request completed: method=GET path=/users/42 statusCode=404 durationMs=2.10ms
+ * //   error.name=NotFoundException error.message="User 42 not found" ...
+ * ```
+ */
+@Injectable()
+export class RequestLoggerExceptionInterceptor implements NestInterceptor {
+    /**
+     * Record the exception thrown by the handler, then rethrow it
+     *
+     * @param {ExecutionContext} context - Execution context
+     * @param {CallHandler} next - Route handler
+     * @returns {Observable<unknown>} Handler result
+     */
+    intercept(
+        context: ExecutionContext,
+        next: CallHandler
+    ): Observable<unknown> {
+        return next.handle().pipe(
+            catchError((exception: unknown) => {
+                if (context.getType() === 'http') {
+                    RequestExceptionRecorder.record(
+                        context.switchToHttp().getRequest(),
+                        exception
+                    );
+                }
+                return throwError(() => exception);
+            })
+        );
+    }
+}
@@ -0,0 +1,418 @@
+/**
+ * @file Request Logger Interceptor
+ * @description Logs requests with their route template, controller and handler
+ * @author samofprog
+ * @license MIT
+ */
+
+import {
+    CallHandler,
+    ExecutionContext,
+    HttpException,
+    Inject,
+    Injectable,
+    NestInterceptor,
+    OnApplicationShutdown,
+    Optional,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import {
+    Observable,
+    Subscription,
+    catchError,
+    finalize,
+    tap,
+    throwError,
+} from 'rxjs';
+import {
+    DEFAULT_SENSITIVE_BODY_KEYS,
+    LOG_LEVEL_METADATA,
+    LOG_REQUEST_BODY_METADATA,
+    LOG_RESPONSE_BODY_METADATA,
+    REDACT_FIELDS_METADATA,
+    REQUEST_LOGGER_OPTIONS,
+    SKIP_REQUEST_LOG_METADATA,
+} from '../constants';
+import { RequestLoggerMiddleware } from '../middlewares';
+import {
+    Headers,
+    LevelForStatus,
+    Req,
+    RequestDetails,
+    RequestHandlerMetadata,
+    RequestLoggerOptions,
+    Res,
+} from '../types';
+import { RequestExceptionRecorder, RouteNormalizer } from '../utils';
+
+/**
+ * Metadata key under which `@MessagePattern()` / `@EventPattern()` store their pattern
+ */
+const PATTERN_METADATA = 'microservices:pattern';
+
+/**
+ * Interceptor logging requests like `RequestLoggerMiddleware`, enriched with
+ * the handler the request was dispatched to.
+ *
+ * It accepts the same options as the middleware and adds to both lines:
+ * - `route`: the matched route template (`/users/:id`) instead of only the
+ *   raw path, the message pattern for microservices or `Type.field` for GraphQL
+ * - `controller`: the controller or resolver class name
+ * - `handler`: the handler method name
+ *
+ * HTTP requests go through the middleware pipeline, so response events,
+ * sampling, slow requests, aborts and exceptions behave the same way. RPC
+ * messages (`method=RPC`) and GraphQL resolvers (`method=QUERY`,
+ * `MUTATION` or `SUBSCRIPTION`) have no response to observe: they complete
+ * when the handler settles, with status 200 on success, the
+ * `HttpException` status or 500 on error.
+ *
+ * Controllers and handlers can override the options with `@SkipRequestLog()`,
+ * `@LogRequestBody()`, `@LogResponseBody()`, `@RedactFields()` and
+ * `@LogLevel()`, read through the `Reflector` (handler first, then class).
+ *
+ * With `requestContext`, HTTP handlers run inside the request's
+ * `RequestContext` scope; RPC and GraphQL executions do not open one.
+ *
+ * An instance passed to `app.useGlobalInterceptors()` is outside the Nest
+ * container: call its `onApplicationShutdown()` after `app.close()` to
+ * write buffered lines and close the transports.
+ *
+ * Use it instead of the middleware, not alongside it, or HTTP requests are
+ * logged twice. Requests rejected before interceptors run (guards, unknown
+ * routes) are only seen by the middleware.
+ *
+ * @class RequestLoggerInterceptor
+ * @implements {NestInterceptor}
+ * @implements {OnApplicationShutdown}
+ *
+ * @example
+ * ```typescript
+ * // main.ts
+ * app.useGlobalInterceptors(
+ *   new RequestLoggerInterceptor({ headerFields: ['content-type'] })
+ * );
+ *
+ * // Request completed: method=GET path=/users/42 route=/users/:id
+ * //   controller=UsersController handler=findOne statusCode=200 durationMs=2.10ms
+ * ```
+ */
+@Injectable()
+export class RequestLoggerInterceptor
+    implements NestInterceptor, OnApplicationShutdown
+{
+    private readonly middleware: RequestLoggerMiddleware;
+    private readonly decoratedMiddlewares = new WeakMap<
+        object,
+        WeakMap<object, RequestLoggerMiddleware>
+    >();
+
+    constructor(
+        @Inject(REQUEST_LOGGER_OPTIONS)
+        private readonly options: Partial<RequestLoggerOptions> = {},
+        @Optional()
+        private readonly reflector: Reflector = new Reflector()
+    ) {
+        this.middleware = new RequestLoggerMiddleware(options);
+    }
+
+    /**
+     * Write the log lines still buffered by `bufferLogs`, then flush and
+     * close the transports (requires `app.enableShutdownHooks()`)
+     *
+     * @returns {Promise<void>} Resolves once the transports are closed
+     */
+    async onApplicationShutdown(): Promise<void> {
+        await this.middleware.onApplicationShutdown();
+    }
+
+    /**
+     * Log the request handled by the current execution context
+     *
+     * @param {ExecutionContext} context - Execution context
+     * @param {CallHandler} next - Route handler
+     * @returns {Observable<unknown>} Handler result
+     */
+    intercept(
+        context: ExecutionContext,
+        next: CallHandler
+    ): Observable<unknown> {
+        const metadata: RequestHandlerMetadata = {
+            controller: context.getClass().name,
+            handler: context.getHandler().name,
+        };
+        if (this.isSkipped(context)) {
+            return next.handle();
+        }
+        const middleware = this.getMiddleware(context);
+        const type = context.getType<string>();
+
+        if (type === 'http') {
+            return this.interceptHttp(context, next, middleware, metadata);
+        }
+
+        const details =
+            type === 'rpc'
+                ? this.describeRpc(context, metadata)
+                : type === 'graphql'
+                  ? this.describeGraphql(context, metadata)
+                  : undefined;
+        if (!details) {
+            return next.handle();
+        }
+
+        const complete = middleware.trackExecution(details);
+        let failed = false;
+        return next.handle().pipe(
+            tap({
+                error: (exception: unknown) => {
+                    failed = true;
+                    complete(this.statusOf(exception), exception);
+                },
+            }),
+            // Also covers handlers unsubscribed before completing
+            finalize(() => {
+                if (!failed) {
+                    complete(200);
+                }
+            })
+        );
+    }
+
+    /**
+     * Log an HTTP request through the middleware pipeline, subscribing to the
+     * handler from the middleware's `next` so it runs inside `RequestContext`
+     *
+     * @private
+     * @param {ExecutionContext} context - HTTP execution context
+     * @param {CallHandler} next - Route handler
+     * @param {RequestLoggerMiddleware} middleware - Middleware holding the handler's options
+     * @param {RequestHandlerMetadata} metadata - Controller and handler names
+     * @returns {Observable<unknown>} Handler result
+     */
+    private interceptHttp(
+        context: ExecutionContext,
+        next: CallHandler,
+        middleware: RequestLoggerMiddleware,
+        metadata: RequestHandlerMetadata
+    ): Observable<unknown> {
+        const http = context.switchToHttp();
+        const req = http.getRequest<Req>();
+
+        return new Observable((subscriber) => {
+            let subscription: Subscription | undefined;
+            middleware.use(
+                req,
+                http.getResponse<Res>(),
+                () => {
+                    // Older Nest versions call the handler in handle()
+                    subscription = next
+                        .handle()
+                        .pipe(
+                            catchError((exception: unknown) => {
+                                RequestExceptionRecorder.record(req, exception);
+                                return throwError(() => exception);
+                            })
+                        )
+                        .subscribe(subscriber);
+                },
+                { route: RouteNormalizer.template(req), ...metadata }
+            );
+            return () => subscription?.unsubscribe();
+        });
+    }
+
+    /**
+     * Check whether `@SkipRequestLog()` applies to the handler
+     *
+     * @private
+     * @param {ExecutionContext} context - Execution context
+     * @returns {boolean} True if the request must not be logged
+     */
+    private isSkipped(context: ExecutionContext): boolean {
+        return (
+            this.reflector.getAllAndOverride<boolean | undefined>(
+                SKIP_REQUEST_LOG_METADATA,
+                [context.getHandler(), context.getClass()]
+            ) === true
+        );
+    }
+
+    /**
+     * Get the middleware logging a handler: the shared one, or one derived
+     * from it with the options overridden by the handler's decorators (same
+     * transports and buffer)
+     *
+     * @private
+     * @param {ExecutionContext} context - Execution context
+     * @returns {RequestLoggerMiddleware} Middleware for the handler
+     */
+    private getMiddleware(context: ExecutionContext): RequestLoggerMiddleware {
+        const controller = context.getClass();
+        const handler = context.getHandler();
+
+        // Decorator metadata is static: build each handler's middleware once
+        let handlers = this.decoratedMiddlewares.get(controller);
+        const cached = handlers?.get(handler);
+        if (cached) {
+            return cached;
+        }
+
+        const overrides = this.getDecoratedOptions(context);
+        const middleware = overrides
+            ? this.middleware.withOptions(overrides)
+            : this.middleware;
+
+        if (!handlers) {
+            handlers = new WeakMap();
+            this.decoratedMiddlewares.set(controller, handlers);
+        }
+        handlers.set(handler, middleware);
+        return middleware;
+    }
+
+    /**
+     * Read the options overridden by decorators
+     *
+     * @private
+     * @param {ExecutionContext} context - Execution context
+     * @returns {Partial<RequestLoggerOptions> | undefined} Overridden options, or undefined when not decorated
+     */
+    private getDecoratedOptions(
+        context: ExecutionContext
+    ): Partial<RequestLoggerOptions> | undefined {
+        // Handler metadata takes precedence over controller metadata
+        const targets = [context.getHandler(), context.getClass()];
+        const overrides: Partial<RequestLoggerOptions> = {};
+
+        const logRequestBody = this.reflector.getAllAndOverride<
+            boolean | undefined
+        >(LOG_REQUEST_BODY_METADATA, targets);
+        if (logRequestBody !== undefined) {
+            overrides.logRequestBody = logRequestBody;
+        }
+
+        const logResponseBody = this.reflector.getAllAndOverride<
+            boolean | undefined
+        >(LOG_RESPONSE_BODY_METADATA, targets);
+        if (logResponseBody !== undefined) {
+            overrides.logResponseBody = logResponseBody;
+        }
+
+        const fields = this.reflector.getAllAndMerge<string[]>(
+            REDACT_FIELDS_METADATA,
+            targets
+        );
+        if (fields.length > 0) {
+            const paths = fields.filter((field) => field.includes('.'));
+            const keys = fields.filter((field) => !field.includes('.'));
+            overrides.sensitiveBodyKeys = [
+                ...(this.options.sensitiveBodyKeys ??
+                    DEFAULT_SENSITIVE_BODY_KEYS),
+                ...keys,
+            ];
+            overrides.sensitiveBodyPaths = [
+                ...(this.options.sensitiveBodyPaths ?? []),
+                ...paths,
+            ];
+        }
+
+        const level = this.reflector.getAllAndOverride<
+            LevelForStatus | undefined
+        >(LOG_LEVEL_METADATA, targets);
+        if (level !== undefined) {
+            overrides.levelForStatus = level;
+            overrides.routeLogLevels = [];
+            if (typeof level === 'string') {
+                overrides.incomingRequestLevel = level;
+            }
+        }
+
+        return Object.keys(overrides).length > 0 ? overrides : undefined;
+    }
+
+    /**
+     * Describe a microservice message
+     *
+     * @private
+     * @param {ExecutionContext} context - RPC execution context
+     * @param {RequestHandlerMetadata} metadata - Controller and handler names
+     * @returns {RequestDetails} Execution details
+     */
+    private describeRpc(
+        context: ExecutionContext,
+        metadata: RequestHandlerMetadata
+    ): RequestDetails {
+        const patterns: unknown = Reflect.getMetadata(
+            PATTERN_METADATA,
+            context.getHandler()
+        );
+        const pattern = Array.isArray(patterns) ? patterns[0] : patterns;
+        const route =
+            pattern === undefined
+                ? metadata.handler
+                : typeof pattern === 'string'
+                  ? pattern
+                  : JSON.stringify(pattern);
+
+        return {
+            method: 'RPC',
+            path: route ?? 'unknown',
+            headers: {},
+            body: context.switchToRpc().getData(),
+            ...metadata,
+            route,
+        };
+    }
+
+    /**
+     * Describe a GraphQL resolver call from its `(root, args, context, info)` arguments
+     *
+     * @private
+     * @param {ExecutionContext} context - GraphQL execution context
+     * @param {RequestHandlerMetadata} metadata - Resolver and handler names
+     * @returns {RequestDetails} Execution details
+     */
+    private describeGraphql(
+        context: ExecutionContext,
+        metadata: RequestHandlerMetadata
+    ): RequestDetails {
+        const [, args, gqlContext, info] = context.getArgs<
+            [
+                unknown,
+                unknown,
+                { req?: { headers?: Headers } } | undefined,
+                (
+                    | {
+                          fieldName?: string;
+                          parentType?: { name?: string };
+                          operation?: { operation?: string };
+                      }
+                    | undefined
+                ),
+            ]
+        >();
+        const field = info?.fieldName ?? metadata.handler ?? 'unknown';
+        const parentType = info?.parentType?.name;
+
+        return {
+            method: (info?.operation?.operation ?? 'query').toUpperCase(),
+            path: field,
+            headers: gqlContext?.req?.headers ?? {},
+            body: args,
+            ...metadata,
+            route: parentType ? `${parentType}.${field}` : field,
+        };
+    }
+
+    /**
+     * Get the status code reported for a failed RPC or GraphQL execution
+     *
+     * @private
+     * @param {unknown} exception - Thrown exception
+     * @returns {number} `HttpException` status, 500 otherwise
+     */
+    private statusOf(exception: unknown): number {
+        return exception instanceof HttpException ? exception.getStatus() : 500;
+    }
+}
@@ -9,10 +9,20 @@
  * - Detailed request/response logging
  * - High-precision timing measurement (nanosecond accuracy)
  * - Sensitive header masking for security
+ * - Query string parsing, with sensitive parameters redacted in the logged path
  * - Path-based filtering for ignored routes
+ * - Deterministic sampling with error and slow request overrides
  * - Customizable log formatting
  * - Support for Express and Fastify frameworks
  * - Automatic error detection based on HTTP status codes
+ * - Exception details recorded by RequestLoggerExceptionInterceptor
+ * - Configurable log levels by status class, route or function
+ * - Slow request detection (warn level) with global and per-route thresholds
+ * - RPC and GraphQL executions logged by RequestLoggerInterceptor
+ * - Normalized route templates for low-cardinality indexing
+ * - Pluggable transports (stdout, rotating file, memory) with per-transport
+ *   level and format
+ * - Optional buffered writes in batches, flushed on application shutdown
  *
  * @example
  * ```typescript
@@ -28,20 +38,82 @@ import {
     Injectable,
     Logger,
     LoggerService,
+    LogLevel,
     NestMiddleware,
+    OnApplicationShutdown,
 } from '@nestjs/common';
 
 import {
     CompletedRequestDetails,
     Headers,
+    HeaderSanitizerFunction,
+    RequestDetails,
+    RequestHandlerMetadata,
     RequestLoggerOptions,
+    RequestLogEvent,
     Req,
-    RequestDetails,
+    LogEntryFormatters,
+    LogTransportEvent,
     Res,
 } from '../types';
-import { LogMessageFormatter, HeaderSanitizer, PathMatcher } from '../utils';
+import {
+    BodySanitizer,
+    BodySerializer,
+    ClientMetadataExtractor,
+    LogBuffer,
+    LogLevelResolver,
+    LogMessageFormatter,
+    LoggerServiceTransport,
+    LogTransportDispatcher,
+    HeaderSanitizer,
+    PathMatcher,
+    PayloadSizeTracker,
+    QuerySanitizer,
+    RequestBodyParser,
+    RequestContext,
+    RequestExceptionRecorder,
+    RequestIdResolver,
+    RequestSampler,
+    ResponseBodyCapture,
+    RouteNormalizer,
+    SlowRequestDetector,
+    StructuredLogFormatter,
+} from '../utils';
 import { REQUEST_LOGGER_OPTIONS } from '../constants';
 
+/**
+ * Per-request fields shared by the incoming and completed lines
+ */
+type RequestIdentity = Pick<RequestDetails, 'requestId' | 'method' | 'path'> &
+    RequestHandlerMetadata;
+
+/**
+ * Fields of the completed line known once the response settled
+ */
+type SettledIdentity = RequestIdentity &
+    Pick<
+        CompletedRequestDetails,
+        'request' | 'responseHeaders' | 'requestBytes' | 'responseBytes'
+    >;
+
+/**
+ * Sampled-out request held until the response settles; described only when
+ * an override (errors, slow requests) keeps it
+ */
+interface SampledOutRequest {
+    describeIncoming: () => RequestDetails;
+}
+
+/**
+ * Node response shape shared by Express responses and Fastify `reply.raw`
+ */
+interface ResponseEmitter {
+    once(event: string, listener: (...args: unknown[]) => void): unknown;
+    socket?: { bytesWritten: number } | null;
+    writableFinished?: boolean;
+    getHeaders?(): Headers;
+}
+
 /**
  * Request Logger Middleware for NestJS applications.
  *
@@ -51,7 +123,7 @@ import { REQUEST_LOGGER_OPTIONS } from '../constants';
  * - Automatically differentiates between success and error logs based on status codes
  *
  * Features:
- * - **Security**: Automatically masks sensitive headers (auth, cookies, API keys)
+ * - **Security**: Automatically masks sensitive headers (auth, cookies, API keys) and body fields
  * - **Performance**: Uses high-precision timing for accurate duration measurement
  * - **Framework Support**: Works with both Express and Fastify adapters
  * - **Customization**: Supports custom formatters, header sanitizers, and path matchers
@@ -59,6 +131,7 @@ import { REQUEST_LOGGER_OPTIONS } from '../constants';
  *
  * @class RequestLoggerMiddleware
  * @implements {NestMiddleware}
+ * @implements {OnApplicationShutdown}
  *
  * @example
  * ```typescript
@@ -89,14 +162,30 @@ import { REQUEST_LOGGER_OPTIONS } from '../constants';
  * ```
  */
 @Injectable()
-export class RequestLoggerMiddleware implements NestMiddleware {
+export class RequestLoggerMiddleware
+    implements NestMiddleware, OnApplicationShutdown
+{
     private readonly logger: LoggerService;
-    private readonly headerSanitizer: HeaderSanitizer;
+    private readonly sanitizeHeaders: HeaderSanitizerFunction;
+    private readonly bodySanitizer: BodySanitizer;
+    private readonly bodySerializer: BodySerializer;
+    private readonly requestBodyParser: RequestBodyParser;
     private readonly pathMatcher: PathMatcher;
-    private readonly formatter: {
-        incoming: (details: RequestDetails) => string;
-        completed: (details: CompletedRequestDetails) => string;
-    };
+    private readonly querySanitizer: QuerySanitizer;
+    private readonly responseBodyCapture?: ResponseBodyCapture;
+    private readonly requestIdResolver?: RequestIdResolver;
+    private readonly sampler?: RequestSampler;
+    private readonly slowRequestDetector?: SlowRequestDetector;
+    private readonly routeNormalizer?: RouteNormalizer;
+    private readonly clientMetadataExtractor?: ClientMetadataExtractor;
+    private readonly payloadSizeTracker?: PayloadSizeTracker;
+    private readonly levelResolver: LogLevelResolver;
+    private readonly formatter: LogEntryFormatters;
+    private readonly transports: LogTransportDispatcher;
+    private buffer?: LogBuffer;
+    // Writer of this instance's lines, also when queued in a shared buffer
+    private readonly dispatchLine = (event: LogTransportEvent): void =>
+        this.transports.dispatch(event);
 
     constructor(
         @Inject(REQUEST_LOGGER_OPTIONS)
@@ -104,11 +193,158 @@ export class RequestLoggerMiddleware implements NestMiddleware {
     ) {
         this.logger =
             this.options.logger ?? new Logger(RequestLoggerMiddleware.name);
-        this.headerSanitizer = new HeaderSanitizer(
-            this.options.sensitiveHeaders
-        );
+        this.sanitizeHeaders = this.createHeaderSanitizer(this.options);
+        this.bodySanitizer = new BodySanitizer({
+            sensitiveKeys: this.options.sensitiveBodyKeys,
+            sensitivePaths: this.options.sensitiveBodyPaths,
+            sensitivePatterns: this.options.sensitiveBodyPatterns,
+            replacement: this.options.bodyRedactionReplacement,
+            partialMask: this.options.bodyRedactionPartialMask,
+        });
+        this.bodySerializer = new BodySerializer({
+            maxLength: this.options.maxBodyLength,
+            binaryContentTypes: this.options.binaryContentTypes,
+        });
+        this.requestBodyParser = new RequestBodyParser({
+            include: this.options.requestBodyContentTypes,
+            exclude: this.options.excludeRequestBodyContentTypes,
+        });
         this.pathMatcher = new PathMatcher(this.options.ignorePaths ?? []);
+        this.querySanitizer = new QuerySanitizer({
+            sensitiveKeys: this.options.sensitiveQueryKeys,
+            replacement: this.options.queryRedactionReplacement,
+        });
+        if (this.options.logResponseBody) {
+            this.responseBodyCapture = new ResponseBodyCapture({
+                maxBytes: this.options.maxResponseBodyBytes,
+                contentTypes: this.options.responseBodyContentTypes,
+                truncationMarker: this.options.responseBodyTruncationMarker,
+                // Redacted before truncation, which would hide the keys
+                sanitize: (body) => this.bodySanitizer.sanitize(body),
+            });
+        }
+        if (this.options.requestId) {
+            this.requestIdResolver = new RequestIdResolver({
+                headers: this.options.requestIdHeaders,
+                generator: this.options.requestIdGenerator,
+            });
+        }
+        if (
+            this.options.sampleRate !== undefined ||
+            this.options.routeSampleRates?.length
+        ) {
+            this.sampler = new RequestSampler({
+                rate: this.options.sampleRate,
+                routes: this.options.routeSampleRates,
+                alwaysLogErrors: this.options.alwaysLogErrors,
+                alwaysLogSlowerThanMs: this.options.alwaysLogSlowerThanMs,
+            });
+        }
+        if (
+            this.options.slowRequestThresholdMs !== undefined ||
+            this.options.routeSlowRequestThresholds?.length
+        ) {
+            this.slowRequestDetector = new SlowRequestDetector({
+                thresholdMs: this.options.slowRequestThresholdMs,
+                routes: this.options.routeSlowRequestThresholds,
+            });
+        }
+        if (this.options.normalizeRoutes) {
+            this.routeNormalizer = new RouteNormalizer({
+                placeholders: this.options.routePlaceholders,
+            });
+        }
+        if (this.options.clientMetadata) {
+            this.clientMetadataExtractor = new ClientMetadataExtractor({
+                fields:
+                    this.options.clientMetadata === true
+                        ? undefined
+                        : this.options.clientMetadata,
+                trustProxy: this.options.trustProxy,
+                anonymizeIp: this.options.anonymizeIp,
+            });
+        }
+        if (this.options.logPayloadSizes) {
+            this.payloadSizeTracker = new PayloadSizeTracker();
+        }
+        this.levelResolver = new LogLevelResolver({
+            levelForStatus: this.options.levelForStatus,
+            routes: this.options.routeLogLevels,
+            // A failing level function must never break response handling
+            onError: (error) =>
+                this.logger.error(
+                    `levelForStatus failed: ${error instanceof Error ? error.message : String(error)}`
+                ),
+        });
         this.formatter = this.createFormatter(this.options);
+        this.transports = new LogTransportDispatcher({
+            transports: this.options.transports ?? [
+                new LoggerServiceTransport(this.logger),
+            ],
+            formatter: this.formatter,
+            // Named transport formats ignore the custom message formatters
+            formatterFor: (format) =>
+                this.createFormatter({
+                    ...this.options,
+                    incomingRequestMessage: undefined,
+                    completedRequestMessage: undefined,
+                    outputFormat: format,
+                }),
+            onError: (error) =>
+                this.logger.error(
+                    `Log transport failed: ${error instanceof Error ? error.message : String(error)}`
+                ),
+        });
+        if (this.options.bufferLogs) {
+            this.buffer = new LogBuffer(
+                this.dispatchLine,
+                this.options.bufferLogs === true
+                    ? undefined
+                    : this.options.bufferLogs,
+                (dropped) =>
+                    this.logger.warn(
+                        `Request log buffer full: dropped ${dropped} log lines`
+                    )
+            );
+        }
+    }
+
+    /**
+     * Number of log lines dropped because the buffer was full
+     * (always 0 unless `bufferLogs` is enabled).
+     *
+     * @returns {number} Dropped line count
+     */
+    get droppedLogCount(): number {
+        return this.buffer?.dropped ?? 0;
+    }
+
+    /**
+     * Create a middleware logging with overridden options through this
+     * instance's transports and `bufferLogs` queue.
+     *
+     * Only this instance needs to be shut down: the derived middleware holds
+     * no buffer, timer or transport of its own.
+     *
+     * @param {Partial<RequestLoggerOptions>} overrides - Options replacing this instance's
+     * @returns {RequestLoggerMiddleware} Derived middleware
+     *
+     * @example
+     * ```typescript
+     * const verbose = middleware.withOptions({ logRequestBody: true });
+     * ```
+     */
+    withOptions(
+        overrides: Partial<RequestLoggerOptions>
+    ): RequestLoggerMiddleware {
+        const middleware = new RequestLoggerMiddleware({
+            ...this.options,
+            ...overrides,
+            // Lines are queued in this instance's buffer
+            bufferLogs: undefined,
+        });
+        middleware.buffer = this.buffer;
+        return middleware;
     }
 
     /**
@@ -116,11 +352,28 @@ export class RequestLoggerMiddleware implements NestMiddleware {
      *
      * Process Flow:
      * 1. Records the start time using high-precision timer (process.hrtime)
-     * 2. Extracts request method and URL
+     * 2. Extracts request method and URL; sensitive query parameters are
+     *    redacted in the logged path (or the query string is stripped)
      * 3. Checks if the path should be ignored
-     * 4. Logs incoming request details if not ignored
-     * 5. Sets up response completion handler to log duration and status code
-     * 6. Calls next middleware in the chain
+     * 4. Resolves the request ID when `requestId` is enabled
+     * 5. Applies sampling (by request ID when available); the incoming line of a
+     *    sampled-out request is held back and only logged if the completed
+     *    request is an error or slow, so both lines are kept or dropped together
+     *    (requests flagged by `slowRequestThresholdMs` or still in flight after
+     *    `inFlightTimeoutMs` are always kept, aborted ones like errors)
+     * 6. Logs incoming request details if not ignored (with the client IP,
+     *    connection and user agent when `clientMetadata` is enabled); in
+     *    `completion-only` mode the details are carried to the completed line
+     *    instead
+     * 7. Starts capturing the response body when `logResponseBody` is enabled
+     * 8. Sets up response completion handler to log duration and status code
+     *    at the level resolved from `levelForStatus` / `routeLogLevels`
+     *    (at least warn for slow requests)
+     * 9. Calls next middleware in the chain, inside a RequestContext scope when
+     *    `requestContext` is enabled
+     *
+     * Lines are written to every transport accepting their level, or queued
+     * and written in batches when `bufferLogs` is enabled.
      *
      * @param {Req} req - The HTTP request object (Express Request or Fastify Request)
      * @param {Res} res - The HTTP response object (Express Response or Fastify Reply)
@@ -134,40 +387,213 @@ export class RequestLoggerMiddleware implements NestMiddleware {
      * });
      * ```
      */
-    use(req: Req, res: Res, next: () => void): void {
+    use(
+        req: Req,
+        res: Res,
+        next: () => void,
+        metadata?: RequestHandlerMetadata
+    ): void {
         const startTime = process.hrtime();
         const method = req.method;
         const path = this.extractPath(req);
 
-        if (this.pathMatcher.matches(path)) {
+        if (this.pathMatcher.matches(path, method, req)) {
             next();
             return;
         }
 
-        this.logIncomingRequest(
-            req,
-            method,
-            path,
-            this.logger,
-            this.formatter,
-            this.options
-        );
-        this.setupResponseLogging(
-            res,
-            method,
-            path,
-            startTime,
-            this.logger,
-            this.formatter
-        );
+        const requestId = this.requestIdResolver
+            ? this.assignRequestId(req, res, this.requestIdResolver)
+            : undefined;
+
+        const sampled =
+            this.sampler?.isSampled(path, method, requestId) ?? true;
+        const loggedPath = this.options.stripQueryString
+            ? this.querySanitizer.stripQuery(path)
+            : this.querySanitizer.sanitizePath(path);
+
+        if (
+            sampled ||
+            this.sampler?.hasOverrides ||
+            this.slowRequestDetector ||
+            this.options.inFlightTimeoutMs !== undefined
+        ) {
+            const identity: RequestIdentity = {
+                requestId,
+                method,
+                path: loggedPath,
+                ...metadata,
+            };
+            if (this.routeNormalizer && !identity.route) {
+                identity.route = this.routeNormalizer.resolve(req, path);
+            }
+            // Body, files and client metadata are only extracted for lines
+            // that are actually logged
+            const describeIncoming = (): RequestDetails =>
+                this.describeIncomingRequest(
+                    identity,
+                    {
+                        headers: req.headers as Headers,
+                        body: this.extractBody(req),
+                        files: this.extractFiles(req),
+                        client: this.clientMetadataExtractor?.extract(req),
+                        query: this.options.logQueryParams
+                            ? this.querySanitizer.parse(path)
+                            : undefined,
+                    },
+                    this.options
+                );
+            const completionOnly = this.options.mode === 'completion-only';
+            // Sampled-out requests are only described if an override keeps them
+            const incoming = sampled ? describeIncoming() : undefined;
+            if (incoming && !completionOnly) {
+                this.writeLog(
+                    this.options.incomingRequestLevel ?? 'log',
+                    'request.incoming',
+                    incoming
+                );
+            }
+
+            this.setupResponseLogging(
+                req,
+                res,
+                incoming && completionOnly
+                    ? { ...identity, request: incoming }
+                    : identity,
+                startTime,
+                this.responseBodyCapture?.attach(res),
+                sampled ? undefined : { describeIncoming }
+            );
+        }
+
+        if (this.options.requestContext) {
+            RequestContext.run({ requestId, method, path: loggedPath }, next);
+            return;
+        }
 
         next();
     }
 
-    private createFormatter(options: Partial<RequestLoggerOptions>): {
-        incoming: (details: RequestDetails) => string;
-        completed: (details: CompletedRequestDetails) => string;
-    } {
+    /**
+     * Log an execution that has no HTTP response to observe, such as an RPC
+     * message or a GraphQL resolver, through the same pipeline as `use()`.
+     *
+     * The incoming line is logged immediately (subject to `ignorePaths` and
+     * sampling); the returned callback logs the completed line once and must
+     * be called when the execution settles.
+     *
+     * @param {RequestDetails} details - Execution details; `headers` are used to resolve the request ID
+     * @returns {Function} Completion callback taking the status code and the thrown exception, if any
+     *
+     * @example
+     * ```typescript
+     * const complete = middleware.trackExecution({
+     *   method: 'RPC',
+     *   path: 'users.find',
+     *   headers: {},
+     * });
+     * complete(200);
+     * ```
+     */
+    trackExecution(
+        details: RequestDetails
+    ): (statusCode: number, exception?: unknown) => void {
+        const startTime = process.hrtime();
+        const { headers, body, ...metadata } = details;
+
+        if (this.pathMatcher.matches(details.path, details.method)) {
+            return () => undefined;
+        }
+
+        const identity: RequestIdentity = {
+            ...metadata,
+            requestId:
+                details.requestId ?? this.requestIdResolver?.resolve(headers),
+        };
+        if (this.routeNormalizer && !identity.route) {
+            identity.route = this.routeNormalizer.normalize(identity.path);
+        }
+        const sampled =
+            this.sampler?.isSampled(
+                identity.path,
+                identity.method,
+                identity.requestId
+            ) ?? true;
+        const describeIncoming = (): RequestDetails =>
+            this.describeIncomingRequest(
+                identity,
+                { headers, body },
+                this.options
+            );
+        const completionOnly = this.options.mode === 'completion-only';
+        const incoming = sampled ? describeIncoming() : undefined;
+        if (incoming && !completionOnly) {
+            this.writeLog(
+                this.options.incomingRequestLevel ?? 'log',
+                'request.incoming',
+                incoming
+            );
+        }
+
+        let settled = false;
+        return (statusCode, exception) => {
+            if (settled) {
+                return;
+            }
+            settled = true;
+
+            const [seconds, nanoseconds] = process.hrtime(startTime);
+            this.completeRequest(
+                incoming && completionOnly
+                    ? { ...identity, request: incoming }
+                    : identity,
+                statusCode,
+                (seconds * 1e3 + nanoseconds / 1e6).toFixed(2),
+                exception,
+                sampled ? undefined : { describeIncoming }
+            );
+        };
+    }
+
+    /**
+     * Write the log lines still buffered, then flush and close the
+     * transports (releasing files held by `RotatingFileTransport`).
+     *
+     * Called by Nest on shutdown for the middleware registered through
+     * `RequestLoggerModule` or the providers (requires
+     * `app.enableShutdownHooks()`); call it yourself for instances created
+     * outside the Nest container (`requestLoggerFactory` exposes it as
+     * `shutdown()`). Lines logged afterwards are written
+     * directly.
+     *
+     * @returns {Promise<void>} Resolves once every transport is closed
+     */
+    async onApplicationShutdown(): Promise<void> {
+        this.buffer?.close();
+        await this.transports.flush();
+        await this.transports.close();
+    }
+
+    private createHeaderSanitizer(
+        options: Partial<RequestLoggerOptions>
+    ): HeaderSanitizerFunction {
+        // A custom sanitizer replaces the built-in masking entirely
+        if (options.sanitizeHeaders) {
+            return options.sanitizeHeaders;
+        }
+
+        const headerSanitizer = new HeaderSanitizer(options.sensitiveHeaders, {
+            strategy: options.headerMaskStrategy,
+            partialMask: options.headerPartialMask,
+            hashSalt: options.headerHashSalt,
+            mergeWithDefaults: options.mergeSensitiveHeaders,
+        });
+        return (headers) => headerSanitizer.sanitize(headers);
+    }
+
+    private createFormatter(
+        options: Partial<RequestLoggerOptions>
+    ): LogEntryFormatters {
         // Use custom formatters if provided, otherwise use LogMessageFormatter
         if (options.incomingRequestMessage || options.completedRequestMessage) {
             return {
@@ -180,12 +606,44 @@ export class RequestLoggerMiddleware implements NestMiddleware {
             };
         }
 
-        // Use default LogMessageFormatter
-        const logMessageFormatter = new LogMessageFormatter({
+        const formatterOptions = {
             headerFields: options.headerFields ?? [],
+            responseHeaderFields: options.responseHeaderFields ?? [],
             logRequestBody: options.logRequestBody ?? false,
-            sensitiveHeaders: options.sensitiveHeaders,
-        });
+            // Headers are already sanitized by the middleware before formatting
+            sanitizeHeaders: (headers: Headers): Headers => headers,
+        };
+
+        // Structured output: records as objects or as JSON lines
+        if (
+            options.outputFormat === 'json' ||
+            options.outputFormat === 'object'
+        ) {
+            const structuredFormatter = new StructuredLogFormatter(
+                formatterOptions
+            );
+
+            if (options.outputFormat === 'json') {
+                return {
+                    incoming: (details, timestamp) =>
+                        this.bodySerializer.stringify(
+                            structuredFormatter.incoming(details, timestamp)
+                        ),
+                    completed: (details, timestamp) =>
+                        this.bodySerializer.stringify(
+                            structuredFormatter.completed(details, timestamp)
+                        ),
+                };
+            }
+
+            return {
+                incoming: structuredFormatter.incoming,
+                completed: structuredFormatter.completed,
+            };
+        }
+
+        // Use default LogMessageFormatter
+        const logMessageFormatter = new LogMessageFormatter(formatterOptions);
 
         return {
             incoming: logMessageFormatter.incoming,
@@ -229,6 +687,12 @@ export class RequestLoggerMiddleware implements NestMiddleware {
         return '/';
     }
 
+    private extractFiles(req: Req): unknown {
+        // multer: req.files (array or fields map) or req.file
+        const request = req as unknown as { files?: unknown; file?: unknown };
+        return request.files ?? request.file;
+    }
+
     private extractBody(req: Req): unknown {
         // Express adapter
         if ('body' in req && req.body !== undefined) {
@@ -256,60 +720,357 @@ export class RequestLoggerMiddleware implements NestMiddleware {
         return undefined;
     }
 
-    private logIncomingRequest(
+    private assignRequestId(
         req: Req,
-        method: string,
-        path: string,
-        logger: LoggerService,
-        formatter: { incoming: (details: RequestDetails) => string },
+        res: Res,
+        resolver: RequestIdResolver
+    ): string {
+        const requestId = resolver.resolve(req.headers as Headers);
+
+        // Expose the ID to guards, controllers and other middlewares
+        (req as unknown as Record<string, unknown>).requestId = requestId;
+
+        const responseHeader =
+            this.options.requestIdResponseHeader ?? 'x-request-id';
+        if (responseHeader) {
+            const target = res as unknown as {
+                header?: (name: string, value: string) => unknown;
+                setHeader?: (name: string, value: string) => unknown;
+            };
+            if (
+                'raw' in res &&
+                res.raw &&
+                typeof target.header === 'function'
+            ) {
+                target.header(responseHeader, requestId);
+            } else if (typeof target.setHeader === 'function') {
+                target.setHeader(responseHeader, requestId);
+            }
+        }
+
+        return requestId;
+    }
+
+    private describeIncomingRequest(
+        identity: RequestIdentity,
+        request: Partial<Pick<RequestDetails, 'headers'>> &
+            Pick<RequestDetails, 'body' | 'query' | 'client'> & {
+                files?: unknown;
+            },
         options: Partial<RequestLoggerOptions>
-    ): void {
-        const sanitizedHeaders = this.headerSanitizer.sanitize(
-            (req.headers as Headers) ?? {}
-        );
-        const requestBody = this.extractBody(req);
+    ): RequestDetails {
+        const sanitizedHeaders = this.sanitizeHeaders(request.headers ?? {});
 
-        const message = formatter.incoming({
-            method,
-            path,
+        return {
+            ...identity,
             headers: options.headerFields ? sanitizedHeaders : {},
-            body: options.logRequestBody ? requestBody : undefined,
-        });
+            query: request.query,
+            body: options.logRequestBody
+                ? this.prepareRequestBody(
+                      request.body,
+                      request.headers?.['content-type'],
+                      request.files
+                  )
+                : undefined,
+            client: request.client,
+        };
+    }
+
+    private prepareRequestBody(
+        body: unknown,
+        contentType: unknown,
+        files?: unknown
+    ): unknown {
+        const type = Array.isArray(contentType)
+            ? contentType[0]
+            : String(contentType ?? '');
+        const parsed = this.requestBodyParser.parse(body, type, files);
+
+        // Omitted content types and multipart summaries hold no field values
+        if (parsed.kind === 'omitted' || parsed.kind === 'multipart') {
+            return parsed.body;
+        }
+
+        // Binary payloads are never redacted, serialized or logged
+        const placeholder = this.bodySerializer.placeholder(parsed.body, type);
+        if (placeholder !== undefined) {
+            return placeholder;
+        }
 
-        logger.log(message);
+        const sanitized = this.bodySanitizer.sanitize(parsed.body);
+        return parsed.kind === 'text'
+            ? this.bodySerializer.truncateText(sanitized as string)
+            : this.bodySerializer.truncate(sanitized);
     }
 
     private setupResponseLogging(
+        req: Req,
         res: Res,
-        method: string,
-        path: string,
+        identity: SettledIdentity,
         startTime: [number, number],
-        logger: LoggerService,
-        formatter: { completed: (details: CompletedRequestDetails) => string }
+        readResponseBody?: () => unknown,
+        sampledOut?: SampledOutRequest
     ): void {
-        const onFinish = (): void => {
+        const emitter = this.getResponseEmitter(res);
+        if (!emitter) {
+            return;
+        }
+
+        // Sockets are reused by keep-alive connections: count from here
+        const socket = emitter.socket ?? undefined;
+        const initialBytesWritten = socket?.bytesWritten ?? 0;
+        let settled = false;
+        let kept = !sampledOut;
+        let keptIdentity = identity;
+        const readPayloadSizes = this.payloadSizeTracker?.attach(req, res);
+
+        const settledIdentity = (): SettledIdentity => {
+            const settled: SettledIdentity = { ...keptIdentity };
+            // Express only sets req.route once the router matched the request
+            const route = this.routeNormalizer && RouteNormalizer.template(req);
+            if (route) {
+                settled.route = route;
+            }
+            if (this.options.responseHeaderFields?.length) {
+                settled.responseHeaders = this.sanitizeHeaders(
+                    emitter.getHeaders?.() ?? {}
+                );
+            }
+            if (readPayloadSizes) {
+                Object.assign(settled, readPayloadSizes());
+            }
+            return settled;
+        };
+
+        const elapsed = (): string => {
             const [seconds, nanoseconds] = process.hrtime(startTime);
-            const durationMs = (seconds * 1e3 + nanoseconds / 1e6).toFixed(2);
-            const statusCode = res.statusCode;
+            return (seconds * 1e3 + nanoseconds / 1e6).toFixed(2);
+        };
 
-            const message = formatter.completed({
-                method,
-                path,
-                statusCode,
-                durationMs,
+        const keep = (): void => {
+            if (!kept && sampledOut) {
+                keptIdentity = this.describeSampledOut(identity, sampledOut);
+            }
+            kept = true;
+        };
+
+        const onInFlightTimeout = (): void => {
+            if (settled) {
+                return;
+            }
+            keep();
+            this.writeLog('warn', 'request.in-flight', {
+                ...settledIdentity(),
+                statusCode: res.statusCode,
+                durationMs: elapsed(),
+                outcome: 'in-flight',
             });
+        };
 
-            if (statusCode >= 400) {
-                logger.error(message);
-            } else {
-                logger.log(message);
+        const timer =
+            this.options.inFlightTimeoutMs !== undefined
+                ? setTimeout(onInFlightTimeout, this.options.inFlightTimeoutMs)
+                : undefined;
+        // The timer must never keep the process alive
+        timer?.unref?.();
+
+        const settle = (): boolean => {
+            if (settled) {
+                return false;
             }
+            settled = true;
+            if (timer) {
+                clearTimeout(timer);
+            }
+            return true;
         };
 
+        const onFinish = (): void => {
+            if (!settle()) {
+                return;
+            }
+
+            this.completeRequest(
+                settledIdentity(),
+                res.statusCode,
+                elapsed(),
+                RequestExceptionRecorder.get(req),
+                kept ? undefined : sampledOut,
+                readResponseBody
+            );
+        };
+
+        const onAbort = (reason: string): void => {
+            if (!settle()) {
+                return;
+            }
+            const durationMs = elapsed();
+
+            // Sampled-out aborts are kept like errors (alwaysLogErrors)
+            if (
+                !kept &&
+                !this.sampler?.shouldAlwaysLog(
+                    res.statusCode,
+                    Number(durationMs),
+                    true
+                )
+            ) {
+                return;
+            }
+            keep();
+
+            const details: CompletedRequestDetails = {
+                ...settledIdentity(),
+                statusCode: res.statusCode,
+                durationMs,
+                outcome: 'aborted',
+                abortReason: reason,
+            };
+            if (socket) {
+                details.bytesSent = socket.bytesWritten - initialBytesWritten;
+            }
+            this.attachException(RequestExceptionRecorder.get(req), details);
+
+            this.writeLog('warn', 'request.aborted', details);
+        };
+
+        emitter.once('finish', onFinish);
+        emitter.once('close', () => {
+            if (emitter.writableFinished) {
+                onFinish();
+            } else {
+                onAbort('client closed connection');
+            }
+        });
+        emitter.once('error', (error: unknown) => {
+            onAbort(
+                error instanceof Error
+                    ? error.message
+                    : String(error ?? 'response error')
+            );
+        });
+    }
+
+    private describeSampledOut(
+        identity: SettledIdentity,
+        sampledOut: SampledOutRequest
+    ): SettledIdentity {
+        // Sampled-out request kept by an override: emit the held incoming
+        // line, or attach it to the completed line in completion-only mode
+        const incoming = sampledOut.describeIncoming();
+        if (this.options.mode === 'completion-only') {
+            return { ...identity, request: incoming };
+        }
+
+        this.writeLog(
+            this.options.incomingRequestLevel ?? 'log',
+            'request.incoming',
+            incoming
+        );
+        return identity;
+    }
+
+    private getResponseEmitter(res: Res): ResponseEmitter | undefined {
         if ('raw' in res && res.raw) {
-            res.raw.once('finish', onFinish);
-        } else if ('once' in res && typeof res.once === 'function') {
-            res.once('finish', onFinish);
+            return res.raw as unknown as ResponseEmitter;
+        }
+        if ('once' in res && typeof res.once === 'function') {
+            return res as unknown as ResponseEmitter;
+        }
+        return undefined;
+    }
+
+    private completeRequest(
+        identity: SettledIdentity,
+        statusCode: number,
+        durationMs: string,
+        exception: unknown,
+        sampledOut?: SampledOutRequest,
+        readResponseBody?: () => unknown
+    ): void {
+        const slow =
+            this.slowRequestDetector?.isSlow(
+                identity.path,
+                identity.method,
+                Number(durationMs)
+            ) ?? false;
+
+        if (sampledOut) {
+            if (
+                !slow &&
+                !this.sampler?.shouldAlwaysLog(statusCode, Number(durationMs))
+            ) {
+                return;
+            }
+        }
+
+        const details: CompletedRequestDetails = {
+            ...(sampledOut
+                ? this.describeSampledOut(identity, sampledOut)
+                : identity),
+            statusCode,
+            durationMs,
+            outcome: 'completed',
+            responseData: this.bodySerializer.truncate(readResponseBody?.()),
+        };
+        if (slow) {
+            details.slow = true;
+        }
+        this.attachException(exception, details);
+
+        this.writeLog(
+            this.levelResolver.resolve(details),
+            'request.completed',
+            details
+        );
+
+        if (slow && this.options.onSlowRequest) {
+            this.notifySlowRequest(details, this.logger);
+        }
+    }
+
+    private attachException(
+        exception: unknown,
+        details: CompletedRequestDetails
+    ): void {
+        if (exception === undefined) {
+            return;
+        }
+
+        const error = RequestExceptionRecorder.describe(
+            exception,
+            this.options.logErrorStack
+        );
+        if (error.response !== undefined) {
+            error.response = this.bodySanitizer.sanitize(error.response);
+        }
+        details.error = error;
+    }
+
+    private writeLog(
+        level: LogLevel,
+        event: RequestLogEvent,
+        details: RequestDetails | CompletedRequestDetails
+    ): void {
+        // Formatting happens per transport format, in the dispatcher
+        if (this.buffer) {
+            this.buffer.enqueue({ level, event, details }, this.dispatchLine);
+        } else {
+            this.transports.dispatch({ level, event, details });
+        }
+    }
+
+    private notifySlowRequest(
+        details: CompletedRequestDetails,
+        logger: LoggerService
+    ): void {
+        try {
+            this.options.onSlowRequest?.(details);
+        } catch (error) {
+            // A failing hook must never break response handling
+            logger.error(
+                `onSlowRequest hook failed: ${error instanceof Error ? error.message : String(error)}`
+            );
         }
     }
 }
@@ -0,0 +1,8 @@
+/**
+ * @file Modules Export Hub
+ * @description Central export for all NestJS modules
+ * @author samofprog
+ * @license MIT
+ */
+
+export { RequestLoggerModule } from './request-logger.module';
@@ -0,0 +1,175 @@
+/**
+ * @file Request Logger Module
+ * @description NestJS dynamic module that registers and applies the request logger middleware
+ * @author samofprog
+ * @license MIT
+ *
+ * This module wraps the provider factories and wires RequestLoggerMiddleware
+ * through the MiddlewareConsumer, so consumers no longer need to implement
+ * `NestModule.configure()` themselves.
+ */
+
+import {
+    DynamicModule,
+    Inject,
+    MiddlewareConsumer,
+    Module,
+    NestModule,
+} from '@nestjs/common';
+import {
+    RequestLoggerAsyncOptions,
+    RequestLoggerModuleConfig,
+    RequestLoggerModuleOptions,
+    Req,
+    Res,
+} from '../types';
+import {
+    REQUEST_LOGGER_MODULE_CONFIG,
+    REQUEST_LOGGER_OPTIONS,
+} from '../constants';
+import { RequestLoggerMiddleware } from '../middlewares';
+import {
+    createRequestLoggerAsyncProviders,
+    createRequestLoggerProviders,
+} from '../providers';
+
+/**
+ * Dynamic module for the request logger.
+ *
+ * Registers the REQUEST_LOGGER_OPTIONS provider and the middleware, then applies
+ * the middleware to the configured routes (all routes by default).
+ *
+ * @class RequestLoggerModule
+ * @implements {NestModule}
+ *
+ * @example
+ * ```typescript
+ * @Module({
+ *   imports: [
+ *     RequestLoggerModule.forRoot({
+ *       headerFields: ['content-type'],
+ *       ignorePaths: ['/health'],
+ *       exclude: ['metrics'],
+ *     }),
+ *   ],
+ * })
+ * export class AppModule {}
+ * ```
+ *
+ * @example
+ * ```typescript
+ * @Module({
+ *   imports: [
+ *     RequestLoggerModule.forRootAsync({
+ *       imports: [ConfigModule],
+ *       useFactory: (config: ConfigService) => ({
+ *         logRequestBody: config.get('LOG_BODY') === 'true',
+ *       }),
+ *       inject: [ConfigService],
+ *       isGlobal: true,
+ *     }),
+ *   ],
+ * })
+ * export class AppModule {}
+ * ```
+ */
+@Module({})
+export class RequestLoggerModule implements NestModule {
+    constructor(
+        @Inject(REQUEST_LOGGER_MODULE_CONFIG)
+        private readonly config: RequestLoggerModuleConfig,
+        private readonly middleware: RequestLoggerMiddleware
+    ) {}
+
+    /**
+     * Register the module with static options.
+     *
+     * @param {RequestLoggerModuleOptions & RequestLoggerModuleConfig} [options={}] - Logger options plus route wiring
+     * @returns {DynamicModule} Configured dynamic module
+     */
+    static forRoot(
+        options: RequestLoggerModuleOptions & RequestLoggerModuleConfig = {}
+    ): DynamicModule {
+        const {
+            isGlobal,
+            applyMiddleware,
+            forRoutes,
+            exclude,
+            ...loggerOptions
+        } = options;
+
+        return {
+            module: RequestLoggerModule,
+            global: isGlobal ?? false,
+            providers: [
+                ...createRequestLoggerProviders(loggerOptions),
+                {
+                    provide: REQUEST_LOGGER_MODULE_CONFIG,
+                    useValue: { applyMiddleware, forRoutes, exclude },
+                },
+            ],
+            exports: [REQUEST_LOGGER_OPTIONS],
+        };
+    }
+
+    /**
+     * Register the module with options resolved at runtime through
+     * `useFactory`, `useClass` or `useExisting`.
+     *
+     * @param {RequestLoggerAsyncOptions & RequestLoggerModuleConfig} options - Async options plus route wiring
+     * @returns {DynamicModule} Configured dynamic module
+     */
+    static forRootAsync(
+        options: RequestLoggerAsyncOptions & RequestLoggerModuleConfig
+    ): DynamicModule {
+        const {
+            isGlobal,
+            applyMiddleware,
+            forRoutes,
+            exclude,
+            ...asyncOptions
+        } = options;
+
+        return {
+            module: RequestLoggerModule,
+            global: isGlobal ?? false,
+            imports: asyncOptions.imports ?? [],
+            providers: [
+                ...createRequestLoggerAsyncProviders(asyncOptions),
+                {
+                    provide: REQUEST_LOGGER_MODULE_CONFIG,
+                    useValue: { applyMiddleware, forRoutes, exclude },
+                },
+            ],
+            exports: [REQUEST_LOGGER_OPTIONS],
+        };
+    }
+
+    /**
+     * Apply RequestLoggerMiddleware to the configured routes
+     * (skipped when `applyMiddleware` is false).
+     *
+     * The provider instance is applied as a function, so Nest does not build
+     * a second instance (with its own buffer) for the middleware consumer.
+     *
+     * @param {MiddlewareConsumer} consumer - NestJS middleware consumer
+     */
+    configure(consumer: MiddlewareConsumer): void {
+        if (this.config.applyMiddleware === false) {
+            return;
+        }
+
+        const forRoutes = this.config.forRoutes?.length
+            ? this.config.forRoutes
+            : ['*'];
+        const proxy = consumer.apply((req: Req, res: Res, next: () => void) =>
+            this.middleware.use(req, res, next)
+        );
+
+        if (this.config.exclude?.length) {
+            proxy.exclude(...this.config.exclude);
+        }
+
+        proxy.forRoutes(...forRoutes);
+    }
+}
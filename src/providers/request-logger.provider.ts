@@ -13,6 +13,7 @@ import { Provider } from '@nestjs/common';
 import {
     RequestLoggerAsyncOptions,
     RequestLoggerModuleOptions,
+    RequestLoggerOptionsFactory,
 } from '../types';
 import { REQUEST_LOGGER_OPTIONS } from '../constants';
 import { RequestLoggerMiddleware } from '../middlewares';
@@ -35,7 +36,7 @@ import { RequestLoggerMiddleware } from '../middlewares';
  * @param {RequestLoggerModuleOptions} [options={}] - Static configuration options
  * @param {boolean} [options.logHeaders=false] - Whether to log request headers
  * @param {boolean} [options.logRequestBody=false] - Whether to log request body
- * @param {string[]} [options.ignorePaths=[]] - Paths to ignore from logging
+ * @param {IgnorePathRule[]} [options.ignorePaths=[]] - Paths, RegExps, method rules or predicates to ignore
  * @param {string[]} [options.sensitiveHeaders] - Custom list of sensitive headers to mask
  * @param {LoggerService} [options.logger] - Custom logger service instance
  * @returns {Provider[]} Array of NestJS providers
@@ -103,8 +104,10 @@ export function createRequestLoggerProviders(
  * 4. Returns both providers to be registered in your module
  *
  * @param {RequestLoggerAsyncOptions} options - Async configuration options
- * @param {Function} options.useFactory - Factory function that returns logger options or a Promise
+ * @param {Function} [options.useFactory] - Factory function that returns logger options or a Promise
  * @param {InjectionToken[]} [options.inject=[]] - Array of tokens for services to inject into useFactory
+ * @param {Type} [options.useClass] - Class implementing `RequestLoggerOptionsFactory`, instantiated by the module
+ * @param {Type} [options.useExisting] - Already registered provider implementing `RequestLoggerOptionsFactory`
  * @returns {Provider[]} Array of NestJS async providers
  *
  * @example
@@ -158,17 +161,74 @@ export function createRequestLoggerProviders(
  * export class AppModule {}
  * ```
  *
+ * @example
+ * ```typescript
+ * // With an options factory class
+ * @Injectable()
+ * export class LoggerConfigService implements RequestLoggerOptionsFactory {
+ *   createRequestLoggerOptions() {
+ *     return { ignorePaths: ['/health'] };
+ *   }
+ * }
+ *
+ * @Module({
+ *   providers: [
+ *     ...createRequestLoggerAsyncProviders({ useClass: LoggerConfigService }),
+ *   ],
+ * })
+ * export class AppModule {}
+ * ```
+ *
  * @see {@link createRequestLoggerProviders} for synchronous configuration
  */
 export function createRequestLoggerAsyncProviders(
     options: RequestLoggerAsyncOptions
 ): Provider[] {
-    return [
+    return [...createAsyncOptionsProviders(options), RequestLoggerMiddleware];
+}
+
+/**
+ * Builds the providers resolving REQUEST_LOGGER_OPTIONS from
+ * `useFactory`, `useClass` or `useExisting`.
+ *
+ * @private
+ */
+function createAsyncOptionsProviders(
+    options: RequestLoggerAsyncOptions
+): Provider[] {
+    if (options.useFactory) {
+        return [
+            {
+                provide: REQUEST_LOGGER_OPTIONS,
+                useFactory: options.useFactory,
+                inject: options.inject || [],
+            },
+        ];
+    }
+
+    const optionsFactory = options.useClass ?? options.useExisting;
+    if (!optionsFactory) {
+        throw new Error(
+            'RequestLoggerAsyncOptions requires one of useFactory, useClass or useExisting'
+        );
+    }
+
+    const providers: Provider[] = [
         {
             provide: REQUEST_LOGGER_OPTIONS,
-            useFactory: options.useFactory,
-            inject: options.inject || [],
+            useFactory: (factory: RequestLoggerOptionsFactory) =>
+                factory.createRequestLoggerOptions(),
+            inject: [optionsFactory],
         },
-        RequestLoggerMiddleware,
     ];
+
+    // useExisting reuses a provider registered elsewhere; useClass registers it here
+    if (options.useClass) {
+        providers.push({
+            provide: options.useClass,
+            useClass: options.useClass,
+        });
+    }
+
+    return providers;
 }
@@ -0,0 +1,29 @@
+/**
+ * @file Body Sanitizer Types
+ * @description Type definitions for request/response body redaction
+ * @author samofprog
+ * @license MIT
+ */
+
+/**
+ * Function signature for body sanitization
+ * Takes a body payload and returns a redacted copy
+ */
+export type BodySanitizerFunction = (body: unknown) => unknown;
+
+/**
+ * Body sanitizer options.
+ *
+ * @property {string[]} [sensitiveKeys] - Keys redacted at any depth (case-insensitive, `-`/`_` ignored)
+ * @property {string[]} [sensitivePaths] - Dot paths with `*` wildcards (e.g. `user.*.ssn`)
+ * @property {RegExp[]} [sensitivePatterns] - Patterns redacted inside string values
+ * @property {string} [replacement='[REDACTED]'] - Replacement for redacted values
+ * @property {number} [partialMask] - Keep the last N characters of pattern matches visible (`****1234`); key and path matches are always fully replaced
+ */
+export interface BodySanitizerOptions {
+    sensitiveKeys?: readonly string[];
+    sensitivePaths?: string[];
+    sensitivePatterns?: RegExp[];
+    replacement?: string;
+    partialMask?: number;
+}
@@ -0,0 +1,17 @@
+/**
+ * @file Body Serializer Types
+ * @description Type definitions for logged body serialization and truncation
+ * @author samofprog
+ * @license MIT
+ */
+
+/**
+ * Body serializer options.
+ *
+ * @property {number} [maxLength] - Maximum logged body size in bytes (unlimited when absent)
+ * @property {string[]} [binaryContentTypes] - Content types replaced by a placeholder (supports wildcards: image/*)
+ */
+export interface BodySerializerOptions {
+    maxLength?: number;
+    binaryContentTypes?: readonly string[];
+}
@@ -0,0 +1,93 @@
+/**
+ * @file Client Metadata Types
+ * @description Type definitions for client IP, connection and user agent details
+ * @author samofprog
+ * @license MIT
+ */
+
+/**
+ * Client metadata field that can be enabled individually
+ */
+export type ClientMetadataField =
+    | 'ip'
+    | 'forwardedFor'
+    | 'httpVersion'
+    | 'protocol'
+    | 'host'
+    | 'userAgent';
+
+/**
+ * Proxies trusted to report the client address through `forwarded` /
+ * `x-forwarded-for`, `x-forwarded-proto` and `x-forwarded-host`.
+ *
+ * - `true`: trust every hop (the client is the left-most forwarded address)
+ * - number: trust that many hops in front of the server
+ * - string[]: trusted addresses or CIDR ranges (`10.0.0.0/8`, `fd00::/8`),
+ *   plus the presets `loopback`, `linklocal` and `uniquelocal`
+ * - function: `(address, hop) => boolean`, hop 0 being the socket peer
+ */
+export type TrustProxy =
+    | boolean
+    | number
+    | string[]
+    | ((address: string, hop: number) => boolean);
+
+/**
+ * Parsed user agent.
+ *
+ * @property {string} [browser] - Browser or client name (`Chrome`, `Firefox`, `curl`)
+ * @property {string} [browserVersion] - Browser version
+ * @property {string} [os] - Operating system (`Windows`, `macOS`, `iOS`, `Android`, `Linux`)
+ * @property {string} [osVersion] - Operating system version
+ * @property {boolean} bot - True for crawlers, monitoring agents and HTTP libraries
+ */
+export interface UserAgentDetails {
+    browser?: string;
+    browserVersion?: string;
+    os?: string;
+    osVersion?: string;
+    bot: boolean;
+}
+
+/**
+ * Client metadata of a request.
+ *
+ * @property {string} [ip] - Client address (resolved through trusted proxies, optionally anonymized)
+ * @property {string[]} [forwardedFor] - Forwarded chain, client first, as sent by the proxies
+ * @property {string} [httpVersion] - HTTP version (`1.1`, `2.0`)
+ * @property {string} [protocol] - `http` or `https`
+ * @property {string} [host] - Requested host
+ * @property {UserAgentDetails} [userAgent] - Parsed `user-agent` header
+ *
+ * @example
+ * ```typescript
+ * const client: ClientMetadata = {
+ *   ip: '203.0.113.0',
+ *   httpVersion: '1.1',
+ *   protocol: 'https',
+ *   host: 'api.example.com',
+ *   userAgent: { browser: 'Chrome', browserVersion: '120.0.0.0', os: 'macOS', bot: false },
+ * };
+ * ```
+ */
+export interface ClientMetadata {
+    ip?: string;
+    forwardedFor?: string[];
+    httpVersion?: string;
+    protocol?: string;
+    host?: string;
+    userAgent?: UserAgentDetails;
+}
+
+/**
+ * Client metadata extractor options.
+ *
+ * @property {ClientMetadataField[]} [fields] - Fields to extract (all by default)
+ * @property {TrustProxy} [trustProxy=false] - Proxies trusted to forward client details
+ * @property {boolean} [anonymizeIp=false] - Zero the last IPv4 octet / last 80 IPv6 bits
+ */
+export interface ClientMetadataExtractorOptions {
+    fields?: ClientMetadataField[];
+    trustProxy?: TrustProxy;
+    anonymizeIp?: boolean;
+}
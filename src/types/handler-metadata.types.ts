@@ -0,0 +1,28 @@
+/**
+ * @file Handler Metadata Types
+ * @description Type definitions for the route handler a request was dispatched to
+ * @author samofprog
+ * @license MIT
+ */
+
+/**
+ * Route handler metadata resolved by `RequestLoggerInterceptor`.
+ *
+ * @property {string} [route] - Matched route template (`/users/:id`), RPC pattern or GraphQL field
+ * @property {string} [controller] - Controller or resolver class name
+ * @property {string} [handler] - Handler method name
+ *
+ * @example
+ * ```typescript
+ * const metadata: RequestHandlerMetadata = {
+ *   route: '/users/:id',
+ *   controller: 'UsersController',
+ *   handler: 'findOne',
+ * };
+ * ```
+ */
+export interface RequestHandlerMetadata {
+    route?: string;
+    controller?: string;
+    handler?: string;
+}
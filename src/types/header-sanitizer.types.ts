@@ -12,3 +12,33 @@ import { Headers } from './headers.types';
  * Takes headers object and returns sanitized version
  */
 export type HeaderSanitizerFunction = (headers: Headers) => Headers;
+
+/**
+ * Strategy used to mask the value of a sensitive header.
+ *
+ * - `redact`: replace the value with `[REDACTED]`
+ * - `partial`: keep the last characters visible (`****a1b2`)
+ * - `hash`: replace the value with a truncated SHA-256 digest, so the same
+ *   token can be correlated across requests without being readable
+ * - function: custom masking `(value, headerName) => maskedValue`
+ */
+export type HeaderMaskStrategy =
+    | 'redact'
+    | 'partial'
+    | 'hash'
+    | ((value: unknown, headerName: string) => unknown);
+
+/**
+ * Header sanitizer options.
+ *
+ * @property {HeaderMaskStrategy} [strategy='redact'] - How sensitive values are masked
+ * @property {number} [partialMask=4] - Visible trailing characters for the `partial` strategy (values are fully redacted unless it is a positive integer)
+ * @property {string} [hashSalt=''] - Salt prepended to values before hashing
+ * @property {boolean} [mergeWithDefaults=false] - Extend `DEFAULT_SENSITIVE_HEADERS` instead of replacing it
+ */
+export interface HeaderSanitizerOptions {
+    strategy?: HeaderMaskStrategy;
+    partialMask?: number;
+    hashSalt?: string;
+    mergeWithDefaults?: boolean;
+}
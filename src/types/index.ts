@@ -11,27 +11,117 @@ export type { Req, Res, ExpressRes, FastifyRes } from './req-res.types';
 // Data structure types
 export type { Headers } from './headers.types';
 export type { RequestDetails } from './request-details.types';
-export type { CompletedRequestDetails } from './response-details.types';
-export type { PathPattern } from './path-pattern.types';
+export type { RequestContextStore } from './request-context.types';
+export type {
+    CompletedRequestDetails,
+    RequestOutcome,
+} from './response-details.types';
+export type { RequestErrorDetails } from './request-error.types';
+export type { RequestHandlerMetadata } from './handler-metadata.types';
+export type {
+    PathPattern,
+    PathRule,
+    PathPredicate,
+    IgnorePathRule,
+} from './path-pattern.types';
+export type {
+    RequestLogRecord,
+    RequestLogEvent,
+    LogOutputFormat,
+    LogMode,
+} from './request-log-record.types';
 
 // Configuration types
 export type {
     RequestLoggerOptions,
     RequestLoggerModuleOptions,
     RequestLoggerAsyncOptions,
+    RequestLoggerOptionsFactory,
+    RequestLoggerModuleConfig,
     SanitizerConfig,
     FormatterConfig,
     PathMatcherConfig,
     LoggerConfig,
+    ResponseBodyConfig,
+    RequestIdConfig,
+    RequestContextConfig,
+    SamplingConfig,
+    SlowRequestConfig,
+    LogLevelConfig,
+    InFlightConfig,
+    ErrorLoggingConfig,
+    RouteNormalizationConfig,
+    QueryConfig,
+    ClientMetadataConfig,
+    PayloadSizeConfig,
+    BodyLoggingConfig,
+    TransportConfig,
+    BufferConfig,
 } from './request-logger-options.types';
+export type { RequestLoggerHandler } from './request-logger-handler.types';
 
 // Utility types
+export type { RequestIdGenerator } from './request-id.types';
+export type { SampleRateRule, RequestSamplerOptions } from './sampling.types';
+export type {
+    StatusClass,
+    StatusLevelMap,
+    LevelForStatusFunction,
+    LevelForStatus,
+    RouteLogLevelRule,
+} from './log-level.types';
+export type {
+    SlowRequestThresholdRule,
+    SlowRequestHook,
+} from './slow-request.types';
+export type { RoutePlaceholderRule } from './route-normalization.types';
+export type {
+    QueryParams,
+    QuerySanitizerOptions,
+} from './query-sanitizer.types';
+export type {
+    ClientMetadataField,
+    TrustProxy,
+    UserAgentDetails,
+    ClientMetadata,
+    ClientMetadataExtractorOptions,
+} from './client-metadata.types';
+export type { PayloadSizes } from './payload-size.types';
 export type { PathMatcherFunction } from './path-matcher.types';
 export type { HeaderFieldExtractorFunction } from './header-field-extractor.types';
-export type { HeaderSanitizerFunction } from './header-sanitizer.types';
+export type {
+    HeaderSanitizerFunction,
+    HeaderMaskStrategy,
+    HeaderSanitizerOptions,
+} from './header-sanitizer.types';
+export type {
+    BodySanitizerFunction,
+    BodySanitizerOptions,
+} from './body-sanitizer.types';
+export type { BodySerializerOptions } from './body-serializer.types';
+export type {
+    MultipartFileSummary,
+    MultipartSummary,
+    ParsedRequestBody,
+    RequestBodyParserOptions,
+} from './request-body.types';
+export type {
+    LogTransportEvent,
+    LogTransportEntry,
+    LogTransportFormat,
+    LogTransport,
+    LogTransportOptions,
+    StdoutTransportOptions,
+    RotatingFileTransportOptions,
+    MemoryTransportOptions,
+    LogTransportDispatcherOptions,
+} from './log-transport.types';
+export type { LogBufferOverflow, LogBufferOptions } from './log-buffer.types';
 export type { NestedExtractorFunction } from './nested-extractor.types';
 export type {
     IncomingRequestFormatter,
     CompletedRequestFormatter,
     MessageFormatters,
+    StructuredMessageFormatters,
+    LogEntryFormatters,
 } from './message-formatter.types';
@@ -0,0 +1,40 @@
+/**
+ * @file Log Buffer Types
+ * @description Type definitions for asynchronous buffered logging
+ * @author samofprog
+ * @license MIT
+ */
+
+/**
+ * What happens to a new line when the buffer is full.
+ *
+ * - `drop-oldest`: the oldest queued line is dropped (default)
+ * - `drop-new`: the new line is dropped
+ * - `block`: a batch is written synchronously to make room, on the request path
+ */
+export type LogBufferOverflow = 'drop-oldest' | 'drop-new' | 'block';
+
+/**
+ * Log buffer options.
+ *
+ * @property {number} [maxBatchSize=100] - Queued lines that trigger a flush, and lines written per batch
+ * @property {number} [flushIntervalMs=1000] - Interval between flushes of the queued lines
+ * @property {number} [maxQueueSize=10000] - Lines queued before `overflow` applies
+ * @property {LogBufferOverflow} [overflow='drop-oldest'] - Backpressure policy when the queue is full
+ *
+ * @example
+ * ```typescript
+ * const options: LogBufferOptions = {
+ *   maxBatchSize: 500,
+ *   flushIntervalMs: 2000,
+ *   maxQueueSize: 50000,
+ *   overflow: 'drop-new',
+ * };
+ * ```
+ */
+export interface LogBufferOptions {
+    maxBatchSize?: number;
+    flushIntervalMs?: number;
+    maxQueueSize?: number;
+    overflow?: LogBufferOverflow;
+}
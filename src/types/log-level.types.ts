@@ -0,0 +1,63 @@
+/**
+ * @file Log Level Types
+ * @description Type definitions for mapping completed requests to log levels
+ * @author samofprog
+ * @license MIT
+ */
+
+import { LogLevel } from '@nestjs/common';
+import { PathPattern } from './path-pattern.types';
+import { CompletedRequestDetails } from './response-details.types';
+
+/**
+ * HTTP status code class
+ */
+export type StatusClass = '1xx' | '2xx' | '3xx' | '4xx' | '5xx';
+
+/**
+ * Log level per status class or exact status code.
+ * Exact codes win over classes; unmapped statuses use the default levels
+ * (`log` below 400, `error` from 400).
+ *
+ * @example
+ * ```typescript
+ * const levels: StatusLevelMap = {
+ *   '2xx': 'log',
+ *   '3xx': 'debug',
+ *   '4xx': 'warn',
+ *   '404': 'debug',
+ *   '5xx': 'error',
+ * };
+ * ```
+ */
+export type StatusLevelMap = Partial<
+    Record<StatusClass | `${number}`, LogLevel>
+>;
+
+/**
+ * Function returning the log level of a completed request
+ */
+export type LevelForStatusFunction = (
+    details: CompletedRequestDetails
+) => LogLevel;
+
+/**
+ * Log level configuration for completed requests:
+ * a fixed level, a status map or a function
+ */
+export type LevelForStatus = LogLevel | StatusLevelMap | LevelForStatusFunction;
+
+/**
+ * Per-route log level override.
+ * The first matching rule wins; `method` restricts the rule to HTTP methods.
+ *
+ * @example
+ * ```typescript
+ * const rule: RouteLogLevelRule = { path: '/health', level: 'debug' };
+ * ```
+ */
+export interface RouteLogLevelRule {
+    method?: string | string[];
+    path: PathPattern;
+    level: LevelForStatus;
+}
@@ -0,0 +1,142 @@
+/**
+ * @file Log Transport Types
+ * @description Type definitions for the destinations request log lines are written to
+ * @author samofprog
+ * @license MIT
+ */
+
+import { LogLevel } from '@nestjs/common';
+import { RequestDetails } from './request-details.types';
+import { CompletedRequestDetails } from './response-details.types';
+import { LogOutputFormat, RequestLogEvent } from './request-log-record.types';
+import { LogEntryFormatters } from './message-formatter.types';
+
+/**
+ * Request log line before formatting.
+ *
+ * @property {LogLevel} level - Level resolved by the logger
+ * @property {RequestLogEvent} event - Lifecycle event of the line
+ * @property {RequestDetails | CompletedRequestDetails} details - Sanitized details of the request
+ * @property {number} [timestamp] - Epoch milliseconds at which the line was logged (set for buffered lines)
+ */
+export interface LogTransportEvent {
+    level: LogLevel;
+    event: RequestLogEvent;
+    details: RequestDetails | CompletedRequestDetails;
+    timestamp?: number;
+}
+
+/**
+ * Request log line handed to a transport.
+ *
+ * @property {unknown} message - Line formatted with the transport's `format`
+ *
+ * @example
+ * ```typescript
+ * const entry: LogTransportEntry = {
+ *   level: 'log',
+ *   event: 'request.completed',
+ *   details: { method: 'GET', path: '/users', statusCode: 200, durationMs: '12.34' },
+ *   message: 'Request completed: method=GET path=/users statusCode=200 durationMs=12.34',
+ * };
+ * ```
+ */
+export interface LogTransportEntry extends LogTransportEvent {
+    message: unknown;
+}
+
+/**
+ * Per-transport formatter.
+ *
+ * - `text`, `json`, `object`: the built-in formatters (see `LogOutputFormat`)
+ * - function: builds the message from the unformatted line
+ *
+ * Transports without a format receive the line formatted like the
+ * `LoggerService` output (`outputFormat` and custom message formatters).
+ */
+export type LogTransportFormat =
+    | LogOutputFormat
+    | ((event: LogTransportEvent) => unknown);
+
+/**
+ * Destination of request log lines.
+ *
+ * `write` may be synchronous or return a promise; thrown errors and rejected
+ * promises are reported through the `logger` and never reach the request.
+ *
+ * @property {LogLevel} [level] - Minimum level written (`verbose` < `debug` < `log` < `warn` < `error` < `fatal`); all levels by default
+ * @property {LogTransportFormat} [format] - Formatter of the lines written to this transport
+ *
+ * @example
+ * ```typescript
+ * const queueTransport: LogTransport = {
+ *   level: 'warn',
+ *   format: 'object',
+ *   write: (entry) => queue.add('request-log', entry.message),
+ * };
+ * ```
+ */
+export interface LogTransport {
+    level?: LogLevel;
+    format?: LogTransportFormat;
+    write(entry: LogTransportEntry): void | Promise<void>;
+    flush?(): void | Promise<void>;
+    close?(): void | Promise<void>;
+}
+
+/**
+ * Options shared by the built-in transports.
+ *
+ * @property {LogLevel} [level] - Minimum level written
+ * @property {LogTransportFormat} [format] - Formatter of the lines written
+ */
+export interface LogTransportOptions {
+    level?: LogLevel;
+    format?: LogTransportFormat;
+}
+
+/**
+ * Stdout transport options.
+ *
+ * @property {Object} [stream=process.stdout] - Stream the lines are written to
+ */
+export interface StdoutTransportOptions extends LogTransportOptions {
+    stream?: { write(chunk: string): unknown };
+}
+
+/**
+ * Rotating file transport options.
+ *
+ * @property {string} filename - Path of the active log file
+ * @property {number} [maxSize=10485760] - Size in bytes at which the file is rotated
+ * @property {number} [maxFiles=5] - Rotated files kept (`app.log.1` being the most recent)
+ */
+export interface RotatingFileTransportOptions extends LogTransportOptions {
+    filename: string;
+    maxSize?: number;
+    maxFiles?: number;
+}
+
+/**
+ * In-memory transport options.
+ *
+ * @property {number} [maxEntries] - Entries kept, oldest dropped first; unbounded by default
+ */
+export interface MemoryTransportOptions extends LogTransportOptions {
+    maxEntries?: number;
+}
+
+/**
+ * Log transport dispatcher options.
+ *
+ * @property {LogTransport[]} transports - Transports every line is fanned out to
+ * @property {LogEntryFormatters} formatter - Formatters of transports without a `format`
+ * @property {Function} formatterFor - Builds the built-in formatters of an output format
+ * @property {Function} [onError] - Called when a transport throws or rejects
+ */
+export interface LogTransportDispatcherOptions {
+    transports: LogTransport[];
+    formatter: LogEntryFormatters;
+    formatterFor: (format: LogOutputFormat) => LogEntryFormatters;
+    onError?: (error: unknown, transport: LogTransport) => void;
+}
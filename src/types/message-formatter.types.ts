@@ -5,7 +5,11 @@
  * @license MIT
  */
 
-import { RequestDetails, CompletedRequestDetails } from './index';
+import {
+    RequestDetails,
+    CompletedRequestDetails,
+    RequestLogRecord,
+} from './index';
 
 /**
  * Function signature for incoming request message formatting
@@ -28,3 +32,30 @@ export interface MessageFormatters {
     incoming: IncomingRequestFormatter;
     completed: CompletedRequestFormatter;
 }
+
+/**
+ * Formatter functions producing structured records instead of strings
+ */
+export interface StructuredMessageFormatters {
+    incoming: (details: RequestDetails, timestamp?: number) => RequestLogRecord;
+    completed: (
+        details: CompletedRequestDetails,
+        timestamp?: number
+    ) => RequestLogRecord;
+}
+
+/**
+ * Formatter functions used by the middleware, producing either
+ * text messages or structured records depending on `outputFormat`
+ * (`timestamp` is the time the line was logged, for buffered lines)
+ */
+export interface LogEntryFormatters {
+    incoming: (
+        details: RequestDetails,
+        timestamp?: number
+    ) => string | RequestLogRecord;
+    completed: (
+        details: CompletedRequestDetails,
+        timestamp?: number
+    ) => string | RequestLogRecord;
+}
@@ -1,25 +1,54 @@
 /**
  * @file Path Pattern Type Definition
- * @description Type for URL/path matching patterns
+ * @description Types for URL/path matching patterns and ignore rules
  * @author samofprog
  * @license MIT
  */
 
+import { Req } from './req-res.types';
+
 /**
  * Path pattern type for URL matching.
  * Supports both exact string matching and regex patterns.
  *
  * Examples:
- * - string: '/health' matches any URL containing '/health'
+ * - string: '/health' matches the '/health' path exactly
+ * - string with wildcards: '/static/*', '/api/**\/health'
+ * - string with Express params: '/users/:id'
  * - RegExp: for complex pattern matching like API version patterns
  *
  * @example
  * ```typescript
  * const patterns: PathPattern[] = [
- *   '/health',           // String: exact substring match
+ *   '/health',           // String: exact match
  *   '/static/*',         // String with wildcard
+ *   '/users/:id',        // Express-style parameter (one segment)
  *   /^\/api\/v\d+\//    // RegExp: complex pattern
  * ];
  * ```
  */
 export type PathPattern = string | RegExp;
+
+/**
+ * Method-qualified path rule.
+ * Only requests whose method is listed are matched (all methods when omitted).
+ *
+ * @example
+ * ```typescript
+ * const rule: PathRule = { method: 'GET', path: '/health' };
+ * ```
+ */
+export interface PathRule {
+    method?: string | string[];
+    path: PathPattern;
+}
+
+/**
+ * Predicate deciding whether a request matches, for arbitrary skip logic
+ */
+export type PathPredicate = (req: Req) => boolean;
+
+/**
+ * Entry accepted by `ignorePaths`
+ */
+export type IgnorePathRule = PathPattern | PathRule | PathPredicate;
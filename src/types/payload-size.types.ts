@@ -0,0 +1,22 @@
+/**
+ * @file Payload Size Types
+ * @description Type definitions for request and response byte counts
+ * @author samofprog
+ * @license MIT
+ */
+
+/**
+ * Byte counts of a request and its response.
+ *
+ * @property {number} [requestBytes] - Request body bytes (`content-length`, or counted for chunked requests); undefined when unknown
+ * @property {number} responseBytes - Response body bytes written so far
+ *
+ * @example
+ * ```typescript
+ * const sizes: PayloadSizes = { requestBytes: 512, responseBytes: 20480 };
+ * ```
+ */
+export interface PayloadSizes {
+    requestBytes?: number;
+    responseBytes: number;
+}
@@ -0,0 +1,27 @@
+/**
+ * @file Query Sanitizer Types
+ * @description Type definitions for query string parsing and redaction
+ * @author samofprog
+ * @license MIT
+ */
+
+/**
+ * Parsed query parameters; repeated keys become arrays
+ *
+ * @example
+ * ```typescript
+ * const query: QueryParams = { page: '2', tag: ['a', 'b'] };
+ * ```
+ */
+export type QueryParams = Record<string, string | string[]>;
+
+/**
+ * Query sanitizer options.
+ *
+ * @property {string[]} [sensitiveKeys] - Parameters redacted (case-insensitive, `-`/`_` ignored)
+ * @property {string} [replacement='[REDACTED]'] - Replacement for redacted values
+ */
+export interface QuerySanitizerOptions {
+    sensitiveKeys?: readonly string[];
+    replacement?: string;
+}
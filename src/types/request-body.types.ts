@@ -0,0 +1,68 @@
+/**
+ * @file Request Body Types
+ * @description Type definitions for content-type aware request body logging
+ * @author samofprog
+ * @license MIT
+ */
+
+/**
+ * Uploaded file of a multipart request, without its content.
+ *
+ * @property {string} field - Form field name
+ * @property {string} [filename] - Original file name
+ * @property {string} [mimetype] - File content type
+ * @property {number} [size] - File size in bytes, when known
+ */
+export interface MultipartFileSummary {
+    field: string;
+    filename?: string;
+    mimetype?: string;
+    size?: number;
+}
+
+/**
+ * Logged summary of a `multipart/form-data` body: field names and files,
+ * never field values or file content.
+ *
+ * @property {string[]} fields - Names of the non-file fields
+ * @property {MultipartFileSummary[]} files - Uploaded files
+ *
+ * @example
+ * ```typescript
+ * const summary: MultipartSummary = {
+ *   fields: ['title'],
+ *   files: [{ field: 'avatar', filename: 'me.png', mimetype: 'image/png', size: 20480 }],
+ * };
+ * ```
+ */
+export interface MultipartSummary {
+    fields: string[];
+    files: MultipartFileSummary[];
+}
+
+/**
+ * Request body decoded for logging.
+ *
+ * - `omitted`: content type excluded from logging, `body` is a placeholder
+ * - `multipart`: `body` is a `MultipartSummary`
+ * - `text`: `body` is the decoded text of a `text/*` body
+ * - `data`: `body` is structured data (JSON, parsed form fields, NDJSON lines) or left as received
+ *
+ * @property {string} kind - How the body was decoded
+ * @property {unknown} body - Decoded body
+ */
+export interface ParsedRequestBody {
+    kind: 'omitted' | 'multipart' | 'text' | 'data';
+    body: unknown;
+}
+
+/**
+ * Request body parser options.
+ *
+ * @property {string[]} [include] - Content types whose body is logged (all when absent, supports wildcards: text/*)
+ * @property {string[]} [exclude=[]] - Content types whose body is never logged, checked before `include`
+ */
+export interface RequestBodyParserOptions {
+    include?: string[];
+    exclude?: string[];
+}
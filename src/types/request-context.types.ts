@@ -0,0 +1,28 @@
+/**
+ * @file Request Context Types
+ * @description Type definitions for the per-request AsyncLocalStorage context
+ * @author samofprog
+ * @license MIT
+ */
+
+/**
+ * Data stored for the lifetime of a request when `requestContext` is enabled.
+ *
+ * @property {string} [requestId] - Correlation ID of the request (when `requestId` is enabled)
+ * @property {string} method - HTTP method
+ * @property {string} path - Request path (with query string if present)
+ *
+ * @example
+ * ```typescript
+ * const store: RequestContextStore = {
+ *   requestId: '3f2b6c1e-8d4a-4f0e-9a55-1c2d3e4f5a6b',
+ *   method: 'GET',
+ *   path: '/api/users',
+ * };
+ * ```
+ */
+export interface RequestContextStore {
+    requestId?: string;
+    method: string;
+    path: string;
+}
@@ -6,18 +6,28 @@
  */
 
 import { Headers } from './headers.types';
+import { QueryParams } from './query-sanitizer.types';
+import { RequestHandlerMetadata } from './handler-metadata.types';
+import { ClientMetadata } from './client-metadata.types';
 
 /**
  * Details of an incoming HTTP request for logging purposes.
  *
+ * @property {string} [requestId] - Correlation ID of the request (when `requestId` is enabled)
  * @property {string} method - HTTP method (GET, POST, PUT, DELETE, etc.)
- * @property {string} path - Request path (with query string if present)
+ * @property {string} path - Request path (with query string if present, sensitive parameters redacted)
  * @property {Headers} headers - Request headers (typically sanitized)
+ * @property {QueryParams} [query] - Parsed and redacted query parameters (when `logQueryParams` is enabled)
  * @property {unknown} [body] - Optional request body payload
+ * @property {ClientMetadata} [client] - Client IP, connection and user agent (when `clientMetadata` is enabled)
+ * @property {string} [route] - Matched route template (see `RequestHandlerMetadata`)
+ * @property {string} [controller] - Controller class name (see `RequestHandlerMetadata`)
+ * @property {string} [handler] - Handler method name (see `RequestHandlerMetadata`)
  *
  * @example
  * ```typescript
  * const details: RequestDetails = {
+ *   requestId: '3f2b6c1e-8d4a-4f0e-9a55-1c2d3e4f5a6b',
  *   method: 'POST',
  *   path: '/api/users?role=admin',
  *   headers: { authorization: '*****', 'content-type': 'application/json' },
@@ -25,9 +35,12 @@ import { Headers } from './headers.types';
  * };
  * ```
  */
-export interface RequestDetails {
+export interface RequestDetails extends RequestHandlerMetadata {
+    requestId?: string;
     method: string;
     path: string;
     headers: Headers;
+    query?: QueryParams;
     body?: unknown;
+    client?: ClientMetadata;
 }
@@ -0,0 +1,30 @@
+/**
+ * @file Request Error Types
+ * @description Type definitions for exceptions recorded on a request
+ * @author samofprog
+ * @license MIT
+ */
+
+/**
+ * Exception thrown while handling a request, as logged on the completed line.
+ *
+ * @property {string} name - Exception class name (e.g. `NotFoundException`)
+ * @property {string} message - Exception message
+ * @property {string} [stack] - Stack trace (when `logErrorStack` is enabled)
+ * @property {unknown} [response] - `HttpException` response body (`getResponse()`)
+ *
+ * @example
+ * ```typescript
+ * const error: RequestErrorDetails = {
+ *   name: 'NotFoundException',
+ *   message: 'User 42 not found',
+ *   response: { statusCode: 404, message: 'User 42 not found', error: 'Not Found' },
+ * };
+ * ```
+ */
+export interface RequestErrorDetails {
+    name: string;
+    message: string;
+    stack?: string;
+    response?: unknown;
+}
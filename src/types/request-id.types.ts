@@ -0,0 +1,15 @@
+/**
+ * @file Request ID Types
+ * @description Type definitions for request ID generation
+ * @author samofprog
+ * @license MIT
+ */
+
+/**
+ * Request ID generation strategy.
+ *
+ * - `uuid`: RFC 4122 version 4 UUID
+ * - `ulid`: lexicographically sortable ULID
+ * - function: custom generator
+ */
+export type RequestIdGenerator = 'uuid' | 'ulid' | (() => string);
@@ -0,0 +1,110 @@
+/**
+ * @file Request Log Record Types
+ * @description Schema of the structured records emitted in `json` and `object` output modes
+ * @author samofprog
+ * @license MIT
+ */
+
+import { Headers } from './headers.types';
+import { QueryParams } from './query-sanitizer.types';
+import { RequestErrorDetails } from './request-error.types';
+import { ClientMetadata } from './client-metadata.types';
+
+/**
+ * Output mode of the logger.
+ *
+ * - `text`: key=value strings (default)
+ * - `json`: a `RequestLogRecord` serialized as a single JSON line
+ * - `object`: the `RequestLogRecord` object itself, passed to the `LoggerService`
+ */
+export type LogOutputFormat = 'text' | 'json' | 'object';
+
+/**
+ * Lines logged per request.
+ *
+ * - `incoming-and-completion`: an incoming line and a completed line (default)
+ * - `completion-only`: a single completed line that also carries the request
+ *   headers, query, client metadata and body
+ */
+export type LogMode = 'incoming-and-completion' | 'completion-only';
+
+/**
+ * Lifecycle event described by a record
+ */
+export type RequestLogEvent =
+    | 'request.incoming'
+    | 'request.completed'
+    | 'request.aborted'
+    | 'request.in-flight';
+
+/**
+ * Structured log record.
+ *
+ * Fields are only present when they carry a value, so the schema is stable:
+ * new fields may be added, existing ones are never renamed or retyped.
+ *
+ * @property {RequestLogEvent} event - Lifecycle event (`request.incoming`, `request.completed`, `request.aborted` or `request.in-flight`)
+ * @property {string} message - Human readable summary (`Incoming request`, `Request completed`, `Request aborted`, `Request still in flight`)
+ * @property {string} timestamp - ISO-8601 time at which the record was produced
+ * @property {string} [startedAt] - ISO-8601 time at which the request started (completed records)
+ * @property {string} [requestId] - Correlation ID of the request, when available
+ * @property {string} method - HTTP method
+ * @property {string} path - Request path (with query string if present)
+ * @property {string} [route] - Matched route template, RPC pattern or GraphQL field (interceptor only)
+ * @property {string} [controller] - Controller or resolver class name (interceptor only)
+ * @property {string} [handler] - Handler method name (interceptor only)
+ * @property {number} [statusCode] - HTTP response status code (completed records)
+ * @property {number} [durationMs] - Request duration in milliseconds (completed records)
+ * @property {boolean} [slow] - True when the request exceeded the slow request threshold (completed records)
+ * @property {string} [abortReason] - Why the request was aborted (aborted records)
+ * @property {number} [bytesSent] - Bytes sent before the abort (aborted records)
+ * @property {number} [requestBytes] - Request body bytes when `logPayloadSizes` is enabled (completed, aborted and in-flight records)
+ * @property {number} [responseBytes] - Response body bytes when `logPayloadSizes` is enabled (completed, aborted and in-flight records)
+ * @property {RequestErrorDetails} [error] - Exception thrown by the handler (completed records)
+ * @property {Headers} [headers] - Selected `headerFields`, sanitized (incoming records, completed records in `completion-only` mode)
+ * @property {QueryParams} [query] - Parsed and redacted query parameters when `logQueryParams` is enabled (incoming records, completed records in `completion-only` mode)
+ * @property {unknown} [body] - Request body when `logRequestBody` is enabled (incoming records, completed records in `completion-only` mode)
+ * @property {ClientMetadata} [client] - Client metadata when `clientMetadata` is enabled (incoming records, completed records in `completion-only` mode)
+ * @property {Headers} [responseHeaders] - Selected `responseHeaderFields`, sanitized (completed records)
+ * @property {unknown} [responseBody] - Response body when `logResponseBody` is enabled (completed, aborted and in-flight records)
+ *
+ * @example
+ * ```json
+ * {
+ *   "event": "request.completed",
+ *   "message": "Request completed",
+ *   "timestamp": "2025-01-01T12:00:00.045Z",
+ *   "startedAt": "2025-01-01T12:00:00.000Z",
+ *   "method": "GET",
+ *   "path": "/api/users",
+ *   "statusCode": 200,
+ *   "durationMs": 45.23
+ * }
+ * ```
+ */
+export interface RequestLogRecord {
+    event: RequestLogEvent;
+    message: string;
+    timestamp: string;
+    startedAt?: string;
+    requestId?: string;
+    method: string;
+    path: string;
+    route?: string;
+    controller?: string;
+    handler?: string;
+    statusCode?: number;
+    durationMs?: number;
+    slow?: boolean;
+    abortReason?: string;
+    bytesSent?: number;
+    requestBytes?: number;
+    responseBytes?: number;
+    error?: RequestErrorDetails;
+    headers?: Headers;
+    query?: QueryParams;
+    body?: unknown;
+    client?: ClientMetadata;
+    responseHeaders?: Headers;
+    responseBody?: unknown;
+}
@@ -0,0 +1,32 @@
+/**
+ * @file Request Logger Handler Types
+ * @description Type definitions for the middleware function returned by requestLoggerFactory
+ * @author samofprog
+ * @license MIT
+ */
+
+import { Req, Res } from './req-res.types';
+
+/**
+ * Express/Fastify middleware function returned by `requestLoggerFactory`.
+ *
+ * The middleware instance is created outside the Nest container, so Nest
+ * never shuts it down: call `shutdown()` once the application is closed to
+ * write the lines queued by `bufferLogs` and flush and close the transports.
+ *
+ * @property {Function} shutdown - Writes buffered lines, then flushes and closes the transports
+ *
+ * @example
+ * ```typescript
+ * const requestLogger = requestLoggerFactory({ bufferLogs: true });
+ * app.use(requestLogger);
+ *
+ * // On shutdown
+ * await app.close();
+ * await requestLogger.shutdown();
+ * ```
+ */
+export interface RequestLoggerHandler {
+    (req: Req, res: Res, next: () => void): void;
+    shutdown(): Promise<void>;
+}
@@ -8,16 +8,48 @@
 import {
     InjectionToken,
     LoggerService,
+    LogLevel,
+    MiddlewareConsumer,
+    ModuleMetadata,
     OptionalFactoryDependency,
+    Type,
 } from '@nestjs/common';
-import { Headers, RequestDetails, CompletedRequestDetails } from './index';
+import {
+    Headers,
+    RequestDetails,
+    CompletedRequestDetails,
+    LogOutputFormat,
+    LogMode,
+    IgnorePathRule,
+    RequestIdGenerator,
+    HeaderMaskStrategy,
+    SampleRateRule,
+    SlowRequestThresholdRule,
+    SlowRequestHook,
+    LevelForStatus,
+    RouteLogLevelRule,
+    RoutePlaceholderRule,
+    ClientMetadataField,
+    TrustProxy,
+    LogTransport,
+    LogBufferOptions,
+} from './index';
 
 /**
  * Sanitizer configuration options
  */
 export interface SanitizerConfig {
-    sensitiveHeaders?: string[];
+    sensitiveHeaders?: (string | RegExp)[];
     sanitizeHeaders?: (headers: Headers) => Headers;
+    headerMaskStrategy?: HeaderMaskStrategy;
+    headerPartialMask?: number;
+    headerHashSalt?: string;
+    mergeSensitiveHeaders?: boolean;
+    sensitiveBodyKeys?: string[];
+    sensitiveBodyPaths?: string[];
+    sensitiveBodyPatterns?: RegExp[];
+    bodyRedactionReplacement?: string;
+    bodyRedactionPartialMask?: number;
 }
 
 /**
@@ -26,13 +58,15 @@ export interface SanitizerConfig {
 export interface FormatterConfig {
     incomingRequestMessage?: (details: RequestDetails) => string;
     completedRequestMessage?: (details: CompletedRequestDetails) => string;
+    outputFormat?: LogOutputFormat;
+    mode?: LogMode;
 }
 
 /**
  * Path matcher configuration options
  */
 export interface PathMatcherConfig {
-    ignorePaths?: string[];
+    ignorePaths?: IgnorePathRule[];
 }
 
 /**
@@ -42,6 +76,134 @@ export interface LoggerConfig {
     logger?: LoggerService;
     logRequestBody?: boolean;
     headerFields?: string[];
+    responseHeaderFields?: string[];
+}
+
+/**
+ * Response body capture configuration options
+ */
+export interface ResponseBodyConfig {
+    logResponseBody?: boolean;
+    maxResponseBodyBytes?: number;
+    responseBodyContentTypes?: string[];
+    responseBodyTruncationMarker?: string;
+}
+
+/**
+ * Request ID configuration options
+ */
+export interface RequestIdConfig {
+    requestId?: boolean;
+    requestIdHeaders?: string[];
+    requestIdGenerator?: RequestIdGenerator;
+    requestIdResponseHeader?: string | false;
+}
+
+/**
+ * Request context (AsyncLocalStorage) configuration options
+ */
+export interface RequestContextConfig {
+    requestContext?: boolean;
+}
+
+/**
+ * Sampling configuration options
+ */
+export interface SamplingConfig {
+    sampleRate?: number;
+    routeSampleRates?: SampleRateRule[];
+    alwaysLogErrors?: boolean;
+    alwaysLogSlowerThanMs?: number;
+}
+
+/**
+ * Slow request detection configuration options
+ */
+export interface SlowRequestConfig {
+    slowRequestThresholdMs?: number;
+    routeSlowRequestThresholds?: SlowRequestThresholdRule[];
+    onSlowRequest?: SlowRequestHook;
+}
+
+/**
+ * Log level configuration options
+ */
+export interface LogLevelConfig {
+    levelForStatus?: LevelForStatus;
+    routeLogLevels?: RouteLogLevelRule[];
+    incomingRequestLevel?: LogLevel;
+}
+
+/**
+ * In-flight request configuration options
+ */
+export interface InFlightConfig {
+    inFlightTimeoutMs?: number;
+}
+
+/**
+ * Exception logging configuration options
+ */
+export interface ErrorLoggingConfig {
+    logErrorStack?: boolean;
+}
+
+/**
+ * Route normalization configuration options
+ */
+export interface RouteNormalizationConfig {
+    normalizeRoutes?: boolean;
+    routePlaceholders?: RoutePlaceholderRule[];
+}
+
+/**
+ * Query string configuration options
+ */
+export interface QueryConfig {
+    logQueryParams?: boolean;
+    stripQueryString?: boolean;
+    sensitiveQueryKeys?: string[];
+    queryRedactionReplacement?: string;
+}
+
+/**
+ * Client metadata configuration options
+ */
+export interface ClientMetadataConfig {
+    clientMetadata?: boolean | ClientMetadataField[];
+    trustProxy?: TrustProxy;
+    anonymizeIp?: boolean;
+}
+
+/**
+ * Payload size configuration options
+ */
+export interface PayloadSizeConfig {
+    logPayloadSizes?: boolean;
+}
+
+/**
+ * Logged body configuration options
+ */
+export interface BodyLoggingConfig {
+    maxBodyLength?: number;
+    binaryContentTypes?: string[];
+    requestBodyContentTypes?: string[];
+    excludeRequestBodyContentTypes?: string[];
+}
+
+/**
+ * Log transport configuration options
+ */
+export interface TransportConfig {
+    transports?: LogTransport[];
+}
+
+/**
+ * Buffered logging configuration options
+ */
+export interface BufferConfig {
+    bufferLogs?: boolean | LogBufferOptions;
 }
 
 /**
@@ -52,7 +214,22 @@ export interface RequestLoggerOptions
     extends SanitizerConfig,
         FormatterConfig,
         PathMatcherConfig,
-        LoggerConfig {}
+        LoggerConfig,
+        ResponseBodyConfig,
+        RequestIdConfig,
+        RequestContextConfig,
+        SamplingConfig,
+        SlowRequestConfig,
+        LogLevelConfig,
+        InFlightConfig,
+        ErrorLoggingConfig,
+        RouteNormalizationConfig,
+        QueryConfig,
+        ClientMetadataConfig,
+        PayloadSizeConfig,
+        BodyLoggingConfig,
+        TransportConfig,
+        BufferConfig {}
 
 /**
  * Partial request logger options for module configuration
@@ -60,11 +237,42 @@ export interface RequestLoggerOptions
 export type RequestLoggerModuleOptions = Partial<RequestLoggerOptions>;
 
 /**
- * Async request logger options for dynamic module configuration
+ * Class-based options provider used by `useClass` and `useExisting`
+ */
+export interface RequestLoggerOptionsFactory {
+    createRequestLoggerOptions():
+        | Promise<RequestLoggerModuleOptions>
+        | RequestLoggerModuleOptions;
+}
+
+/**
+ * Async request logger options for dynamic module configuration.
+ * Exactly one of `useFactory`, `useClass` or `useExisting` should be set.
  */
-export interface RequestLoggerAsyncOptions {
-    useFactory: (
-        ...args: unknown[]
+export interface RequestLoggerAsyncOptions
+    extends Pick<ModuleMetadata, 'imports'> {
+    useFactory?: (
+        ...args: any[]
     ) => Promise<RequestLoggerModuleOptions> | RequestLoggerModuleOptions;
     inject?: (InjectionToken | OptionalFactoryDependency)[];
+    useClass?: Type<RequestLoggerOptionsFactory>;
+    useExisting?: Type<RequestLoggerOptionsFactory>;
+}
+
+/**
+ * Route configuration proxy returned by `MiddlewareConsumer.apply()`
+ * (not exported from the `@nestjs/common` entry point)
+ */
+type MiddlewareConfigProxy = ReturnType<MiddlewareConsumer['apply']>;
+
+/**
+ * Middleware wiring options for `RequestLoggerModule`.
+ * Route entries accept the same values as `MiddlewareConsumer.forRoutes()` / `exclude()`.
+ * Set `applyMiddleware: false` when requests are logged by `RequestLoggerInterceptor` instead.
+ */
+export interface RequestLoggerModuleConfig {
+    isGlobal?: boolean;
+    applyMiddleware?: boolean;
+    forRoutes?: Parameters<MiddlewareConfigProxy['forRoutes']>;
+    exclude?: Parameters<MiddlewareConfigProxy['exclude']>;
 }
@@ -5,18 +5,46 @@
  * @license MIT
  */
 
+import { Headers } from './headers.types';
+import { RequestDetails } from './request-details.types';
+import { RequestErrorDetails } from './request-error.types';
+import { RequestHandlerMetadata } from './handler-metadata.types';
+
+/**
+ * Outcome of a request.
+ *
+ * - `completed`: the response was fully sent
+ * - `aborted`: the connection closed or errored before the response was sent
+ * - `in-flight`: the request is still running after `inFlightTimeoutMs`
+ */
+export type RequestOutcome = 'completed' | 'aborted' | 'in-flight';
+
 /**
  * Details of a completed HTTP request for logging purposes.
  *
+ * @property {string} [requestId] - Correlation ID of the request (when `requestId` is enabled)
  * @property {string} method - HTTP method (GET, POST, PUT, DELETE, etc.)
  * @property {string} path - Request path (with query string if present)
  * @property {number} statusCode - HTTP response status code
  * @property {string} durationMs - Request duration in milliseconds (fixed to 2 decimal places)
- * @property {unknown} [responseData] - Optional response payload (for future use)
+ * @property {RequestDetails} [request] - Incoming request details (`completion-only` mode)
+ * @property {unknown} [responseData] - Optional response payload (captured when `logResponseBody` is enabled)
+ * @property {Headers} [responseHeaders] - Sanitized response headers (when `responseHeaderFields` is set)
+ * @property {boolean} [slow] - True when the duration reached the slow request threshold
+ * @property {RequestOutcome} [outcome] - Request outcome (`completed` when absent)
+ * @property {string} [abortReason] - Why the request was aborted (`aborted` outcome)
+ * @property {number} [bytesSent] - Bytes written to the socket before the abort (`aborted` outcome)
+ * @property {number} [requestBytes] - Request body bytes (when `logPayloadSizes` is enabled and the size is known)
+ * @property {number} [responseBytes] - Response body bytes written (when `logPayloadSizes` is enabled)
+ * @property {RequestErrorDetails} [error] - Exception recorded by `RequestLoggerExceptionInterceptor`
+ * @property {string} [route] - Matched route template (see `RequestHandlerMetadata`)
+ * @property {string} [controller] - Controller class name (see `RequestHandlerMetadata`)
+ * @property {string} [handler] - Handler method name (see `RequestHandlerMetadata`)
  *
  * @example
  * ```typescript
  * const details: CompletedRequestDetails = {
+ *   requestId: '3f2b6c1e-8d4a-4f0e-9a55-1c2d3e4f5a6b',
  *   method: 'POST',
  *   path: '/api/users?role=admin',
  *   statusCode: 201,
@@ -25,10 +53,20 @@
  * };
  * ```
  */
-export interface CompletedRequestDetails {
+export interface CompletedRequestDetails extends RequestHandlerMetadata {
+    requestId?: string;
     method: string;
     path: string;
     statusCode: number;
     durationMs: string;
+    request?: RequestDetails;
     responseData?: unknown;
+    responseHeaders?: Headers;
+    slow?: boolean;
+    outcome?: RequestOutcome;
+    abortReason?: string;
+    bytesSent?: number;
+    requestBytes?: number;
+    responseBytes?: number;
+    error?: RequestErrorDetails;
 }
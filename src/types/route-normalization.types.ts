@@ -0,0 +1,20 @@
+/**
+ * @file Route Normalization Types
+ * @description Type definitions for route template normalization
+ * @author samofprog
+ * @license MIT
+ */
+
+/**
+ * Placeholder rule applied to each path segment by `RouteNormalizer`.
+ * Rules are tested in order before the built-in UUID, numeric ID and hash rules.
+ *
+ * @example
+ * ```typescript
+ * const rule: RoutePlaceholderRule = { pattern: /^[a-z]{2}-[A-Z]{2}$/, placeholder: ':locale' };
+ * ```
+ */
+export interface RoutePlaceholderRule {
+    pattern: RegExp;
+    placeholder: string;
+}
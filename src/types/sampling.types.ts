@@ -0,0 +1,33 @@
+/**
+ * @file Sampling Types
+ * @description Type definitions for request log sampling
+ * @author samofprog
+ * @license MIT
+ */
+
+import { PathPattern } from './path-pattern.types';
+
+/**
+ * Per-route sample rate.
+ * The first matching rule wins; `method` restricts the rule to HTTP methods.
+ *
+ * @example
+ * ```typescript
+ * const rule: SampleRateRule = { method: 'GET', path: '/api/search', rate: 0.05 };
+ * ```
+ */
+export interface SampleRateRule {
+    method?: string | string[];
+    path: PathPattern;
+    rate: number;
+}
+
+/**
+ * Options accepted by `RequestSampler`
+ */
+export interface RequestSamplerOptions {
+    rate?: number;
+    routes?: SampleRateRule[];
+    alwaysLogErrors?: boolean;
+    alwaysLogSlowerThanMs?: number;
+}
@@ -0,0 +1,29 @@
+/**
+ * @file Slow Request Types
+ * @description Type definitions for slow request detection
+ * @author samofprog
+ * @license MIT
+ */
+
+import { PathPattern } from './path-pattern.types';
+import { CompletedRequestDetails } from './response-details.types';
+
+/**
+ * Per-route slow request threshold.
+ * The first matching rule wins; `method` restricts the rule to HTTP methods.
+ *
+ * @example
+ * ```typescript
+ * const rule: SlowRequestThresholdRule = { path: '/api/reports/*', thresholdMs: 5000 };
+ * ```
+ */
+export interface SlowRequestThresholdRule {
+    method?: string | string[];
+    path: PathPattern;
+    thresholdMs: number;
+}
+
+/**
+ * Hook called for every completed request flagged as slow
+ */
+export type SlowRequestHook = (details: CompletedRequestDetails) => void;
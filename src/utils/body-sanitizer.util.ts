@@ -0,0 +1,286 @@
+/**
+ * @file Body Sanitizer Utility Class
+ * @description Redacts sensitive fields and values in request/response payloads
+ * @author samofprog
+ * @license MIT
+ */
+
+import { Stream } from 'stream';
+import { BodySanitizerOptions } from '../types';
+import { DEFAULT_SENSITIVE_BODY_KEYS } from '../constants';
+import { NestedExtractor } from './nested-extractor.util';
+
+/**
+ * Utility class for redacting sensitive data in logged bodies.
+ *
+ * Purpose:
+ * - Redact values by key name at any depth, including inside arrays
+ * - Redact values by dot path with `*` wildcards (e.g. `user.*.ssn`)
+ * - Redact matches of value patterns inside strings (card numbers, JWTs, e-mails)
+ * - Support full replacement, or partial masking (`****1234`) of pattern
+ *   matches; values redacted by key or path are always fully replaced
+ * - Never mutate the original payload
+ *
+ * @class BodySanitizer
+ *
+ * @example
+ * ```typescript
+ * import { BodySanitizer, BODY_REDACTION_PATTERNS } from '@samofprog/nestjs-request-logger';
+ *
+ * const sanitizer = new BodySanitizer({
+ *   sensitivePaths: ['users.*.ssn'],
+ *   sensitivePatterns: [BODY_REDACTION_PATTERNS.CREDIT_CARD],
+ *   partialMask: 4,
+ * });
+ *
+ * sanitizer.sanitize({ password: 'hunter22', note: 'card 4111 1111 1111 1111' });
+ * // Result: { password: '[REDACTED]', note: 'card ****1111' }
+ * ```
+ */
+export class BodySanitizer {
+    private readonly sensitiveKeys: Set<string>;
+    private readonly sensitivePaths: string[][];
+    private readonly sensitivePatterns: RegExp[];
+    private readonly replacement: string;
+    private readonly partialMask?: number;
+    private readonly nestedExtractor = new NestedExtractor();
+
+    /**
+     * Create a new BodySanitizer instance
+     *
+     * @param {BodySanitizerOptions} [options={}] - Redaction options
+     * @param {string[]} [options.sensitiveKeys] - Keys to redact @default DEFAULT_SENSITIVE_BODY_KEYS
+     * @param {string[]} [options.sensitivePaths=[]] - Dot paths to redact (supports `*`)
+     * @param {RegExp[]} [options.sensitivePatterns=[]] - Value patterns to redact
+     * @param {string} [options.replacement='[REDACTED]'] - Replacement for redacted values
+     * @param {number} [options.partialMask] - Number of trailing characters left visible
+     */
+    constructor(options: BodySanitizerOptions = {}) {
+        // Pre-compute normalized key names for O(1) lookup
+        this.sensitiveKeys = new Set(
+            (options.sensitiveKeys ?? DEFAULT_SENSITIVE_BODY_KEYS).map((key) =>
+                this.normalizeKey(key)
+            )
+        );
+        this.sensitivePaths = (options.sensitivePaths ?? []).map((path) =>
+            path.split('.')
+        );
+        // Global flag is required to replace every match within a string
+        this.sensitivePatterns = (options.sensitivePatterns ?? []).map(
+            (pattern) =>
+                new RegExp(
+                    pattern.source,
+                    pattern.flags.includes('g')
+                        ? pattern.flags
+                        : `${pattern.flags}g`
+                )
+        );
+        this.replacement = options.replacement ?? '[REDACTED]';
+        // slice(-n) leaks the value unless n is a positive integer
+        const partialMask = options.partialMask ?? 0;
+        this.partialMask =
+            Number.isInteger(partialMask) && partialMask > 0
+                ? partialMask
+                : undefined;
+    }
+
+    /**
+     * Return a redacted copy of a body
+     *
+     * @param {unknown} body - Request or response payload
+     * @returns {unknown} Redacted copy (primitives are returned as-is unless a pattern matches)
+     */
+    sanitize(body: unknown): unknown {
+        const sanitized = this.redactValue(body, new WeakSet());
+
+        if (typeof sanitized === 'object' && sanitized !== null) {
+            for (const segments of this.sensitivePaths) {
+                this.redactPath(sanitized as Record<string, unknown>, segments);
+            }
+        }
+
+        return sanitized;
+    }
+
+    /**
+     * Deep copy a value, redacting sensitive keys and value patterns
+     *
+     * @private
+     * @param {unknown} value - Value to copy
+     * @param {WeakSet<object>} seen - Objects on the current path (circular reference guard)
+     * @returns {unknown} Redacted copy
+     */
+    private redactValue(value: unknown, seen: WeakSet<object>): unknown {
+        if (typeof value === 'string') {
+            return this.redactPatterns(value);
+        }
+
+        if (!this.isTraversable(value)) {
+            return value;
+        }
+
+        if (seen.has(value)) {
+            return '[Circular]';
+        }
+        seen.add(value);
+
+        let copy: unknown;
+        if (Array.isArray(value)) {
+            copy = value.map((item) => this.redactValue(item, seen));
+        } else {
+            const result: Record<string, unknown> = {};
+            for (const [key, item] of Object.entries(value)) {
+                result[key] = this.sensitiveKeys.has(this.normalizeKey(key))
+                    ? this.mask(item)
+                    : this.redactValue(item, seen);
+            }
+            copy = result;
+        }
+
+        seen.delete(value);
+        return copy;
+    }
+
+    /**
+     * Redact the values at a dot path, expanding `*` wildcards
+     *
+     * @private
+     * @param {Record<string, unknown>} root - Object to redact in place (already a copy)
+     * @param {string[]} segments - Path segments
+     */
+    private redactPath(
+        root: Record<string, unknown>,
+        segments: string[]
+    ): void {
+        const wildcardIndex = segments.indexOf('*');
+
+        if (wildcardIndex === -1) {
+            const parent = this.resolve(root, segments.slice(0, -1));
+            const key = segments[segments.length - 1];
+            if (this.isTraversable(parent) && key in parent) {
+                parent[key] = this.mask(parent[key]);
+            }
+            return;
+        }
+
+        const container = this.resolve(root, segments.slice(0, wildcardIndex));
+        if (!this.isTraversable(container)) {
+            return;
+        }
+
+        const rest = segments.slice(wildcardIndex + 1);
+        for (const key of Object.keys(container)) {
+            if (rest.length === 0) {
+                container[key] = this.mask(container[key]);
+            } else if (this.isTraversable(container[key])) {
+                this.redactPath(
+                    container[key] as Record<string, unknown>,
+                    rest
+                );
+            }
+        }
+    }
+
+    /**
+     * Resolve a path prefix with NestedExtractor (empty prefix is the root)
+     *
+     * @private
+     * @param {Record<string, unknown>} root - Root object
+     * @param {string[]} segments - Path segments
+     * @returns {unknown} Value at the path
+     */
+    private resolve(
+        root: Record<string, unknown>,
+        segments: string[]
+    ): unknown {
+        return segments.length === 0
+            ? root
+            : this.nestedExtractor.extract(root, segments.join('.'));
+    }
+
+    /**
+     * Replace every pattern match inside a string
+     *
+     * @private
+     * @param {string} value - String value
+     * @returns {string} String with matches masked
+     */
+    private redactPatterns(value: string): string {
+        return this.sensitivePatterns.reduce(
+            (result, pattern) =>
+                result.replace(
+                    pattern,
+                    (match) => this.mask(match, true) as string
+                ),
+            value
+        );
+    }
+
+    /**
+     * Mask a sensitive value (full replacement or partial masking)
+     *
+     * @private
+     * @param {unknown} value - Value to mask
+     * @param {boolean} [partial=false] - Keep the last `partialMask` characters (pattern matches only)
+     * @returns {unknown} Masked value (null/undefined are kept as-is)
+     */
+    private mask(value: unknown, partial = false): unknown {
+        if (value === null || value === undefined) {
+            return value;
+        }
+
+        if (
+            partial &&
+            this.partialMask &&
+            (typeof value === 'string' || typeof value === 'number')
+        ) {
+            const text = String(value).replace(/[\s-]/g, '');
+            if (text.length > this.partialMask) {
+                return `****${text.slice(-this.partialMask)}`;
+            }
+        }
+
+        return this.replacement;
+    }
+
+    /**
+     * Normalize a key name for comparison (lowercase, without `-` and `_`)
+     *
+     * @private
+     * @param {string} key - Key name
+     * @returns {string} Normalized key
+     */
+    private normalizeKey(key: string): string {
+        return key.toLowerCase().replace(/[-_]/g, '');
+    }
+
+    /**
+     * Check whether a value is walked: arrays, plain objects and class
+     * instances (entities, DTOs), through their own enumerable properties
+     *
+     * @private
+     * @param {unknown} value - Value to check
+     * @returns {boolean} False for primitives, binary data, dates, collections, errors and streams
+     */
+    private isTraversable(value: unknown): value is Record<string, unknown> {
+        if (typeof value !== 'object' || value === null) {
+            return false;
+        }
+        if (Array.isArray(value)) {
+            return true;
+        }
+        return !(
+            ArrayBuffer.isView(value) ||
+            value instanceof ArrayBuffer ||
+            value instanceof Date ||
+            value instanceof RegExp ||
+            value instanceof Error ||
+            value instanceof Map ||
+            value instanceof Set ||
+            value instanceof WeakMap ||
+            value instanceof WeakSet ||
+            value instanceof Promise ||
+            value instanceof Stream
+        );
+    }
+}
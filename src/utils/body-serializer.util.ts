@@ -0,0 +1,189 @@
+/**
+ * @file Body Serializer Utility Class
+ * @description Serializes, truncates and replaces logged bodies safely
+ * @author samofprog
+ * @license MIT
+ */
+
+import { BodySerializerOptions } from '../types';
+import { BINARY_CONTENT_TYPES } from '../constants';
+import { PatternCompiler } from './pattern-compiler.util';
+
+/**
+ * Default maximum logged size of text bodies when `maxLength` is not set
+ */
+const DEFAULT_MAX_TEXT_LENGTH = 4096;
+
+/**
+ * Utility class for turning bodies into log-safe values.
+ *
+ * Purpose:
+ * - Serialize to JSON without throwing: circular references become
+ *   `[Circular]`, BigInts become strings and Buffers become `[Buffer: N bytes]`
+ * - Truncate bodies larger than `maxLength` bytes with a
+ *   `…[truncated N bytes]` marker
+ * - Replace multipart and binary bodies with a placeholder
+ *
+ * @class BodySerializer
+ *
+ * @example
+ * ```typescript
+ * import { BodySerializer } from '@samofprog/nestjs-request-logger';
+ *
+ * const serializer = new BodySerializer({ maxLength: 16 });
+ *
+ * serializer.truncate({ items: ['a', 'b', 'c', 'd'] });
+ * // '{"items":["a","b…[truncated 11 bytes]'
+ * serializer.placeholder(Buffer.alloc(2048), 'image/png');
+ * // '[binary body: 2048 bytes]'
+ * ```
+ */
+export class BodySerializer {
+    private readonly maxLength?: number;
+    private readonly binaryContentTypePatterns: RegExp[];
+
+    /**
+     * Create a new BodySerializer instance
+     *
+     * @param {BodySerializerOptions} [options={}] - Serializer options
+     * @param {number} [options.maxLength] - Maximum logged body size in bytes
+     * @param {string[]} [options.binaryContentTypes] - Content types replaced by a placeholder @default BINARY_CONTENT_TYPES
+     */
+    constructor(options: BodySerializerOptions = {}) {
+        this.maxLength = options.maxLength;
+        this.binaryContentTypePatterns = (
+            options.binaryContentTypes ?? BINARY_CONTENT_TYPES
+        ).map((type) => PatternCompiler.compile(type.toLowerCase()));
+    }
+
+    /**
+     * Serialize a value to JSON without throwing
+     *
+     * @param {unknown} value - Value to serialize
+     * @returns {string} JSON text (`undefined` for values JSON cannot represent)
+     */
+    stringify(value: unknown): string {
+        // Objects on the path from the root to the value being serialized
+        const ancestors: unknown[] = [];
+
+        try {
+            const json = JSON.stringify(
+                value,
+                function (this: unknown, key: string, item: unknown) {
+                    // The replacer sees Buffers after toJSON(): check the original
+                    const original = (this as Record<string, unknown>)[key];
+                    if (ArrayBuffer.isView(original)) {
+                        return Buffer.isBuffer(original)
+                            ? `[Buffer: ${original.length} bytes]`
+                            : `[Binary: ${original.byteLength} bytes]`;
+                    }
+                    if (typeof item === 'bigint') {
+                        return String(item);
+                    }
+                    if (typeof item !== 'object' || item === null) {
+                        return item;
+                    }
+
+                    while (
+                        ancestors.length > 0 &&
+                        ancestors[ancestors.length - 1] !== this
+                    ) {
+                        ancestors.pop();
+                    }
+                    if (ancestors.includes(item)) {
+                        return '[Circular]';
+                    }
+                    ancestors.push(item);
+                    return item;
+                }
+            );
+            return json ?? 'undefined';
+        } catch {
+            // Throwing getters or toJSON methods
+            return '"[Unserializable]"';
+        }
+    }
+
+    /**
+     * Truncate a body larger than `maxLength` bytes
+     *
+     * @param {unknown} body - Body to log
+     * @returns {unknown} The body itself when small enough, otherwise its truncated text with a `…[truncated N bytes]` marker
+     */
+    truncate(body: unknown): unknown {
+        if (this.maxLength === undefined) {
+            return body;
+        }
+        return this.truncateTo(body, this.maxLength);
+    }
+
+    /**
+     * Truncate a text body to `maxLength` bytes, 4096 when no limit is set
+     *
+     * @param {string} text - Decoded text body
+     * @returns {string} The text itself or its truncated prefix with a `…[truncated N bytes]` marker
+     */
+    truncateText(text: string): string {
+        return this.truncateTo(
+            text,
+            this.maxLength ?? DEFAULT_MAX_TEXT_LENGTH
+        ) as string;
+    }
+
+    /**
+     * Get the placeholder logged instead of a multipart or binary body
+     *
+     * @param {unknown} body - Request body
+     * @param {string} [contentType] - Value of the `content-type` header
+     * @returns {string | undefined} Placeholder, or undefined when the body can be logged
+     */
+    placeholder(body: unknown, contentType?: string): string | undefined {
+        if (body === undefined || body === null) {
+            return undefined;
+        }
+
+        const type = (contentType ?? '').split(';')[0].trim().toLowerCase();
+        if (type.startsWith('multipart/')) {
+            return `[${type} body omitted]`;
+        }
+
+        const binary = ArrayBuffer.isView(body);
+        if (
+            binary ||
+            this.binaryContentTypePatterns.some((pattern) => pattern.test(type))
+        ) {
+            return binary
+                ? `[binary body: ${(body as ArrayBufferView).byteLength} bytes]`
+                : '[binary body omitted]';
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Truncate a body to a number of bytes
+     *
+     * @private
+     * @param {unknown} body - Body to log
+     * @param {number} maxLength - Maximum size in bytes
+     * @returns {unknown} The body itself when small enough, otherwise its truncated text
+     */
+    private truncateTo(body: unknown, maxLength: number): unknown {
+        if (body === undefined || body === null) {
+            return body;
+        }
+
+        const text = typeof body === 'string' ? body : this.stringify(body);
+        const bytes = Buffer.byteLength(text);
+        if (bytes <= maxLength) {
+            return body;
+        }
+
+        // Cutting inside a multi-byte character leaves a replacement character
+        const kept = Buffer.from(text)
+            .subarray(0, maxLength)
+            .toString('utf8')
+            .replace(/\uFFFD+$/, '');
+        return `${kept}…[truncated ${bytes - Buffer.byteLength(kept)} bytes]`;
+    }
+}
@@ -0,0 +1,489 @@
+/**
+ * @file Client Metadata Extractor Utility Class
+ * @description Resolves the client address, connection details and user agent of a request
+ * @author samofprog
+ * @license MIT
+ */
+
+import {
+    ClientMetadata,
+    ClientMetadataExtractorOptions,
+    ClientMetadataField,
+    Headers,
+    Req,
+    TrustProxy,
+} from '../types';
+import { UserAgentParser } from './user-agent-parser.util';
+
+/**
+ * Parsed IP address
+ */
+interface ParsedAddress {
+    family: 4 | 6;
+    /** IPv4 octets or IPv6 16-bit groups */
+    parts: number[];
+}
+
+/**
+ * Node request shape shared by Express requests and Fastify `request.raw`
+ */
+interface IncomingConnection {
+    httpVersion?: string;
+    socket?: { remoteAddress?: string; encrypted?: boolean } | null;
+}
+
+/**
+ * Hop trusted (or not) to forward client details
+ */
+type TrustFunction = (address: string, hop: number) => boolean;
+
+/**
+ * Named ranges accepted in `trustProxy` lists
+ */
+const TRUST_PRESETS: Record<string, string[]> = {
+    loopback: ['127.0.0.0/8', '::1/128'],
+    linklocal: ['169.254.0.0/16', 'fe80::/10'],
+    uniquelocal: ['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16', 'fc00::/7'],
+};
+
+/**
+ * Every client metadata field, enabled by default
+ */
+const ALL_FIELDS: ClientMetadataField[] = [
+    'ip',
+    'forwardedFor',
+    'httpVersion',
+    'protocol',
+    'host',
+    'userAgent',
+];
+
+/**
+ * Utility class for extracting client metadata from a request.
+ *
+ * Purpose:
+ * - Resolve the client IP, walking `forwarded` / `x-forwarded-for` only
+ *   through trusted proxies so spoofed headers are ignored
+ * - Report the HTTP version, protocol and host (forwarded values only from trusted proxies)
+ * - Parse the user agent (browser, OS, bot flag)
+ * - Anonymize addresses for GDPR (last IPv4 octet / last 80 IPv6 bits zeroed)
+ *
+ * @class ClientMetadataExtractor
+ *
+ * @example
+ * ```typescript
+ * import { ClientMetadataExtractor } from '@samofprog/nestjs-request-logger';
+ *
+ * const extractor = new ClientMetadataExtractor({
+ *   trustProxy: ['loopback', '10.0.0.0/8'],
+ *   anonymizeIp: true,
+ * });
+ *
+ * // socket 10.0.0.5, x-forwarded-for: 203.0.113.42
+ * extractor.extract(req).ip; // '203.0.113.0'
+ * ```
+ */
+export class ClientMetadataExtractor {
+    private readonly fields: Set<ClientMetadataField>;
+    private readonly trust: TrustFunction;
+    private readonly anonymizeIp: boolean;
+    private readonly userAgentParser = new UserAgentParser();
+
+    /**
+     * Create a new ClientMetadataExtractor instance
+     *
+     * @param {ClientMetadataExtractorOptions} [options={}] - Extractor options
+     * @param {ClientMetadataField[]} [options.fields] - Fields to extract (all by default)
+     * @param {TrustProxy} [options.trustProxy=false] - Proxies trusted to forward client details
+     * @param {boolean} [options.anonymizeIp=false] - Anonymize logged addresses
+     */
+    constructor(options: ClientMetadataExtractorOptions = {}) {
+        this.fields = new Set(options.fields ?? ALL_FIELDS);
+        this.trust = this.compileTrust(options.trustProxy ?? false);
+        this.anonymizeIp = options.anonymizeIp ?? false;
+    }
+
+    /**
+     * Extract the enabled client metadata fields of a request
+     *
+     * @param {Req} req - Express or Fastify request
+     * @returns {ClientMetadata} Client metadata (fields without a value are omitted)
+     */
+    extract(req: Req): ClientMetadata {
+        const headers = (req.headers ?? {}) as Headers;
+        const connection = (
+            'raw' in req && req.raw ? req.raw : req
+        ) as IncomingConnection;
+        const client: ClientMetadata = {};
+
+        const forwardedFor = this.forwardedFor(headers);
+        const socketAddress = this.normalizeAddress(
+            connection.socket?.remoteAddress
+        );
+        // Closest hop first: the socket peer, then forwarded addresses right to
+        // left. Without a socket peer no hop can be trusted: the IP is unknown
+        const chain = socketAddress
+            ? [socketAddress, ...[...forwardedFor].reverse()]
+            : [];
+        let hop = 0;
+        while (hop < chain.length - 1 && this.trust(chain[hop], hop)) {
+            hop++;
+        }
+        // Forwarded protocol and host are only believed from trusted proxies
+        const viaTrustedProxy =
+            socketAddress !== undefined && this.trust(socketAddress, 0);
+
+        if (this.fields.has('ip') && chain.length > 0) {
+            client.ip = this.anonymize(chain[hop]);
+        }
+        if (this.fields.has('forwardedFor') && forwardedFor.length > 0) {
+            client.forwardedFor = forwardedFor.map((address) =>
+                this.anonymize(address)
+            );
+        }
+        if (this.fields.has('httpVersion') && connection.httpVersion) {
+            client.httpVersion = connection.httpVersion;
+        }
+        if (this.fields.has('protocol')) {
+            const forwardedProto = viaTrustedProxy
+                ? (this.forwardedParam(headers, 'proto') ??
+                  this.firstValue(headers['x-forwarded-proto']))
+                : undefined;
+            client.protocol =
+                forwardedProto?.toLowerCase() ??
+                (connection.socket?.encrypted ? 'https' : 'http');
+        }
+        if (this.fields.has('host')) {
+            const host =
+                (viaTrustedProxy
+                    ? (this.forwardedParam(headers, 'host') ??
+                      this.firstValue(headers['x-forwarded-host']))
+                    : undefined) ??
+                this.firstValue(headers.host) ??
+                this.firstValue(headers[':authority']);
+            if (host) {
+                client.host = host;
+            }
+        }
+        if (this.fields.has('userAgent')) {
+            const userAgent = this.headerValue(headers['user-agent']);
+            if (userAgent) {
+                client.userAgent = this.userAgentParser.parse(userAgent);
+            }
+        }
+
+        return client;
+    }
+
+    /**
+     * Anonymize an address: last IPv4 octet or last 80 IPv6 bits zeroed
+     *
+     * @param {string} address - IP address
+     * @returns {string} Anonymized address (unchanged when anonymization is off or not an IP)
+     */
+    anonymize(address: string): string {
+        if (!this.anonymizeIp) {
+            return address;
+        }
+
+        const parsed = this.parseAddress(address);
+        if (parsed?.family === 4) {
+            return [...parsed.parts.slice(0, 3), 0].join('.');
+        }
+        if (parsed?.family === 6) {
+            const groups = parsed.parts
+                .slice(0, 3)
+                .map((group) => group.toString(16));
+            return `${groups.join(':')}::`;
+        }
+        return address;
+    }
+
+    /**
+     * Get the forwarded chain, client first, from `forwarded` or `x-forwarded-for`
+     *
+     * @private
+     * @param {Headers} headers - Request headers
+     * @returns {string[]} Forwarded addresses
+     */
+    private forwardedFor(headers: Headers): string[] {
+        const forwarded = this.headerValue(headers.forwarded);
+        if (forwarded) {
+            return this.forwardedElements(forwarded)
+                .map((element) => element.for)
+                .filter((address): address is string => Boolean(address))
+                .map((address) => this.normalizeAddress(address) ?? address);
+        }
+
+        const xForwardedFor = this.headerValue(headers['x-forwarded-for']);
+        if (!xForwardedFor) {
+            return [];
+        }
+        return xForwardedFor
+            .split(',')
+            .map((address) => address.trim())
+            .filter(Boolean)
+            .map((address) => this.normalizeAddress(address) ?? address);
+    }
+
+    /**
+     * Get a parameter of the left-most `forwarded` element
+     *
+     * @private
+     * @param {Headers} headers - Request headers
+     * @param {string} name - Parameter name (`proto`, `host`)
+     * @returns {string | undefined} Parameter value
+     */
+    private forwardedParam(
+        headers: Headers,
+        name: 'proto' | 'host'
+    ): string | undefined {
+        const forwarded = this.headerValue(headers.forwarded);
+        return forwarded
+            ? this.forwardedElements(forwarded)[0]?.[name]
+            : undefined;
+    }
+
+    /**
+     * Parse an RFC 7239 `forwarded` header
+     *
+     * @private
+     * @param {string} header - Header value
+     * @returns {Record<string, string>[]} Elements, client first
+     */
+    private forwardedElements(header: string): Record<string, string>[] {
+        return header.split(',').map((element) => {
+            const params: Record<string, string> = {};
+            for (const pair of element.split(';')) {
+                const separator = pair.indexOf('=');
+                if (separator === -1) {
+                    continue;
+                }
+                const key = pair.slice(0, separator).trim().toLowerCase();
+                params[key] = pair
+                    .slice(separator + 1)
+                    .trim()
+                    .replace(/^"(.*)"$/, '$1');
+            }
+            return params;
+        });
+    }
+
+    /**
+     * Strip ports, brackets and the IPv4-mapped IPv6 prefix from an address
+     *
+     * @private
+     * @param {string} [address] - Raw address
+     * @returns {string | undefined} Normalized address
+     */
+    private normalizeAddress(address?: string): string | undefined {
+        if (!address) {
+            return undefined;
+        }
+
+        let normalized = address.trim();
+        const bracketed = /^\[([^\]]+)\](?::\d+)?$/.exec(normalized);
+        if (bracketed) {
+            normalized = bracketed[1];
+        } else if (/^[\d.]+:\d+$/.test(normalized)) {
+            normalized = normalized.slice(0, normalized.lastIndexOf(':'));
+        }
+
+        return normalized.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, '');
+    }
+
+    /**
+     * Compile the `trustProxy` option into a hop predicate
+     *
+     * @private
+     * @param {TrustProxy} trustProxy - Trusted proxies
+     * @returns {TrustFunction} Predicate
+     */
+    private compileTrust(trustProxy: TrustProxy): TrustFunction {
+        if (typeof trustProxy === 'function') {
+            return (address, hop) => {
+                try {
+                    return trustProxy(address, hop);
+                } catch {
+                    // A failing predicate must never break the request
+                    return false;
+                }
+            };
+        }
+        if (typeof trustProxy === 'boolean') {
+            return () => trustProxy;
+        }
+        if (typeof trustProxy === 'number') {
+            return (_address, hop) => hop < trustProxy;
+        }
+
+        const ranges = trustProxy
+            .flatMap((entry) => TRUST_PRESETS[entry] ?? [entry])
+            .map((entry) => this.parseRange(entry))
+            .filter((range) => range !== undefined);
+
+        return (address) => {
+            const parsed = this.parseAddress(address);
+            return (
+                parsed !== undefined &&
+                ranges.some((range) => this.inRange(parsed, range))
+            );
+        };
+    }
+
+    /**
+     * Parse an address or CIDR range
+     *
+     * @private
+     * @param {string} entry - Address or `address/prefix`
+     * @returns {Object | undefined} Range, or undefined if invalid
+     */
+    private parseRange(
+        entry: string
+    ): (ParsedAddress & { prefix: number }) | undefined {
+        const [address, prefix] = entry.split('/');
+        const parsed = this.parseAddress(address);
+        if (!parsed) {
+            return undefined;
+        }
+
+        const bits = parsed.family === 4 ? 32 : 128;
+        const length = prefix === undefined ? bits : Number(prefix);
+        if (!Number.isInteger(length) || length < 0 || length > bits) {
+            return undefined;
+        }
+        return { ...parsed, prefix: length };
+    }
+
+    /**
+     * Check whether an address belongs to a CIDR range
+     *
+     * @private
+     * @param {ParsedAddress} address - Parsed address
+     * @param {Object} range - Parsed range
+     * @returns {boolean} True if the first `prefix` bits match
+     */
+    private inRange(
+        address: ParsedAddress,
+        range: ParsedAddress & { prefix: number }
+    ): boolean {
+        if (address.family !== range.family) {
+            return false;
+        }
+
+        const width = address.family === 4 ? 8 : 16;
+        return address.parts.every((part, index) => {
+            const bits = Math.min(
+                width,
+                Math.max(0, range.prefix - index * width)
+            );
+            const mask = ((1 << width) - 1) ^ ((1 << (width - bits)) - 1);
+            return (part & mask) === (range.parts[index] & mask);
+        });
+    }
+
+    /**
+     * Parse an IPv4 or IPv6 address
+     *
+     * @private
+     * @param {string} address - Address
+     * @returns {ParsedAddress | undefined} Parsed address, or undefined if invalid
+     */
+    private parseAddress(address: string): ParsedAddress | undefined {
+        const ipv4 = this.parseIPv4(address);
+        if (ipv4) {
+            return { family: 4, parts: ipv4 };
+        }
+
+        if (!address.includes(':')) {
+            return undefined;
+        }
+        const halves = address.split('::');
+        if (halves.length > 2) {
+            return undefined;
+        }
+        const toGroups = (part: string): number[] | undefined => {
+            if (!part) {
+                return [];
+            }
+            const groups: number[] = [];
+            const segments = part.split(':');
+            for (const [index, segment] of segments.entries()) {
+                // Embedded IPv4 (::ffff:192.0.2.1) counts as two groups
+                const embedded =
+                    index === segments.length - 1
+                        ? this.parseIPv4(segment)
+                        : undefined;
+                if (embedded) {
+                    groups.push(
+                        (embedded[0] << 8) | embedded[1],
+                        (embedded[2] << 8) | embedded[3]
+                    );
+                } else if (/^[0-9a-f]{1,4}$/i.test(segment)) {
+                    groups.push(parseInt(segment, 16));
+                } else {
+                    return undefined;
+                }
+            }
+            return groups;
+        };
+
+        const head = toGroups(halves[0]);
+        const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+        if (!head || !tail) {
+            return undefined;
+        }
+        const missing = 8 - head.length - tail.length;
+        if (halves.length === 2 ? missing < 1 : missing !== 0) {
+            return undefined;
+        }
+
+        return {
+            family: 6,
+            parts: [...head, ...new Array<number>(missing).fill(0), ...tail],
+        };
+    }
+
+    /**
+     * Parse a dotted IPv4 address
+     *
+     * @private
+     * @param {string} address - Address
+     * @returns {number[] | undefined} Octets, or undefined if invalid
+     */
+    private parseIPv4(address: string): number[] | undefined {
+        const match = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/.exec(
+            address
+        );
+        if (!match) {
+            return undefined;
+        }
+        const octets = match.slice(1).map(Number);
+        return octets.some((octet) => octet > 255) ? undefined : octets;
+    }
+
+    /**
+     * Get a header value as a single string (repeated headers joined with commas)
+     *
+     * @private
+     * @param {unknown} value - Header value
+     * @returns {string | undefined} Header value
+     */
+    private headerValue(value: unknown): string | undefined {
+        if (Array.isArray(value)) {
+            return value.join(',');
+        }
+        return typeof value === 'string' && value ? value : undefined;
+    }
+
+    /**
+     * Get the first comma-separated value of a header
+     *
+     * @private
+     * @param {unknown} value - Header value
+     * @returns {string | undefined} First value, trimmed
+     */
+    private firstValue(value: unknown): string | undefined {
+        return this.headerValue(value)?.split(',')[0].trim() || undefined;
+    }
+}
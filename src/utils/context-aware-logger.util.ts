@@ -0,0 +1,132 @@
+/**
+ * @file Context Aware Logger
+ * @description LoggerService wrapper that adds the current request context to messages
+ * @author samofprog
+ * @license MIT
+ */
+
+import { Logger, LoggerService, LogLevel } from '@nestjs/common';
+import { RequestContext } from './request-context.util';
+
+/**
+ * LoggerService wrapper enriching every message with the request context.
+ *
+ * Purpose:
+ * - Append `requestId`, `method` and `path` of the current request to application logs
+ * - Merge the same fields into object messages (structured logging)
+ * - Leave messages untouched outside of a request scope
+ * - Log `error(new Error())` with the context appended and the stack as
+ *   trace; `Error` messages of other levels are passed unchanged
+ * - Fall back to `log` for levels missing on the wrapped logger
+ *
+ * Requires the `requestContext` option of RequestLoggerMiddleware.
+ *
+ * @class ContextAwareLogger
+ * @implements {LoggerService}
+ *
+ * @example
+ * ```typescript
+ * import { ContextAwareLogger } from '@samofprog/nestjs-request-logger';
+ *
+ * @Injectable()
+ * export class UsersService {
+ *   private readonly logger = new ContextAwareLogger(new Logger(UsersService.name));
+ *
+ *   findAll() {
+ *     this.logger.log('Loading users');
+ *     // Loading users requestId=3f2b6c1e-... method=GET path=/api/users
+ *   }
+ * }
+ * ```
+ */
+export class ContextAwareLogger implements LoggerService {
+    /**
+     * Create a new ContextAwareLogger instance
+     *
+     * @param {LoggerService} [logger=new Logger()] - Logger receiving the enriched messages
+     */
+    constructor(private readonly logger: LoggerService = new Logger()) {}
+
+    log(message: unknown, ...optionalParams: unknown[]): void {
+        this.write('log', message, optionalParams);
+    }
+
+    error(message: unknown, ...optionalParams: unknown[]): void {
+        // Keep the stack of an Error as the trace argument
+        if (
+            message instanceof Error &&
+            optionalParams.length === 0 &&
+            RequestContext.get()
+        ) {
+            this.logger.error(this.enrich(message), message.stack);
+            return;
+        }
+        this.write('error', message, optionalParams);
+    }
+
+    warn(message: unknown, ...optionalParams: unknown[]): void {
+        this.write('warn', message, optionalParams);
+    }
+
+    debug(message: unknown, ...optionalParams: unknown[]): void {
+        this.write('debug', message, optionalParams);
+    }
+
+    verbose(message: unknown, ...optionalParams: unknown[]): void {
+        this.write('verbose', message, optionalParams);
+    }
+
+    fatal(message: unknown, ...optionalParams: unknown[]): void {
+        this.write('fatal', message, optionalParams);
+    }
+
+    /**
+     * Write an enriched message at a level
+     *
+     * @private
+     * @param {LogLevel} level - Log level
+     * @param {unknown} message - Original message
+     * @param {unknown[]} optionalParams - Trace, context and other params
+     */
+    private write(
+        level: LogLevel,
+        message: unknown,
+        optionalParams: unknown[]
+    ): void {
+        // debug, verbose and fatal are optional in LoggerService
+        const write = this.logger[level] ?? this.logger.log;
+        write.call(
+            this.logger,
+            message instanceof Error ? message : this.enrich(message),
+            ...optionalParams
+        );
+    }
+
+    /**
+     * Add the current request context to a message
+     *
+     * @private
+     * @param {unknown} message - Original message
+     * @returns {unknown} Enriched message (string suffix or merged object)
+     */
+    private enrich(message: unknown): unknown {
+        const context = RequestContext.get();
+        if (!context) {
+            return message;
+        }
+
+        if (
+            typeof message === 'object' &&
+            message !== null &&
+            !Array.isArray(message) &&
+            !(message instanceof Error)
+        ) {
+            return { ...context, ...message };
+        }
+
+        const requestId = context.requestId
+            ? ` requestId=${context.requestId}`
+            : '';
+        return `${String(message)}${requestId} method=${context.method} path=${context.path}`;
+    }
+}
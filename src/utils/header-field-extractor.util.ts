@@ -68,11 +68,21 @@ export class HeaderFieldExtractor {
      * @returns {string} Formatted header fields string (empty string if no matches)
      */
     extract(headers: Headers): string {
-        if (this.headerFields.length === 0) {
-            return '';
-        }
+        const parts = Object.entries(this.select(headers)).map(
+            ([key, value]) => `${key}=${this.formatValue(value)}`
+        );
 
-        const parts: string[] = [];
+        return parts.length > 0 ? ` ${parts.join(' ')}` : '';
+    }
+
+    /**
+     * Select specified header fields as an object (used by structured output)
+     *
+     * @param {Headers} headers - Headers object to extract from
+     * @returns {Headers} Matching header fields keyed by header name or nested path
+     */
+    select(headers: Headers): Headers {
+        const selected: Headers = {};
 
         for (const fieldPath of this.headerFields) {
             const lowerFieldPath = fieldPath.toLowerCase();
@@ -83,7 +93,7 @@ export class HeaderFieldExtractor {
                     key.toLowerCase() === lowerFieldPath &&
                     !this.isNestedPath(fieldPath)
                 ) {
-                    parts.push(`${key}=${this.formatValue(value)}`);
+                    selected[key] = value;
                     break;
                 }
 
@@ -98,14 +108,14 @@ export class HeaderFieldExtractor {
                         fieldPath
                     );
                     if (nestedValue !== undefined) {
-                        parts.push(`${fieldPath}=${nestedValue}`);
+                        selected[fieldPath] = nestedValue;
                         break;
                     }
                 }
             }
         }
 
-        return parts.length > 0 ? ` ${parts.join(' ')}` : '';
+        return selected;
     }
 
     /**
@@ -5,7 +5,9 @@
  * @license MIT
  */
 
-import { Headers } from '../types';
+import { createHash } from 'crypto';
+import { Headers, HeaderSanitizerOptions } from '../types';
+import { PatternCompiler } from './pattern-compiler.util';
 import { DEFAULT_SENSITIVE_HEADERS } from '../constants';
 
 /**
@@ -13,41 +15,75 @@ import { DEFAULT_SENSITIVE_HEADERS } from '../constants';
  *
  * Purpose:
  * - Masks sensitive headers (authorization, cookies, API keys, etc)
- * - Provides O(1) lookup performance using Set
- * - Supports custom sensitive header lists
+ * - Provides O(1) lookup performance using Set for exact header names
+ * - Supports glob (`x-*-token`) and RegExp header name patterns
+ * - Supports redaction, partial masking, hashing or a custom mask function
+ * - Supports custom sensitive header lists, replacing or extending the defaults
  *
  * @class HeaderSanitizer
  *
  * @example
  * ```typescript
- * import { HeaderSanitizer } from '@samofprog/nestjs-request-logger/utils';
+ * import { HeaderSanitizer } from '@samofprog/nestjs-request-logger';
  *
  * // Use default sensitive headers
  * const sanitizer = new HeaderSanitizer();
  * const sanitized = sanitizer.sanitize(headers);
  *
  * // Or use custom list
- * const customSanitizer = new HeaderSanitizer({
- *   sensitiveHeaders: ['authorization', 'x-api-key', 'x-custom-secret']
+ * const customSanitizer = new HeaderSanitizer([
+ *   'authorization',
+ *   'x-*-token',
+ *   /^x-secret-/i,
+ * ]);
+ *
+ * // Extend the defaults and hash values so tokens can be correlated
+ * const hashingSanitizer = new HeaderSanitizer(['x-session-id'], {
+ *   mergeWithDefaults: true,
+ *   strategy: 'hash',
  * });
  * ```
  */
 export class HeaderSanitizer {
     private readonly sensitiveSet: Set<string>;
+    private readonly sensitivePatterns: RegExp[];
+    private readonly maskValue: (value: unknown, headerName: string) => unknown;
 
     /**
      * Create a new HeaderSanitizer instance
      *
-     * @param {string[]} sensitiveHeaders - Header names to mask (case-insensitive)
-     *                                     @default DEFAULT_SENSITIVE_HEADERS
+     * @param {(string | RegExp)[]} sensitiveHeaders - Header names or patterns to mask (case-insensitive)
+     *                                                @default DEFAULT_SENSITIVE_HEADERS
+     * @param {HeaderSanitizerOptions} [options={}] - Masking strategy options
      */
     constructor(
-        sensitiveHeaders: readonly string[] = DEFAULT_SENSITIVE_HEADERS
+        sensitiveHeaders: readonly (
+            | string
+            | RegExp
+        )[] = DEFAULT_SENSITIVE_HEADERS,
+        options: HeaderSanitizerOptions = {}
     ) {
+        const headers = options.mergeWithDefaults
+            ? [...DEFAULT_SENSITIVE_HEADERS, ...sensitiveHeaders]
+            : sensitiveHeaders;
+
         // Pre-compute lowercase sensitive header names for O(1) lookup
         this.sensitiveSet = new Set(
-            sensitiveHeaders.map((key) => key.toLowerCase())
+            headers
+                .filter(
+                    (key): key is string =>
+                        typeof key === 'string' && !key.includes('*')
+                )
+                .map((key) => key.toLowerCase())
         );
+        this.sensitivePatterns = headers
+            .filter((key) => typeof key !== 'string' || key.includes('*'))
+            .map((key) =>
+                typeof key === 'string'
+                    ? PatternCompiler.compile(key, 'i')
+                    : PatternCompiler.stateless(key)
+            );
+        this.maskValue = this.createMask(options);
     }
 
     /**
@@ -65,12 +101,89 @@ export class HeaderSanitizer {
         const sanitized: Headers = {};
 
         for (const key of headerKeys) {
-            const lowerKey = key.toLowerCase();
-            sanitized[key] = this.sensitiveSet.has(lowerKey)
-                ? '[REDACTED]'
+            sanitized[key] = this.isSensitive(key)
+                ? this.maskValue(headers[key], key)
                 : headers[key];
         }
 
         return sanitized;
     }
+
+    /**
+     * Check whether a header name is sensitive
+     *
+     * @param {string} headerName - Header name
+     * @returns {boolean} True if the header value should be masked
+     */
+    isSensitive(headerName: string): boolean {
+        const lowerKey = headerName.toLowerCase();
+        return (
+            this.sensitiveSet.has(lowerKey) ||
+            this.sensitivePatterns.some(
+                (pattern) => pattern.test(lowerKey) || pattern.test(headerName)
+            )
+        );
+    }
+
+    /**
+     * Build the mask function for the configured strategy
+     *
+     * @private
+     * @param {HeaderSanitizerOptions} options - Sanitizer options
+     * @returns {Function} Mask function
+     */
+    private createMask(
+        options: HeaderSanitizerOptions
+    ): (value: unknown, headerName: string) => unknown {
+        const strategy = options.strategy ?? 'redact';
+
+        if (typeof strategy === 'function') {
+            return strategy;
+        }
+
+        if (strategy === 'partial') {
+            const visible = options.partialMask ?? 4;
+            // slice(-0) keeps the whole value: only positive integers are valid
+            const valid = Number.isInteger(visible) && visible > 0;
+            return (value) =>
+                this.mapValues(value, (text) =>
+                    valid && text.length > visible
+                        ? `****${text.slice(-visible)}`
+                        : '[REDACTED]'
+                );
+        }
+
+        if (strategy === 'hash') {
+            const salt = options.hashSalt ?? '';
+            return (value) =>
+                this.mapValues(
+                    value,
+                    (text) =>
+                        `sha256:${createHash('sha256')
+                            .update(salt + text)
+                            .digest('hex')
+                            .slice(0, 16)}`
+                );
+        }
+
+        return () => '[REDACTED]';
+    }
+
+    /**
+     * Apply a transformation to a header value (each item for array values)
+     *
+     * @private
+     * @param {unknown} value - Header value
+     * @param {Function} transform - Transformation of a single string value
+     * @returns {unknown} Transformed value
+     */
+    private mapValues(
+        value: unknown,
+        transform: (text: string) => string
+    ): unknown {
+        if (Array.isArray(value)) {
+            return value.map((item) => transform(String(item)));
+        }
+        return transform(String(value ?? ''));
+    }
 }
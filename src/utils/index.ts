@@ -6,7 +6,31 @@
  */
 
 export { HeaderSanitizer } from './header-sanitizer.util';
+export { BodySanitizer } from './body-sanitizer.util';
 export { NestedExtractor } from './nested-extractor.util';
 export { PathMatcher } from './path-matcher.util';
+export { PatternCompiler } from './pattern-compiler.util';
 export { HeaderFieldExtractor } from './header-field-extractor.util';
 export { LogMessageFormatter } from './log-message-formatter.util';
+export { StructuredLogFormatter } from './structured-log-formatter.util';
+export { ResponseBodyCapture } from './response-body-capture.util';
+export { RequestIdResolver } from './request-id-resolver.util';
+export { RequestContext } from './request-context.util';
+export { ContextAwareLogger } from './context-aware-logger.util';
+export { RequestSampler } from './request-sampler.util';
+export { SlowRequestDetector } from './slow-request-detector.util';
+export { LogLevelResolver } from './log-level-resolver.util';
+export { RequestExceptionRecorder } from './request-exception-recorder.util';
+export { RouteNormalizer } from './route-normalizer.util';
+export { QuerySanitizer } from './query-sanitizer.util';
+export { UserAgentParser } from './user-agent-parser.util';
+export { ClientMetadataExtractor } from './client-metadata-extractor.util';
+export { PayloadSizeTracker } from './payload-size-tracker.util';
+export { BodySerializer } from './body-serializer.util';
+export { RequestBodyParser } from './request-body-parser.util';
+export { LogTransportDispatcher } from './log-transport-dispatcher.util';
+export { LoggerServiceTransport } from './logger-service-transport.util';
+export { StdoutTransport } from './stdout-transport.util';
+export { RotatingFileTransport } from './rotating-file-transport.util';
+export { MemoryTransport } from './memory-transport.util';
+export { LogBuffer } from './log-buffer.util';
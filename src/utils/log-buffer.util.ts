@@ -0,0 +1,218 @@
+/**
+ * @file Log Buffer Utility Class
+ * @description Queues request log lines and writes them in batches off the request path
+ * @author samofprog
+ * @license MIT
+ */
+
+import {
+    LogBufferOptions,
+    LogBufferOverflow,
+    LogTransportEvent,
+} from '../types';
+
+/**
+ * Default number of queued lines that triggers a flush
+ */
+const DEFAULT_MAX_BATCH_SIZE = 100;
+
+/**
+ * Default interval between flushes, in milliseconds
+ */
+const DEFAULT_FLUSH_INTERVAL_MS = 1000;
+
+/**
+ * Default number of lines queued before the overflow policy applies
+ */
+const DEFAULT_MAX_QUEUE_SIZE = 10000;
+
+/**
+ * Queued line and the writer it is written with
+ */
+interface QueuedLine {
+    event: LogTransportEvent;
+    write: (event: LogTransportEvent) => void;
+}
+
+/**
+ * Utility class for buffering request log lines.
+ *
+ * Purpose:
+ * - Queue unformatted lines, stamped with the time they were logged, so
+ *   formatting and writing happen outside the request path
+ * - Flush every `flushIntervalMs`, and as soon as `maxBatchSize` lines are
+ *   queued (on the next turn of the event loop)
+ * - Apply the `overflow` policy when `maxQueueSize` lines are queued, and
+ *   count dropped lines
+ * - Share one queue between several writers (`enqueue(event, write)`)
+ *
+ * Lines queued when the process crashes are lost; call `close()` on
+ * shutdown to write them. Lines logged after `close()` are written directly.
+ *
+ * @class LogBuffer
+ *
+ * @example
+ * ```typescript
+ * import { LogBuffer } from '@samofprog/nestjs-request-logger';
+ *
+ * const buffer = new LogBuffer((event) => dispatcher.dispatch(event), {
+ *   maxBatchSize: 500,
+ *   overflow: 'drop-new',
+ * });
+ *
+ * buffer.enqueue({ level: 'log', event: 'request.incoming', details });
+ * buffer.dropped; // 0
+ * buffer.close(); // on shutdown
+ * ```
+ */
+export class LogBuffer {
+    private readonly queue: QueuedLine[] = [];
+    private readonly maxBatchSize: number;
+    private readonly maxQueueSize: number;
+    private readonly overflow: LogBufferOverflow;
+    private readonly timer: ReturnType<typeof setInterval>;
+    private droppedCount = 0;
+    private reportedCount = 0;
+    private scheduled = false;
+    private closed = false;
+
+    /**
+     * Create a new LogBuffer instance
+     *
+     * @param {Function} write - Writes one line (called in batches)
+     * @param {LogBufferOptions} [options={}] - Buffer options
+     * @param {number} [options.maxBatchSize=100] - Queued lines that trigger a flush, and lines written per batch
+     * @param {number} [options.flushIntervalMs=1000] - Interval between flushes
+     * @param {number} [options.maxQueueSize=10000] - Lines queued before `overflow` applies
+     * @param {LogBufferOverflow} [options.overflow='drop-oldest'] - Backpressure policy
+     * @param {Function} [onDrop] - Called after a flush with the lines dropped since the previous call
+     */
+    constructor(
+        private readonly write: (event: LogTransportEvent) => void,
+        options: LogBufferOptions = {},
+        private readonly onDrop?: (dropped: number) => void
+    ) {
+        // Sizes and interval are at least 1
+        this.maxBatchSize = Math.max(
+            1,
+            options.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE
+        );
+        this.maxQueueSize = Math.max(
+            1,
+            options.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE
+        );
+        this.overflow = options.overflow ?? 'drop-oldest';
+        const flushIntervalMs = Math.max(
+            1,
+            options.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS
+        );
+
+        this.timer = setInterval(() => this.flush(), flushIntervalMs);
+        // The timer must never keep the process alive
+        this.timer.unref?.();
+    }
+
+    /**
+     * Lines dropped by the overflow policy since the buffer was created
+     *
+     * @returns {number} Dropped line count
+     */
+    get dropped(): number {
+        return this.droppedCount;
+    }
+
+    /**
+     * Lines currently queued
+     *
+     * @returns {number} Queue length
+     */
+    get size(): number {
+        return this.queue.length;
+    }
+
+    /**
+     * Queue a line, applying the overflow policy when the queue is full
+     *
+     * @param {LogTransportEvent} event - Unformatted line
+     * @param {Function} [write] - Writer of this line, instead of the buffer's
+     * @returns {void}
+     */
+    enqueue(
+        event: LogTransportEvent,
+        write: (event: LogTransportEvent) => void = this.write
+    ): void {
+        const stamped =
+            event.timestamp === undefined
+                ? { ...event, timestamp: Date.now() }
+                : event;
+
+        if (this.closed) {
+            write(stamped);
+            return;
+        }
+
+        if (this.queue.length >= this.maxQueueSize) {
+            if (this.overflow === 'drop-new') {
+                this.droppedCount++;
+                return;
+            }
+            if (this.overflow === 'drop-oldest') {
+                this.queue.shift();
+                this.droppedCount++;
+            } else {
+                this.writeBatch();
+            }
+        }
+
+        this.queue.push({ event: stamped, write });
+
+        if (this.queue.length >= this.maxBatchSize && !this.scheduled) {
+            this.scheduled = true;
+            setImmediate(() => {
+                this.scheduled = false;
+                this.flush();
+            });
+        }
+    }
+
+    /**
+     * Write every queued line, in batches of `maxBatchSize`
+     *
+     * @returns {void}
+     */
+    flush(): void {
+        while (this.queue.length > 0) {
+            this.writeBatch();
+        }
+
+        if (this.droppedCount > this.reportedCount) {
+            const dropped = this.droppedCount - this.reportedCount;
+            this.reportedCount = this.droppedCount;
+            this.onDrop?.(dropped);
+        }
+    }
+
+    /**
+     * Stop the flush timer and write every queued line; later lines are
+     * written directly
+     *
+     * @returns {void}
+     */
+    close(): void {
+        clearInterval(this.timer);
+        this.closed = true;
+        this.flush();
+    }
+
+    /**
+     * Write the oldest batch of queued lines
+     *
+     * @private
+     * @returns {void}
+     */
+    private writeBatch(): void {
+        for (const line of this.queue.splice(0, this.maxBatchSize)) {
+            line.write(line.event);
+        }
+    }
+}
@@ -0,0 +1,160 @@
+/**
+ * @file Log Level Resolver Utility Class
+ * @description Maps completed requests to log levels by status, route or function
+ * @author samofprog
+ * @license MIT
+ */
+
+import { LogLevel } from '@nestjs/common';
+import {
+    CompletedRequestDetails,
+    LevelForStatus,
+    RouteLogLevelRule,
+    StatusLevelMap,
+} from '../types';
+import { PathMatcher } from './path-matcher.util';
+
+/**
+ * Log levels ordered by severity
+ */
+const SEVERITY: LogLevel[] = [
+    'verbose',
+    'debug',
+    'log',
+    'warn',
+    'error',
+    'fatal',
+];
+
+/**
+ * Utility class for resolving the log level of a completed request.
+ *
+ * Purpose:
+ * - Map status classes (`4xx`) or exact codes (`404`) to levels
+ * - Accept a fixed level or a `(details) => LogLevel` function
+ * - Override the level per route (first matching rule wins)
+ * - Raise slow requests to at least `warn`
+ * - Fall back to the default status-based level when a level function
+ *   throws, reporting the error through `onError`
+ *
+ * @class LogLevelResolver
+ *
+ * @example
+ * ```typescript
+ * import { LogLevelResolver } from '@samofprog/nestjs-request-logger';
+ *
+ * const resolver = new LogLevelResolver({
+ *   levelForStatus: { '3xx': 'debug', '4xx': 'warn' },
+ *   routes: [{ path: '/health', level: 'debug' }],
+ * });
+ *
+ * resolver.resolve({ method: 'GET', path: '/api', statusCode: 404, durationMs: '3.10' }); // 'warn'
+ * ```
+ */
+export class LogLevelResolver {
+    private readonly levelForStatus?: LevelForStatus;
+    private readonly routes: { matcher: PathMatcher; level: LevelForStatus }[];
+    private readonly onError?: (error: unknown) => void;
+
+    /**
+     * Create a new LogLevelResolver instance
+     *
+     * @param {Object} options - Resolver options
+     * @param {LevelForStatus} [options.levelForStatus] - Global level configuration
+     * @param {RouteLogLevelRule[]} [options.routes=[]] - Per-route overrides
+     * @param {Function} [options.onError] - Called when a level function throws
+     */
+    constructor(
+        options: {
+            levelForStatus?: LevelForStatus;
+            routes?: RouteLogLevelRule[];
+            onError?: (error: unknown) => void;
+        } = {}
+    ) {
+        this.levelForStatus = options.levelForStatus;
+        this.onError = options.onError;
+        this.routes = (options.routes ?? []).map((route) => ({
+            matcher: new PathMatcher([
+                { method: route.method, path: route.path },
+            ]),
+            level: route.level,
+        }));
+    }
+
+    /**
+     * Resolve the log level of a completed request
+     *
+     * @param {CompletedRequestDetails} details - Completed request details
+     * @returns {LogLevel} Log level
+     */
+    resolve(details: CompletedRequestDetails): LogLevel {
+        const route = this.routes.find((candidate) =>
+            candidate.matcher.matches(details.path, details.method)
+        );
+        const level = this.apply(
+            route ? route.level : this.levelForStatus,
+            details
+        );
+
+        if (details.slow && this.severity(level) < this.severity('warn')) {
+            return 'warn';
+        }
+        return level;
+    }
+
+    /**
+     * Apply a level configuration to a request
+     *
+     * @private
+     * @param {LevelForStatus | undefined} config - Level configuration
+     * @param {CompletedRequestDetails} details - Completed request details
+     * @returns {LogLevel} Log level
+     */
+    private apply(
+        config: LevelForStatus | undefined,
+        details: CompletedRequestDetails
+    ): LogLevel {
+        if (typeof config === 'function') {
+            try {
+                return config(details);
+            } catch (error) {
+                this.onError?.(error);
+                return this.fromStatusMap({}, details.statusCode);
+            }
+        }
+        if (typeof config === 'string') {
+            return config;
+        }
+        return this.fromStatusMap(config ?? {}, details.statusCode);
+    }
+
+    /**
+     * Look up a status code in a status map
+     *
+     * @private
+     * @param {StatusLevelMap} map - Status map
+     * @param {number} statusCode - Response status code
+     * @returns {LogLevel} Mapped level, or the default level for the status
+     */
+    private fromStatusMap(map: StatusLevelMap, statusCode: number): LogLevel {
+        const exact = map[`${statusCode}`];
+        if (exact) {
+            return exact;
+        }
+
+        const statusClass =
+            `${Math.floor(statusCode / 100)}xx` as keyof StatusLevelMap;
+        return map[statusClass] ?? (statusCode >= 400 ? 'error' : 'log');
+    }
+
+    /**
+     * Get the severity rank of a level
+     *
+     * @private
+     * @param {LogLevel} level - Log level
+     * @returns {number} Rank (higher is more severe)
+     */
+    private severity(level: LogLevel): number {
+        return SEVERITY.indexOf(level);
+    }
+}
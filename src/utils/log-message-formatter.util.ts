@@ -6,10 +6,15 @@
  */
 
 import {
+    ClientMetadata,
     CompletedRequestDetails,
+    HeaderSanitizerFunction,
     MessageFormatters,
     RequestDetails,
+    RequestHandlerMetadata,
+    RequestOutcome,
 } from '../types';
+import { BodySerializer } from './body-serializer.util';
 import { HeaderFieldExtractor } from './header-field-extractor.util';
 import { HeaderSanitizer } from './header-sanitizer.util';
 
@@ -24,6 +29,7 @@ import { HeaderSanitizer } from './header-sanitizer.util';
  * - Custom header field extraction
  * - Automatic header sanitization
  * - Request body logging
+ * - Safe body serialization (circular references, BigInt, Buffers)
  *
  * @class LogMessageFormatter
  *
@@ -47,28 +53,45 @@ import { HeaderSanitizer } from './header-sanitizer.util';
  */
 export class LogMessageFormatter implements MessageFormatters {
     private readonly headerFieldExtractor: HeaderFieldExtractor;
-    private readonly headerSanitizer: HeaderSanitizer;
+    private readonly responseHeaderFieldExtractor: HeaderFieldExtractor;
+    private readonly sanitizeHeaders: HeaderSanitizerFunction;
     private readonly logRequestBody: boolean;
+    private readonly serializer = new BodySerializer();
 
     /**
      * Create a new LogMessageFormatter instance
      *
      * @param {Object} options - Formatter options
      * @param {string[]} [options.headerFields=[]] - Header fields to extract
+     * @param {string[]} [options.responseHeaderFields=[]] - Response header fields to extract
      * @param {boolean} [options.logRequestBody=false] - Whether to log request body
-     * @param {string[]} [options.sensitiveHeaders] - Custom list of sensitive headers
+     * @param {(string | RegExp)[]} [options.sensitiveHeaders] - Custom list of sensitive headers
+     * @param {HeaderSanitizerFunction} [options.sanitizeHeaders] - Custom header sanitizer (replaces `sensitiveHeaders` masking)
      */
     constructor(
         options: {
             headerFields?: string[];
+            responseHeaderFields?: string[];
             logRequestBody?: boolean;
-            sensitiveHeaders?: string[];
+            sensitiveHeaders?: (string | RegExp)[];
+            sanitizeHeaders?: HeaderSanitizerFunction;
         } = {}
     ) {
         this.headerFieldExtractor = new HeaderFieldExtractor(
             options.headerFields ?? []
         );
-        this.headerSanitizer = new HeaderSanitizer(options.sensitiveHeaders);
+        this.responseHeaderFieldExtractor = new HeaderFieldExtractor(
+            options.responseHeaderFields ?? []
+        );
+        if (options.sanitizeHeaders) {
+            this.sanitizeHeaders = options.sanitizeHeaders;
+        } else {
+            const headerSanitizer = new HeaderSanitizer(
+                options.sensitiveHeaders
+            );
+            this.sanitizeHeaders = (headers) =>
+                headerSanitizer.sanitize(headers);
+        }
         this.logRequestBody = options.logRequestBody ?? false;
     }
 
@@ -79,14 +102,14 @@ export class LogMessageFormatter implements MessageFormatters {
      * @returns {string} Formatted log message
      */
     incoming = (details: RequestDetails): string => {
-        const sanitizedHeaders = this.headerSanitizer.sanitize(details.headers);
-        const headerFields =
-            this.headerFieldExtractor.extract(sanitizedHeaders);
+        const requestId = this.formatRequestId(details.requestId);
+        const handler = this.formatHandler(details);
+        const requestFields = this.formatRequestFields(details);
 
-        let message = `Incoming request: method=${details.method} path=${details.path}${headerFields}`;
+        let message = `Incoming request: method=${details.method} path=${details.path}${requestId}${handler}${requestFields}`;
 
         if (this.logRequestBody && details.body) {
-            message += ` body=${JSON.stringify(details.body)}`;
+            message += ` body=${this.serializer.stringify(details.body)}`;
         }
 
         return message;
@@ -99,12 +122,167 @@ export class LogMessageFormatter implements MessageFormatters {
      * @returns {string} Formatted log message
      */
     completed = (details: CompletedRequestDetails): string => {
-        let message = `Request completed: method=${details.method} path=${details.path} statusCode=${details.statusCode} durationMs=${details.durationMs}ms`;
+        const requestId = this.formatRequestId(details.requestId);
+        const handler = this.formatHandler(details);
+        // completion-only mode: request fields before the response fields
+        const requestFields = details.request
+            ? this.formatRequestFields(details.request)
+            : '';
+
+        const responseHeaderFields = details.responseHeaders
+            ? this.responseHeaderFieldExtractor.extract(
+                  this.sanitizeHeaders(details.responseHeaders)
+              )
+            : '';
+
+        let message = `${this.completedPrefix(details.outcome)}: method=${details.method} path=${details.path}${requestId}${handler}${requestFields} statusCode=${details.statusCode} durationMs=${details.durationMs}ms${responseHeaderFields}`;
+
+        if (details.requestBytes !== undefined) {
+            message += ` requestBytes=${details.requestBytes}`;
+        }
+
+        if (details.responseBytes !== undefined) {
+            message += ` responseBytes=${details.responseBytes}`;
+        }
+
+        if (details.slow) {
+            message += ' slow=true';
+        }
+
+        if (details.bytesSent !== undefined) {
+            message += ` bytesSent=${details.bytesSent}`;
+        }
+
+        if (details.abortReason) {
+            message += ` reason=${JSON.stringify(details.abortReason)}`;
+        }
+
+        if (details.error) {
+            message += ` error.name=${details.error.name} error.message=${JSON.stringify(details.error.message)}`;
+            if (details.error.response !== undefined) {
+                message += ` error.response=${this.serializer.stringify(details.error.response)}`;
+            }
+            if (details.error.stack) {
+                message += ` error.stack=${JSON.stringify(details.error.stack)}`;
+            }
+        }
+
+        if (this.logRequestBody && details.request?.body) {
+            message += ` requestBody=${this.serializer.stringify(details.request.body)}`;
+        }
 
         if (details.responseData) {
-            message += ` body=${JSON.stringify(details.responseData)}`;
+            message += ` body=${this.serializer.stringify(details.responseData)}`;
         }
 
         return message;
     };
+
+    /**
+     * Get the message prefix of a completed request line
+     *
+     * @private
+     * @param {RequestOutcome} [outcome='completed'] - Request outcome
+     * @returns {string} Message prefix
+     */
+    private completedPrefix(outcome?: RequestOutcome): string {
+        if (outcome === 'aborted') {
+            return 'Request aborted';
+        }
+        if (outcome === 'in-flight') {
+            return 'Request still in flight';
+        }
+        return 'Request completed';
+    }
+
+    /**
+     * Format the request ID segment (empty string when absent)
+     *
+     * @private
+     * @param {string} [requestId] - Request ID
+     * @returns {string} ` requestId=<id>` or empty string
+     */
+    private formatRequestId(requestId?: string): string {
+        return requestId ? ` requestId=${requestId}` : '';
+    }
+
+    /**
+     * Format the route, controller and handler segment (empty when absent)
+     *
+     * @private
+     * @param {RequestHandlerMetadata} metadata - Route handler metadata
+     * @returns {string} ` route=<route> controller=<class> handler=<method>` or empty string
+     */
+    private formatHandler(metadata: RequestHandlerMetadata): string {
+        let segment = '';
+        if (metadata.route) {
+            segment += ` route=${metadata.route}`;
+        }
+        if (metadata.controller) {
+            segment += ` controller=${metadata.controller}`;
+        }
+        if (metadata.handler) {
+            segment += ` handler=${metadata.handler}`;
+        }
+        return segment;
+    }
+
+    /**
+     * Format the request header fields, query and client metadata segment
+     *
+     * @private
+     * @param {RequestDetails} details - Request details
+     * @returns {string} Segment, or empty string when nothing is logged
+     */
+    private formatRequestFields(details: RequestDetails): string {
+        let segment = this.headerFieldExtractor.extract(
+            this.sanitizeHeaders(details.headers)
+        );
+
+        if (details.query && Object.keys(details.query).length > 0) {
+            segment += ` query=${this.serializer.stringify(details.query)}`;
+        }
+
+        return segment + this.formatClient(details.client);
+    }
+
+    /**
+     * Format the client metadata segment (empty when absent)
+     *
+     * @private
+     * @param {ClientMetadata} [client] - Client metadata
+     * @returns {string} ` client.ip=<ip> client.protocol=<protocol> ...` or empty string
+     */
+    private formatClient(client?: ClientMetadata): string {
+        if (!client) {
+            return '';
+        }
+
+        const withVersion = (name?: string, version?: string) =>
+            name && version ? `${name}/${version}` : name;
+        const fields: [string, string | boolean | undefined][] = [
+            ['ip', client.ip],
+            ['forwardedFor', client.forwardedFor?.join(',')],
+            ['httpVersion', client.httpVersion],
+            ['protocol', client.protocol],
+            ['host', client.host],
+            [
+                'browser',
+                withVersion(
+                    client.userAgent?.browser,
+                    client.userAgent?.browserVersion
+                ),
+            ],
+            [
+                'os',
+                withVersion(client.userAgent?.os, client.userAgent?.osVersion),
+            ],
+            ['bot', client.userAgent?.bot],
+        ];
+
+        return fields
+            .filter(([, value]) => value !== undefined)
+            .map(([key, value]) => ` client.${key}=${value}`)
+            .join('');
+    }
 }
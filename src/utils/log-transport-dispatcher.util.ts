@@ -0,0 +1,219 @@
+/**
+ * @file Log Transport Dispatcher Utility Class
+ * @description Fans request log lines out to transports with per-transport level and format
+ * @author samofprog
+ * @license MIT
+ */
+
+import { LogLevel } from '@nestjs/common';
+import {
+    CompletedRequestDetails,
+    LogEntryFormatters,
+    LogOutputFormat,
+    LogTransport,
+    LogTransportDispatcherOptions,
+    LogTransportEvent,
+    LogTransportFormat,
+    RequestDetails,
+} from '../types';
+
+/**
+ * Severity of each level, lowest first (same order as the Nest Logger)
+ */
+const LEVEL_SEVERITY: Record<LogLevel, number> = {
+    verbose: 0,
+    debug: 1,
+    log: 2,
+    warn: 3,
+    error: 4,
+    fatal: 5,
+};
+
+/**
+ * Utility class for writing request log lines to several transports.
+ *
+ * Purpose:
+ * - Skip transports whose minimum `level` is above the line's level
+ * - Format each line once per distinct transport `format`
+ * - Isolate transports: a throwing or rejecting transport is reported
+ *   through `onError` and never prevents the others from being written
+ *
+ * @class LogTransportDispatcher
+ *
+ * @example
+ * ```typescript
+ * import { LogTransportDispatcher, MemoryTransport } from '@samofprog/nestjs-request-logger';
+ *
+ * const memory = new MemoryTransport({ level: 'warn', format: (event) => event.details.path });
+ * const dispatcher = new LogTransportDispatcher({
+ *   transports: [memory],
+ *   formatter,
+ *   formatterFor: (format) => formatters[format],
+ * });
+ *
+ * dispatcher.dispatch({ level: 'error', event: 'request.completed', details });
+ * memory.entries[0].message; // '/users'
+ * ```
+ */
+export class LogTransportDispatcher {
+    private readonly formatters = new Map<
+        LogOutputFormat,
+        LogEntryFormatters
+    >();
+
+    /**
+     * Create a new LogTransportDispatcher instance
+     *
+     * @param {LogTransportDispatcherOptions} options - Dispatcher options
+     * @param {LogTransport[]} options.transports - Transports every line is fanned out to
+     * @param {LogEntryFormatters} options.formatter - Formatters of transports without a `format`
+     * @param {Function} options.formatterFor - Builds the built-in formatters of an output format
+     * @param {Function} [options.onError] - Called when a transport throws or rejects
+     */
+    constructor(private readonly options: LogTransportDispatcherOptions) {}
+
+    /**
+     * Write a line to every transport accepting its level
+     *
+     * @param {LogTransportEvent} event - Unformatted line
+     * @returns {void}
+     */
+    dispatch(event: LogTransportEvent): void {
+        // Transports sharing a format share the formatted message
+        const messages = new Map<LogTransportFormat | undefined, unknown>();
+
+        for (const transport of this.options.transports) {
+            if (!this.accepts(transport, event.level)) {
+                continue;
+            }
+
+            try {
+                if (!messages.has(transport.format)) {
+                    messages.set(
+                        transport.format,
+                        this.format(transport.format, event)
+                    );
+                }
+                const result = transport.write({
+                    ...event,
+                    message: messages.get(transport.format),
+                });
+                if (result && typeof result.then === 'function') {
+                    result.then(undefined, (error: unknown) =>
+                        this.options.onError?.(error, transport)
+                    );
+                }
+            } catch (error) {
+                this.options.onError?.(error, transport);
+            }
+        }
+    }
+
+    /**
+     * Flush every transport that buffers lines
+     *
+     * A failing transport is reported through `onError` and never prevents
+     * the others from being flushed.
+     *
+     * @returns {Promise<void>} Resolves once all transports are settled
+     */
+    async flush(): Promise<void> {
+        await this.settle((transport) => transport.flush?.());
+    }
+
+    /**
+     * Close every transport holding resources
+     *
+     * A failing transport is reported through `onError` and never prevents
+     * the others from being closed.
+     *
+     * @returns {Promise<void>} Resolves once all transports are settled
+     */
+    async close(): Promise<void> {
+        await this.settle((transport) => transport.close?.());
+    }
+
+    /**
+     * Run an operation on every transport and report each failure
+     *
+     * @private
+     * @param {Function} operation - Operation run on each transport
+     * @returns {Promise<void>} Resolves once every operation is settled
+     */
+    private async settle(
+        operation: (transport: LogTransport) => void | Promise<void>
+    ): Promise<void> {
+        const { transports } = this.options;
+        // Wrapped so a synchronous throw is settled like a rejection
+        const results = await Promise.allSettled(
+            transports.map(async (transport) => operation(transport))
+        );
+
+        results.forEach((result, index) => {
+            if (result.status === 'rejected') {
+                this.options.onError?.(result.reason, transports[index]);
+            }
+        });
+    }
+
+    /**
+     * Check whether a transport accepts a level
+     *
+     * @private
+     * @param {LogTransport} transport - Transport to check
+     * @param {LogLevel} level - Level of the line
+     * @returns {boolean} True when the level reaches the transport's minimum level
+     */
+    private accepts(transport: LogTransport, level: LogLevel): boolean {
+        return (
+            !transport.level ||
+            LEVEL_SEVERITY[level] >= LEVEL_SEVERITY[transport.level]
+        );
+    }
+
+    /**
+     * Format a line for a transport
+     *
+     * @private
+     * @param {LogTransportFormat} [format] - Transport format
+     * @param {LogTransportEvent} event - Unformatted line
+     * @returns {unknown} Formatted message
+     */
+    private format(
+        format: LogTransportFormat | undefined,
+        event: LogTransportEvent
+    ): unknown {
+        if (typeof format === 'function') {
+            return format(event);
+        }
+
+        const formatter = format
+            ? this.formatterFor(format)
+            : this.options.formatter;
+        return event.event === 'request.incoming'
+            ? formatter.incoming(
+                  event.details as RequestDetails,
+                  event.timestamp
+              )
+            : formatter.completed(
+                  event.details as CompletedRequestDetails,
+                  event.timestamp
+              );
+    }
+
+    /**
+     * Get the built-in formatters of an output format, built once
+     *
+     * @private
+     * @param {LogOutputFormat} format - Output format
+     * @returns {LogEntryFormatters} Formatters
+     */
+    private formatterFor(format: LogOutputFormat): LogEntryFormatters {
+        let formatter = this.formatters.get(format);
+        if (!formatter) {
+            formatter = this.options.formatterFor(format);
+            this.formatters.set(format, formatter);
+        }
+        return formatter;
+    }
+}
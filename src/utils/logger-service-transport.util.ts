@@ -0,0 +1,74 @@
+/**
+ * @file Logger Service Transport Utility Class
+ * @description Transport writing request log lines to a Nest LoggerService
+ * @author samofprog
+ * @license MIT
+ */
+
+import { LoggerService, LogLevel } from '@nestjs/common';
+import {
+    LogTransport,
+    LogTransportEntry,
+    LogTransportFormat,
+    LogTransportOptions,
+} from '../types';
+
+/**
+ * Transport writing lines to a Nest `LoggerService` at their level.
+ *
+ * This is the default transport of the middleware (wrapping the `logger`
+ * option); add it to `transports` to keep the Nest logger alongside other
+ * destinations.
+ *
+ * @class LoggerServiceTransport
+ * @implements {LogTransport}
+ *
+ * @example
+ * ```typescript
+ * import { Logger } from '@nestjs/common';
+ * import { LoggerServiceTransport, StdoutTransport } from '@samofprog/nestjs-request-logger';
+ *
+ * app.use(requestLoggerFactory({
+ *   transports: [
+ *     new LoggerServiceTransport(new Logger('HTTP'), { level: 'warn' }),
+ *     new StdoutTransport(),
+ *   ],
+ * }));
+ * ```
+ */
+export class LoggerServiceTransport implements LogTransport {
+    readonly level?: LogLevel;
+    readonly format?: LogTransportFormat;
+
+    /**
+     * Create a new LoggerServiceTransport instance
+     *
+     * @param {LoggerService} logger - Logger the lines are written to
+     * @param {LogTransportOptions} [options={}] - Transport options
+     * @param {LogLevel} [options.level] - Minimum level written
+     * @param {LogTransportFormat} [options.format] - Formatter of the lines written
+     */
+    constructor(
+        private readonly logger: LoggerService,
+        options: LogTransportOptions = {}
+    ) {
+        this.level = options.level;
+        this.format = options.format;
+    }
+
+    /**
+     * Write a line at its level
+     *
+     * @param {LogTransportEntry} entry - Formatted line
+     * @returns {void}
+     */
+    write(entry: LogTransportEntry): void {
+        // debug, verbose and fatal are optional in LoggerService
+        const write = this.logger[entry.level];
+        if (typeof write === 'function') {
+            write.call(this.logger, entry.message);
+        } else {
+            this.logger.log(entry.message);
+        }
+    }
+}
@@ -0,0 +1,79 @@
+/**
+ * @file Memory Transport Utility Class
+ * @description Transport keeping request log lines in memory
+ * @author samofprog
+ * @license MIT
+ */
+
+import { LogLevel } from '@nestjs/common';
+import {
+    LogTransport,
+    LogTransportEntry,
+    LogTransportFormat,
+    MemoryTransportOptions,
+} from '../types';
+
+/**
+ * Transport keeping entries in an array, for tests and diagnostics
+ * endpoints.
+ *
+ * @class MemoryTransport
+ * @implements {LogTransport}
+ *
+ * @example
+ * ```typescript
+ * import { MemoryTransport } from '@samofprog/nestjs-request-logger';
+ *
+ * const memory = new MemoryTransport({ format: 'object', maxEntries: 100 });
+ * app.use(requestLoggerFactory({ transports: [memory] }));
+ *
+ * // After a request
+ * memory.entries[1].message; // { event: 'request.completed', statusCode: 200, ... }
+ * memory.clear();
+ * ```
+ */
+export class MemoryTransport implements LogTransport {
+    readonly level?: LogLevel;
+    readonly format?: LogTransportFormat;
+    readonly entries: LogTransportEntry[] = [];
+    private readonly maxEntries?: number;
+
+    /**
+     * Create a new MemoryTransport instance
+     *
+     * @param {MemoryTransportOptions} [options={}] - Transport options
+     * @param {LogLevel} [options.level] - Minimum level written
+     * @param {LogTransportFormat} [options.format] - Formatter of the lines written
+     * @param {number} [options.maxEntries] - Entries kept, oldest dropped first
+     */
+    constructor(options: MemoryTransportOptions = {}) {
+        this.level = options.level;
+        this.format = options.format;
+        this.maxEntries = options.maxEntries;
+    }
+
+    /**
+     * Store an entry, dropping the oldest beyond `maxEntries`
+     *
+     * @param {LogTransportEntry} entry - Formatted line
+     * @returns {void}
+     */
+    write(entry: LogTransportEntry): void {
+        this.entries.push(entry);
+        if (
+            this.maxEntries !== undefined &&
+            this.entries.length > this.maxEntries
+        ) {
+            this.entries.splice(0, this.entries.length - this.maxEntries);
+        }
+    }
+
+    /**
+     * Remove all stored entries
+     *
+     * @returns {void}
+     */
+    clear(): void {
+        this.entries.length = 0;
+    }
+}
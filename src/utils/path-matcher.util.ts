@@ -1,17 +1,32 @@
 /**
  * @file Path Matcher Utility Class
- * @description Matches URLs against path patterns (strings and regex)
+ * @description Matches URLs against path patterns, method rules and predicates
  * @author samofprog
  * @license MIT
  */
 
+import { IgnorePathRule, PathPattern, PathRule, Req } from '../types';
+import { PatternCompiler } from './pattern-compiler.util';
+
+/**
+ * Characters that mark a string pattern as a legacy regex string
+ * (e.g. '/api/[0-9]+/data', '/uploads/.*')
+ */
+const LEGACY_REGEX_CHARS = /[[\]()\\^$+|{}]|\.\*/;
+
+/**
+ * Compiled matcher for a single rule
+ */
+type CompiledRule = (path: string, method?: string, req?: Req) => boolean;
+
 /**
  * Utility class for matching URLs against path patterns.
  *
  * Purpose:
  * - Match URLs against multiple path patterns
- * - Support both string patterns (for exact/substring matching) and regex patterns
- * - Handle wildcard patterns (e.g., /static/*)
+ * - Support string patterns (exact match), RegExp patterns and predicates
+ * - Handle wildcard patterns (`/static/*`), `**` segments and Express params (`/users/:id`)
+ * - Restrict rules to HTTP methods (`{ method: 'GET', path: '/health' }`)
  * - Pre-compile patterns for better performance
  *
  * @class PathMatcher
@@ -22,65 +37,187 @@
  *
  * const matcher = new PathMatcher([
  *   '/health',
- *   '/metrics',
- *   '/static/*'
+ *   '/static/*',
+ *   '/users/:id',
+ *   { method: 'GET', path: '/metrics' },
+ *   /^\/internal\//,
  * ]);
  *
- * matcher.matches('/health');      // true
- * matcher.matches('/static/js/app.js');  // true
- * matcher.matches('/api/users');   // false
+ * matcher.matches('/health');             // true
+ * matcher.matches('/static/js/app.js');   // true
+ * matcher.matches('/users/42');           // true
+ * matcher.matches('/metrics', 'POST');    // false
+ * matcher.matches('/api/users');          // false
  * ```
  */
 export class PathMatcher {
-    private patterns: RegExp[];
+    private readonly rules: CompiledRule[];
 
     /**
      * Create a new PathMatcher instance
      *
-     * @param {string[]} ignorePaths - Array of path patterns to match
-     *                                  Supports wildcards: /static/*
+     * @param {IgnorePathRule[]} ignorePaths - Path patterns, method rules or predicates to match
+     *                                        Supports wildcards: /static/*, /api/**\/health, /users/:id
      */
-    constructor(ignorePaths: string[] = []) {
-        this.patterns = ignorePaths.map((path) => {
-            if (this.needsRegex(path)) {
-                // Convert wildcard patterns to regex: /static/* → /static/.*
-                // Using split/join for ES6 compatibility (avoids replaceAll requirement)
-                const regexPattern = path.split('*').join('.*');
-                return new RegExp(`^${regexPattern}$`);
-            }
-            // Convert exact string patterns to regex for exact matching
-            const regexPattern = path.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
-            return new RegExp(`^${regexPattern}$`);
-        });
+    constructor(ignorePaths: readonly IgnorePathRule[] = []) {
+        this.rules = ignorePaths.map((rule) => this.compileRule(rule));
     }
 
     /**
-     * Check if a path matches any of the configured patterns
+     * Check if a path matches any of the configured rules
      *
      * @param {string} path - The path to check (with or without query string)
-     * @returns {boolean} True if the path matches any pattern
+     * @param {string} [method] - HTTP method, required by method-qualified rules
+     * @param {Req} [req] - Request object, required by predicate rules
+     * @returns {boolean} True if the path matches any rule
      *
      * @example
      * ```typescript
      * matcher.matches('/api/users');           // tests against pattern
      * matcher.matches('/api/users?role=admin'); // also tests against pattern (query string stripped)
+     * matcher.matches('/health', 'GET', req);   // also tests method rules and predicates
      * ```
      */
-    matches(path: string): boolean {
+    matches(path: string, method?: string, req?: Req): boolean {
         // Extract path before query string to match against patterns
         const pathOnly = path.split('?')[0];
-        return this.patterns.some((pattern) => pattern.test(pathOnly));
+        return this.rules.some((rule) => rule(pathOnly, method, req));
+    }
+
+    /**
+     * Compile an ignore rule into a matcher function
+     *
+     * @private
+     * @param {IgnorePathRule} rule - Pattern, method rule or predicate
+     * @returns {CompiledRule} Matcher function
+     */
+    private compileRule(rule: IgnorePathRule): CompiledRule {
+        if (typeof rule === 'function') {
+            return (_path, _method, req) => {
+                if (!req) {
+                    return false;
+                }
+                try {
+                    return rule(req);
+                } catch {
+                    // A failing predicate must never break the request
+                    return false;
+                }
+            };
+        }
+
+        if (typeof rule === 'string' || rule instanceof RegExp) {
+            const regexes = this.compilePattern(rule);
+            return (path) => regexes.some((regex) => regex.test(path));
+        }
+
+        return this.compileMethodRule(rule);
+    }
+
+    /**
+     * Compile a `{ method, path }` rule
+     *
+     * @private
+     * @param {PathRule} rule - Method-qualified rule
+     * @returns {CompiledRule} Matcher function
+     */
+    private compileMethodRule(rule: PathRule): CompiledRule {
+        const regexes = this.compilePattern(rule.path);
+        const methods =
+            rule.method === undefined
+                ? undefined
+                : new Set(
+                      (Array.isArray(rule.method)
+                          ? rule.method
+                          : [rule.method]
+                      ).map((method) => method.toUpperCase())
+                  );
+        const anyMethod = !methods || methods.has('*');
+
+        return (path, method) =>
+            (anyMethod ||
+                (method !== undefined && methods.has(method.toUpperCase()))) &&
+            regexes.some((regex) => regex.test(path));
+    }
+
+    /**
+     * Compile a path pattern into the regexes it matches
+     *
+     * String patterns always match literally (with `*`, `**` and `:param`
+     * support). Strings containing regex syntax are additionally matched as a
+     * regex when they compile, for backward compatibility.
+     *
+     * @private
+     * @param {PathPattern} pattern - String or RegExp pattern
+     * @returns {RegExp[]} Regexes to test
+     */
+    private compilePattern(pattern: PathPattern): RegExp[] {
+        if (pattern instanceof RegExp) {
+            return [PatternCompiler.stateless(pattern)];
+        }
+
+        const regexes = [this.globToRegex(pattern)];
+        if (LEGACY_REGEX_CHARS.test(pattern)) {
+            const legacy = this.legacyToRegex(pattern);
+            if (legacy) {
+                regexes.push(legacy);
+            }
+        }
+        return regexes;
+    }
+
+    /**
+     * Convert a literal path pattern to an anchored regex
+     *
+     * - `**` matches any number of segments (including none)
+     * - `*` matches any characters
+     * - `:name` matches a single non-empty segment
+     *
+     * @private
+     * @param {string} pattern - Path pattern
+     * @returns {RegExp} Anchored regex
+     */
+    private globToRegex(pattern: string): RegExp {
+        const source = pattern
+            .split('/')
+            .map((segment, index, segments) => {
+                if (segment === '**') {
+                    // '/a/**/b' matches '/a/b'; a trailing '/**' also matches '/a'
+                    return index === segments.length - 1
+                        ? '(?:/.*)?'
+                        : '(?:/[^/]+)*';
+                }
+                const prefix = index === 0 ? '' : '/';
+                if (/^:[A-Za-z_]\w*\??$/.test(segment)) {
+                    return segment.endsWith('?')
+                        ? `(?:/[^/]+)?`
+                        : `${prefix}[^/]+`;
+                }
+                return prefix + PatternCompiler.source(segment);
+            })
+            .join('');
+
+        return new RegExp(`^${source}$`);
     }
 
     /**
-     * Check if a path needs to be converted to regex
-     * (contains wildcards or other regex indicators)
+     * Convert a legacy regex string to an anchored regex
      *
      * @private
-     * @param {string} path - The path to check
-     * @returns {boolean} True if regex is needed
+     * @param {string} pattern - Regex source written as a path pattern
+     * @returns {RegExp | undefined} Regex, or undefined if the source is invalid
      */
-    private needsRegex(path: string): boolean {
-        return path.includes('*') || path.includes('[') || path.includes('(');
+    private legacyToRegex(pattern: string): RegExp | undefined {
+        // Wildcards are expanded as before: /static/* → /static/.*
+        const source = pattern
+            .replace(/^\^/, '')
+            .replace(/\$$/, '')
+            .split('*')
+            .join('.*');
+        try {
+            return new RegExp(`^${source}$`);
+        } catch {
+            return undefined;
+        }
     }
 }
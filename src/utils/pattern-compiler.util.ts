@@ -0,0 +1,59 @@
+/**
+ * @file Pattern Compiler Utility Class
+ * @description Compiles wildcard patterns and normalizes user-supplied regexes
+ * @author samofprog
+ * @license MIT
+ */
+
+/**
+ * Static helpers shared by the matchers that accept wildcard or regex patterns.
+ *
+ * Purpose:
+ * - Compile `*` wildcard patterns (content types, header names, paths) to regexes
+ * - Escape every other regex character so patterns match literally
+ * - Drop global/sticky flags from user regexes so `test()` stays stateless
+ *
+ * @class PatternCompiler
+ *
+ * @example
+ * ```typescript
+ * PatternCompiler.compile('text/*').test('text/plain'); // true
+ * PatternCompiler.stateless(/token/gi).flags; // 'i'
+ * ```
+ */
+export class PatternCompiler {
+    /**
+     * Convert a wildcard pattern to an unanchored regex source
+     *
+     * @param {string} pattern - Pattern where `*` matches any characters
+     * @returns {string} Regex source
+     */
+    static source(pattern: string): string {
+        return pattern
+            .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+            .split('*')
+            .join('.*');
+    }
+
+    /**
+     * Compile a wildcard pattern to an anchored regex
+     *
+     * @param {string} pattern - Pattern where `*` matches any characters
+     * @param {string} [flags] - Regex flags, such as `i`
+     * @returns {RegExp} Anchored regex
+     */
+    static compile(pattern: string, flags?: string): RegExp {
+        return new RegExp(`^${PatternCompiler.source(pattern)}$`, flags);
+    }
+
+    /**
+     * Copy a regex without its global and sticky flags, whose `lastIndex`
+     * would otherwise make consecutive `test()` calls disagree
+     *
+     * @param {RegExp} pattern - User-supplied regex
+     * @returns {RegExp} Regex safe to reuse across calls
+     */
+    static stateless(pattern: RegExp): RegExp {
+        return new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ''));
+    }
+}
@@ -0,0 +1,170 @@
+/**
+ * @file Payload Size Tracker Utility Class
+ * @description Counts request and response body bytes on Express and Fastify
+ * @author samofprog
+ * @license MIT
+ */
+
+import { Headers, PayloadSizes, Req, Res } from '../types';
+
+/**
+ * Minimal shape of a raw Node request
+ */
+interface ReadableRequest {
+    headers?: Headers;
+    complete?: boolean;
+    push: (chunk: unknown, encoding?: unknown) => boolean;
+}
+
+/**
+ * Minimal writable shape of a raw Node response
+ */
+interface WritableResponse {
+    write: (...args: unknown[]) => boolean;
+    end: (...args: unknown[]) => unknown;
+}
+
+/**
+ * Utility class for measuring payload sizes.
+ *
+ * Purpose:
+ * - Read the request size from `content-length`, or count the chunks of a
+ *   chunked request body as Node receives them
+ * - Count the response body bytes passed to the raw `write` / `end`, which
+ *   covers Express responses, Fastify replies and streamed payloads
+ *
+ * Counting never buffers payloads and never changes how streams flow. A
+ * chunked request body already consumed before `attach()` is reported as
+ * unknown (`requestBytes` undefined).
+ *
+ * @class PayloadSizeTracker
+ *
+ * @example
+ * ```typescript
+ * import { PayloadSizeTracker } from '@samofprog/nestjs-request-logger';
+ *
+ * const readSizes = new PayloadSizeTracker().attach(req, res);
+ *
+ * res.once('finish', () => {
+ *   console.log(readSizes()); // { requestBytes: 512, responseBytes: 20480 }
+ * });
+ * ```
+ */
+export class PayloadSizeTracker {
+    /**
+     * Start measuring the payloads of a request and its response
+     *
+     * @param {Req} req - Express or Fastify request
+     * @param {Res} res - Express response or Fastify reply
+     * @returns {Function} Reader returning the byte counts so far
+     */
+    attach(req: Req, res: Res): () => PayloadSizes {
+        const readRequestBytes = this.trackRequest(
+            ('raw' in req && req.raw ? req.raw : req) as ReadableRequest
+        );
+
+        let responseBytes = 0;
+        const writable = ('raw' in res && res.raw
+            ? res.raw
+            : res) as unknown as WritableResponse;
+        const originalWrite = writable.write;
+        const originalEnd = writable.end;
+        if (
+            typeof originalWrite === 'function' &&
+            typeof originalEnd === 'function'
+        ) {
+            writable.write = function (...args: unknown[]): boolean {
+                responseBytes += PayloadSizeTracker.byteLength(
+                    args[0],
+                    args[1]
+                );
+                return originalWrite.apply(this, args);
+            };
+            writable.end = function (...args: unknown[]): unknown {
+                if (typeof args[0] !== 'function') {
+                    responseBytes += PayloadSizeTracker.byteLength(
+                        args[0],
+                        args[1]
+                    );
+                }
+                return originalEnd.apply(this, args);
+            };
+        }
+
+        return () => {
+            const sizes: PayloadSizes = { responseBytes };
+            const requestBytes = readRequestBytes();
+            if (requestBytes !== undefined) {
+                sizes.requestBytes = requestBytes;
+            }
+            return sizes;
+        };
+    }
+
+    /**
+     * Measure the request body
+     *
+     * @private
+     * @param {ReadableRequest} request - Raw Node request
+     * @returns {Function} Reader returning the request bytes, or undefined when unknown
+     */
+    private trackRequest(request: ReadableRequest): () => number | undefined {
+        const headers = request.headers ?? {};
+        const contentLength = Number(
+            Array.isArray(headers['content-length'])
+                ? headers['content-length'][0]
+                : headers['content-length']
+        );
+        if (
+            headers['content-length'] !== undefined &&
+            Number.isInteger(contentLength) &&
+            contentLength >= 0
+        ) {
+            return () => contentLength;
+        }
+
+        // Without content-length or transfer-encoding there is no body
+        if (headers['transfer-encoding'] === undefined) {
+            return () => 0;
+        }
+
+        if (request.complete || typeof request.push !== 'function') {
+            return () => undefined;
+        }
+
+        // Node pushes each received body chunk: count without consuming
+        let requestBytes = 0;
+        const originalPush = request.push;
+        request.push = function (chunk: unknown, encoding?: unknown): boolean {
+            requestBytes += PayloadSizeTracker.byteLength(chunk, encoding);
+            return originalPush.call(this, chunk, encoding);
+        };
+        return () => requestBytes;
+    }
+
+    /**
+     * Get the byte length of a written chunk
+     *
+     * @private
+     * @param {unknown} chunk - Chunk passed to write/end/push
+     * @param {unknown} [encoding] - Optional string encoding
+     * @returns {number} Byte length (0 for empty chunks)
+     */
+    private static byteLength(chunk: unknown, encoding?: unknown): number {
+        if (chunk === undefined || chunk === null) {
+            return 0;
+        }
+        if (typeof chunk === 'string') {
+            return Buffer.byteLength(
+                chunk,
+                typeof encoding === 'string'
+                    ? (encoding as BufferEncoding)
+                    : 'utf8'
+            );
+        }
+        if (chunk instanceof Uint8Array) {
+            return chunk.byteLength;
+        }
+        return 0;
+    }
+}
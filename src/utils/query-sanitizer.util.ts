@@ -0,0 +1,174 @@
+/**
+ * @file Query Sanitizer Utility Class
+ * @description Parses query strings and redacts sensitive parameters
+ * @author samofprog
+ * @license MIT
+ */
+
+import { QueryParams, QuerySanitizerOptions } from '../types';
+import { DEFAULT_SENSITIVE_QUERY_KEYS } from '../constants';
+
+/**
+ * Utility class for logging query strings safely.
+ *
+ * Purpose:
+ * - Parse the query string of a path into parameters (repeated keys become arrays)
+ * - Redact sensitive parameters in the parsed parameters and in the path itself
+ * - Strip the query string from a path
+ *
+ * Redacting the path keeps the other parameters byte for byte, so the logged
+ * path only differs from the raw one by the redacted values.
+ *
+ * @class QuerySanitizer
+ *
+ * @example
+ * ```typescript
+ * import { QuerySanitizer } from '@samofprog/nestjs-request-logger';
+ *
+ * const sanitizer = new QuerySanitizer();
+ *
+ * sanitizer.sanitizePath('/download?file=a.pdf&token=abc');
+ * // '/download?file=a.pdf&token=[REDACTED]'
+ * sanitizer.parse('/download?file=a.pdf&token=abc');
+ * // { file: 'a.pdf', token: '[REDACTED]' }
+ * ```
+ */
+export class QuerySanitizer {
+    private readonly sensitiveKeys: Set<string>;
+    private readonly replacement: string;
+
+    /**
+     * Create a new QuerySanitizer instance
+     *
+     * @param {QuerySanitizerOptions} [options={}] - Redaction options
+     * @param {string[]} [options.sensitiveKeys] - Parameters to redact @default DEFAULT_SENSITIVE_QUERY_KEYS
+     * @param {string} [options.replacement='[REDACTED]'] - Replacement for redacted values
+     */
+    constructor(options: QuerySanitizerOptions = {}) {
+        this.sensitiveKeys = new Set(
+            (options.sensitiveKeys ?? DEFAULT_SENSITIVE_QUERY_KEYS).map((key) =>
+                this.normalizeKey(key)
+            )
+        );
+        this.replacement = options.replacement ?? '[REDACTED]';
+    }
+
+    /**
+     * Parse the query string of a path, redacting sensitive parameters
+     *
+     * @param {string} path - Path with or without query string
+     * @returns {QueryParams} Parameters (empty when there is no query string)
+     */
+    parse(path: string): QueryParams {
+        // Grouped in a Map: keys such as `__proto__` or `constructor` are data
+        const params = new Map<string, string | string[]>();
+
+        for (const [key, value] of new URLSearchParams(this.queryOf(path))) {
+            const safeValue = this.isSensitive(key) ? this.replacement : value;
+            const existing = params.get(key);
+            if (existing === undefined) {
+                params.set(key, safeValue);
+            } else if (Array.isArray(existing)) {
+                existing.push(safeValue);
+            } else {
+                params.set(key, [existing, safeValue]);
+            }
+        }
+
+        const query: QueryParams = {};
+        for (const [key, value] of params) {
+            Object.defineProperty(query, key, {
+                value,
+                enumerable: true,
+                writable: true,
+                configurable: true,
+            });
+        }
+        return query;
+    }
+
+    /**
+     * Redact sensitive parameters in the query string of a path
+     *
+     * @param {string} path - Path with or without query string
+     * @returns {string} Path with sensitive values replaced
+     */
+    sanitizePath(path: string): string {
+        const index = path.indexOf('?');
+        if (index === -1) {
+            return path;
+        }
+
+        const query = path
+            .slice(index + 1)
+            .split('&')
+            .map((pair) => {
+                const separator = pair.indexOf('=');
+                const key = separator === -1 ? pair : pair.slice(0, separator);
+                return separator !== -1 && this.isSensitive(this.decode(key))
+                    ? `${key}=${this.replacement}`
+                    : pair;
+            })
+            .join('&');
+
+        return `${path.slice(0, index)}?${query}`;
+    }
+
+    /**
+     * Remove the query string from a path
+     *
+     * @param {string} path - Path with or without query string
+     * @returns {string} Path without query string
+     */
+    stripQuery(path: string): string {
+        return path.split('?')[0];
+    }
+
+    /**
+     * Check whether a parameter is sensitive
+     *
+     * @param {string} key - Parameter name
+     * @returns {boolean} True if the parameter value is redacted
+     */
+    isSensitive(key: string): boolean {
+        return this.sensitiveKeys.has(this.normalizeKey(key));
+    }
+
+    /**
+     * Get the query string of a path (without `?`)
+     *
+     * @private
+     * @param {string} path - Path with or without query string
+     * @returns {string} Query string, empty when absent
+     */
+    private queryOf(path: string): string {
+        const index = path.indexOf('?');
+        return index === -1 ? '' : path.slice(index + 1);
+    }
+
+    /**
+     * Decode a query string key, keeping malformed input as is
+     *
+     * @private
+     * @param {string} key - Encoded key
+     * @returns {string} Decoded key
+     */
+    private decode(key: string): string {
+        try {
+            return decodeURIComponent(key.replace(/\+/g, ' '));
+        } catch {
+            return key;
+        }
+    }
+
+    /**
+     * Normalize a key for comparison: lowercase, `-` and `_` removed
+     *
+     * @private
+     * @param {string} key - Parameter name
+     * @returns {string} Normalized key
+     */
+    private normalizeKey(key: string): string {
+        return key.toLowerCase().replace(/[-_]/g, '');
+    }
+}
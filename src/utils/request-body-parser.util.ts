@@ -0,0 +1,314 @@
+/**
+ * @file Request Body Parser Utility Class
+ * @description Decodes request bodies for logging according to their content type
+ * @author samofprog
+ * @license MIT
+ */
+
+import {
+    MultipartFileSummary,
+    MultipartSummary,
+    ParsedRequestBody,
+    RequestBodyParserOptions,
+} from '../types';
+import { PatternCompiler } from './pattern-compiler.util';
+
+/**
+ * File shapes set by multer (Express) and @fastify/multipart
+ */
+interface UploadedFile {
+    fieldname?: string;
+    originalname?: string;
+    filename?: string;
+    mimetype?: string;
+    size?: number;
+    type?: string;
+    _buf?: Buffer;
+}
+
+/**
+ * Utility class for decoding request bodies by content type.
+ *
+ * Purpose:
+ * - Parse `application/x-www-form-urlencoded` bodies into fields
+ * - Summarize `multipart/form-data` bodies as field names and file
+ *   name/size/mimetype, from multer (`req.file`, `req.files`) or
+ *   @fastify/multipart (`attachFieldsToBody`), never logging file content
+ * - Decode `text/*` bodies as text
+ * - Parse NDJSON (`application/x-ndjson`, `application/jsonl`) into an array
+ * - Omit content types excluded by the include/exclude lists (a body
+ *   without content type is only logged when no include list is set)
+ *
+ * @class RequestBodyParser
+ *
+ * @example
+ * ```typescript
+ * import { RequestBodyParser } from '@samofprog/nestjs-request-logger';
+ *
+ * const parser = new RequestBodyParser({ exclude: ['application/xml'] });
+ *
+ * parser.parse('name=John&tag=a&tag=b', 'application/x-www-form-urlencoded');
+ * // { kind: 'data', body: { name: 'John', tag: ['a', 'b'] } }
+ * parser.parse('<user/>', 'application/xml');
+ * // { kind: 'omitted', body: '[application/xml body omitted]' }
+ * ```
+ */
+export class RequestBodyParser {
+    private readonly includePatterns?: RegExp[];
+    private readonly excludePatterns: RegExp[];
+
+    /**
+     * Create a new RequestBodyParser instance
+     *
+     * @param {RequestBodyParserOptions} [options={}] - Parser options
+     * @param {string[]} [options.include] - Content types whose body is logged (all when absent)
+     * @param {string[]} [options.exclude=[]] - Content types whose body is never logged
+     */
+    constructor(options: RequestBodyParserOptions = {}) {
+        this.includePatterns = options.include?.map((type) =>
+            PatternCompiler.compile(type.toLowerCase())
+        );
+        this.excludePatterns = (options.exclude ?? []).map((type) =>
+            PatternCompiler.compile(type.toLowerCase())
+        );
+    }
+
+    /**
+     * Decode a request body for logging
+     *
+     * @param {unknown} body - Request body as received or parsed by the framework
+     * @param {string} [contentType] - Value of the `content-type` header
+     * @param {unknown} [files] - Files set by multer (`req.files` or `req.file`)
+     * @returns {ParsedRequestBody} Decoded body
+     */
+    parse(
+        body: unknown,
+        contentType?: string,
+        files?: unknown
+    ): ParsedRequestBody {
+        const type = this.mediaType(contentType);
+
+        if (body === undefined && files === undefined) {
+            return { kind: 'data', body };
+        }
+
+        // Bodies without content type go through the include list too
+        if (!this.isLogged(type)) {
+            return {
+                kind: 'omitted',
+                body: type ? `[${type} body omitted]` : '[body omitted]',
+            };
+        }
+
+        if (type === 'multipart/form-data') {
+            return { kind: 'multipart', body: this.summarize(body, files) };
+        }
+
+        if (type.startsWith('text/') && this.isRaw(body)) {
+            return { kind: 'text', body: this.toText(body) };
+        }
+
+        if (type === 'application/x-www-form-urlencoded' && this.isRaw(body)) {
+            return { kind: 'data', body: this.parseForm(this.toText(body)) };
+        }
+
+        if (
+            (type === 'application/x-ndjson' || type === 'application/jsonl') &&
+            this.isRaw(body)
+        ) {
+            return { kind: 'data', body: this.parseLines(this.toText(body)) };
+        }
+
+        return { kind: 'data', body };
+    }
+
+    /**
+     * Check whether the body of a content type is logged
+     *
+     * @param {string} contentType - Content type (parameters are ignored)
+     * @returns {boolean} True unless excluded or missing from the include list
+     */
+    isLogged(contentType: string): boolean {
+        const type = this.mediaType(contentType);
+        if (this.excludePatterns.some((pattern) => pattern.test(type))) {
+            return false;
+        }
+        return (
+            !this.includePatterns ||
+            this.includePatterns.some((pattern) => pattern.test(type))
+        );
+    }
+
+    /**
+     * Summarize a multipart body: field names and files without content
+     *
+     * @param {unknown} body - Fields parsed by multer, or @fastify/multipart parts
+     * @param {unknown} [files] - Files set by multer (`req.files` or `req.file`)
+     * @returns {MultipartSummary} Summary
+     */
+    summarize(body: unknown, files?: unknown): MultipartSummary {
+        const fields = new Set<string>();
+        const summaries: MultipartFileSummary[] = [];
+
+        if (typeof body === 'object' && body !== null && !this.isRaw(body)) {
+            for (const [name, value] of Object.entries(body)) {
+                for (const part of Array.isArray(value) ? value : [value]) {
+                    if (this.isFile(part)) {
+                        summaries.push(this.describeFile(part, name));
+                    } else {
+                        fields.add(name);
+                    }
+                }
+            }
+        }
+
+        const uploads = Array.isArray(files)
+            ? files
+            : typeof files === 'object' && files !== null
+              ? this.isFile(files)
+                  ? [files]
+                  : Object.values(files).flat()
+              : [];
+        for (const file of uploads) {
+            if (this.isFile(file)) {
+                summaries.push(this.describeFile(file));
+            }
+        }
+
+        return { fields: [...fields], files: summaries };
+    }
+
+    /**
+     * Check whether a multipart part or multer entry is a file
+     *
+     * @private
+     * @param {unknown} part - Part to check
+     * @returns {boolean} True for files
+     */
+    private isFile(part: unknown): part is UploadedFile {
+        if (typeof part !== 'object' || part === null) {
+            return false;
+        }
+        const file = part as UploadedFile;
+        return (
+            file.type === 'file' ||
+            file.originalname !== undefined ||
+            (file.filename !== undefined && file.type !== 'field')
+        );
+    }
+
+    /**
+     * Describe an uploaded file without its content
+     *
+     * @private
+     * @param {UploadedFile} file - multer file or @fastify/multipart part
+     * @param {string} [name] - Body key of the part
+     * @returns {MultipartFileSummary} File summary
+     */
+    private describeFile(
+        file: UploadedFile,
+        name?: string
+    ): MultipartFileSummary {
+        const summary: MultipartFileSummary = {
+            field: file.fieldname ?? name ?? '',
+        };
+        const filename = file.originalname ?? file.filename;
+        if (filename !== undefined) {
+            summary.filename = filename;
+        }
+        if (file.mimetype !== undefined) {
+            summary.mimetype = file.mimetype;
+        }
+        const size = file.size ?? file._buf?.length;
+        if (size !== undefined) {
+            summary.size = size;
+        }
+        return summary;
+    }
+
+    /**
+     * Parse urlencoded fields (repeated keys become arrays)
+     *
+     * @private
+     * @param {string} text - Urlencoded body
+     * @returns {Record<string, string | string[]>} Fields
+     */
+    private parseForm(text: string): Record<string, string | string[]> {
+        // Grouped in a Map: keys such as `__proto__` or `constructor` are data
+        const grouped = new Map<string, string | string[]>();
+        for (const [key, value] of new URLSearchParams(text)) {
+            const existing = grouped.get(key);
+            if (existing === undefined) {
+                grouped.set(key, value);
+            } else if (Array.isArray(existing)) {
+                existing.push(value);
+            } else {
+                grouped.set(key, [existing, value]);
+            }
+        }
+
+        const fields: Record<string, string | string[]> = {};
+        for (const [key, value] of grouped) {
+            Object.defineProperty(fields, key, {
+                value,
+                enumerable: true,
+                writable: true,
+                configurable: true,
+            });
+        }
+        return fields;
+    }
+
+    /**
+     * Parse NDJSON lines, keeping invalid lines as text
+     *
+     * @private
+     * @param {string} text - NDJSON body
+     * @returns {unknown[]} One value per non-empty line
+     */
+    private parseLines(text: string): unknown[] {
+        return text
+            .split(/\r?\n/)
+            .filter((line) => line.trim() !== '')
+            .map((line) => {
+                try {
+                    return JSON.parse(line);
+                } catch {
+                    return line;
+                }
+            });
+    }
+
+    /**
+     * Check whether a body is still raw (text or bytes, not parsed)
+     *
+     * @private
+     * @param {unknown} body - Request body
+     * @returns {boolean} True for strings and Buffers
+     */
+    private isRaw(body: unknown): body is string | Buffer {
+        return typeof body === 'string' || Buffer.isBuffer(body);
+    }
+
+    /**
+     * Decode a raw body as UTF-8 text
+     *
+     * @private
+     * @param {string | Buffer} body - Raw body
+     * @returns {string} Text
+     */
+    private toText(body: string | Buffer): string {
+        return typeof body === 'string' ? body : body.toString('utf8');
+    }
+
+    /**
+     * Get the media type of a content type (lowercase, without parameters)
+     *
+     * @private
+     * @param {string} [contentType] - Content type
+     * @returns {string} Media type, or empty string when not set
+     */
+    private mediaType(contentType?: string): string {
+        return (contentType ?? '').split(';')[0].trim().toLowerCase();
+    }
+}
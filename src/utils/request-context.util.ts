@@ -0,0 +1,66 @@
+/**
+ * @file Request Context Utility Class
+ * @description AsyncLocalStorage based accessor for the current request
+ * @author samofprog
+ * @license MIT
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { RequestContextStore } from '../types';
+
+/**
+ * Static accessor for the context of the request being handled.
+ *
+ * Purpose:
+ * - Open an AsyncLocalStorage scope per request (done by RequestLoggerMiddleware)
+ * - Give services access to the request ID, method and path without passing them around
+ * - Return undefined outside of a request scope
+ *
+ * @class RequestContext
+ *
+ * @example
+ * ```typescript
+ * import { RequestContext } from '@samofprog/nestjs-request-logger';
+ *
+ * @Injectable()
+ * export class UsersService {
+ *   findAll() {
+ *     const requestId = RequestContext.getRequestId();
+ *     // ...
+ *   }
+ * }
+ * ```
+ */
+export class RequestContext {
+    private static readonly storage =
+        new AsyncLocalStorage<RequestContextStore>();
+
+    /**
+     * Run a callback inside a new request context scope
+     *
+     * @param {RequestContextStore} store - Context of the request
+     * @param {Function} callback - Callback executed within the scope
+     * @returns {T} Return value of the callback
+     */
+    static run<T>(store: RequestContextStore, callback: () => T): T {
+        return RequestContext.storage.run(store, callback);
+    }
+
+    /**
+     * Get the context of the current request
+     *
+     * @returns {RequestContextStore | undefined} Current context, or undefined outside a request
+     */
+    static get(): RequestContextStore | undefined {
+        return RequestContext.storage.getStore();
+    }
+
+    /**
+     * Get the request ID of the current request
+     *
+     * @returns {string | undefined} Request ID, or undefined when unavailable
+     */
+    static getRequestId(): string | undefined {
+        return RequestContext.storage.getStore()?.requestId;
+    }
+}
@@ -0,0 +1,112 @@
+/**
+ * @file Request Exception Recorder Utility Class
+ * @description Records exceptions thrown by handlers so the completed log line can include them
+ * @author samofprog
+ * @license MIT
+ */
+
+import { HttpException } from '@nestjs/common';
+import { RequestErrorDetails } from '../types';
+
+/**
+ * Static store of the exception thrown while handling a request.
+ *
+ * Purpose:
+ * - Keep the exception next to the request without mutating it (WeakMap)
+ * - Work with Express requests and Fastify requests (recorded on `req.raw` too,
+ *   since middlewares receive the raw Node request on Fastify)
+ * - Convert exceptions to `RequestErrorDetails` for the log line
+ *
+ * Used by `RequestLoggerExceptionInterceptor`; call `record()` from a custom
+ * exception filter to cover exceptions thrown outside interceptors (guards, pipes).
+ *
+ * @class RequestExceptionRecorder
+ *
+ * @example
+ * ```typescript
+ * import { RequestExceptionRecorder } from '@samofprog/nestjs-request-logger';
+ *
+ * @Catch()
+ * export class AllExceptionsFilter extends BaseExceptionFilter {
+ *   catch(exception: unknown, host: ArgumentsHost) {
+ *     RequestExceptionRecorder.record(host.switchToHttp().getRequest(), exception);
+ *     super.catch(exception, host);
+ *   }
+ * }
+ * ```
+ */
+export class RequestExceptionRecorder {
+    private static readonly exceptions = new WeakMap<object, unknown>();
+
+    /**
+     * Record the exception thrown for a request (the first one wins)
+     *
+     * @param {unknown} req - Express or Fastify request
+     * @param {unknown} exception - Thrown exception
+     */
+    static record(req: unknown, exception: unknown): void {
+        for (const target of RequestExceptionRecorder.targets(req)) {
+            if (!RequestExceptionRecorder.exceptions.has(target)) {
+                RequestExceptionRecorder.exceptions.set(target, exception);
+            }
+        }
+    }
+
+    /**
+     * Get the exception recorded for a request
+     *
+     * @param {unknown} req - Express or Fastify request
+     * @returns {unknown} Recorded exception, or undefined
+     */
+    static get(req: unknown): unknown {
+        for (const target of RequestExceptionRecorder.targets(req)) {
+            if (RequestExceptionRecorder.exceptions.has(target)) {
+                return RequestExceptionRecorder.exceptions.get(target);
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Convert an exception to the details logged on the completed line
+     *
+     * @param {unknown} exception - Thrown exception
+     * @param {boolean} [includeStack=false] - Whether to include the stack trace
+     * @returns {RequestErrorDetails} Error details
+     */
+    static describe(
+        exception: unknown,
+        includeStack = false
+    ): RequestErrorDetails {
+        if (!(exception instanceof Error)) {
+            return { name: 'Error', message: String(exception) };
+        }
+
+        const details: RequestErrorDetails = {
+            name: exception.name,
+            message: exception.message,
+        };
+        if (includeStack && exception.stack) {
+            details.stack = exception.stack;
+        }
+        if (exception instanceof HttpException) {
+            details.response = exception.getResponse();
+        }
+        return details;
+    }
+
+    /**
+     * Get the objects an exception is stored on (request and raw request)
+     *
+     * @private
+     * @param {unknown} req - Express or Fastify request
+     * @returns {object[]} Storage keys
+     */
+    private static targets(req: unknown): object[] {
+        if (typeof req !== 'object' || req === null) {
+            return [];
+        }
+        const raw = (req as { raw?: unknown }).raw;
+        return typeof raw === 'object' && raw !== null ? [req, raw] : [req];
+    }
+}
@@ -0,0 +1,175 @@
+/**
+ * @file Request ID Resolver Utility Class
+ * @description Reads correlation IDs from incoming headers or generates new ones
+ * @author samofprog
+ * @license MIT
+ */
+
+import { randomBytes } from 'crypto';
+import { Headers, RequestIdGenerator } from '../types';
+import { DEFAULT_REQUEST_ID_HEADERS } from '../constants';
+
+/**
+ * Crockford base32 alphabet used by ULIDs
+ */
+const ULID_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+/**
+ * Accepted incoming IDs: 1-128 visible ASCII characters (no spaces or control
+ * characters, so a client cannot inject content into log lines)
+ */
+const VALID_REQUEST_ID = /^[\x21-\x7e]{1,128}$/;
+
+/**
+ * W3C trace context header: version-traceid-parentid-flags
+ */
+const TRACEPARENT = /^[\da-f]{2}-([\da-f]{32})-[\da-f]{16}-[\da-f]{2}$/i;
+
+/**
+ * Utility class for resolving the request ID of an incoming request.
+ *
+ * Purpose:
+ * - Reuse an ID sent by the caller (first matching header wins)
+ * - Extract the trace ID from a W3C `traceparent` header
+ * - Otherwise generate a new ID (UUID v4, ULID or custom generator)
+ *
+ * @class RequestIdResolver
+ *
+ * @example
+ * ```typescript
+ * import { RequestIdResolver } from '@samofprog/nestjs-request-logger';
+ *
+ * const resolver = new RequestIdResolver({ generator: 'ulid' });
+ *
+ * resolver.resolve({ 'x-request-id': 'abc-123' }); // 'abc-123'
+ * resolver.resolve({});                            // '01HZX3B7Q8...'
+ * ```
+ */
+export class RequestIdResolver {
+    private readonly headers: string[];
+    private readonly generator: () => string;
+
+    /**
+     * Create a new RequestIdResolver instance
+     *
+     * @param {Object} options - Resolver options
+     * @param {string[]} [options.headers] - Incoming headers to read, in priority order
+     *                                       @default DEFAULT_REQUEST_ID_HEADERS
+     * @param {RequestIdGenerator} [options.generator='uuid'] - Generator used when no header is present
+     */
+    constructor(
+        options: {
+            headers?: readonly string[];
+            generator?: RequestIdGenerator;
+        } = {}
+    ) {
+        this.headers = (options.headers ?? DEFAULT_REQUEST_ID_HEADERS).map(
+            (header) => header.toLowerCase()
+        );
+        this.generator = this.createGenerator(options.generator ?? 'uuid');
+    }
+
+    /**
+     * Resolve the request ID from incoming headers, or generate a new one
+     *
+     * @param {Headers} headers - Incoming request headers
+     * @returns {string} Request ID
+     */
+    resolve(headers: Headers | undefined): string {
+        const lowerHeaders: Headers = {};
+        for (const [key, value] of Object.entries(headers ?? {})) {
+            lowerHeaders[key.toLowerCase()] = value;
+        }
+
+        for (const header of this.headers) {
+            const raw = lowerHeaders[header];
+            const value = String(Array.isArray(raw) ? raw[0] : (raw ?? ''))
+                .trim()
+                .split(',')[0]
+                .trim();
+
+            if (header === 'traceparent') {
+                const match = TRACEPARENT.exec(value);
+                if (match) {
+                    return match[1].toLowerCase();
+                }
+                continue;
+            }
+
+            if (VALID_REQUEST_ID.test(value)) {
+                return value;
+            }
+        }
+
+        return this.generator();
+    }
+
+    /**
+     * Generate a new request ID without looking at headers
+     *
+     * @returns {string} Generated request ID
+     */
+    generate(): string {
+        return this.generator();
+    }
+
+    /**
+     * Build the generator function for the configured strategy
+     *
+     * @private
+     * @param {RequestIdGenerator} generator - Strategy name or custom function
+     * @returns {Function} Generator function
+     */
+    private createGenerator(generator: RequestIdGenerator): () => string {
+        if (typeof generator === 'function') {
+            return generator;
+        }
+        return generator === 'ulid'
+            ? (): string => this.generateUlid()
+            : (): string => this.generateUuid();
+    }
+
+    /**
+     * Generate a RFC 4122 version 4 UUID
+     *
+     * @private
+     * @returns {string} UUID string
+     */
+    private generateUuid(): string {
+        const bytes = randomBytes(16);
+        bytes[6] = (bytes[6] & 0x0f) | 0x40;
+        bytes[8] = (bytes[8] & 0x3f) | 0x80;
+        const hex = bytes.toString('hex');
+
+        return [
+            hex.slice(0, 8),
+            hex.slice(8, 12),
+            hex.slice(12, 16),
+            hex.slice(16, 20),
+            hex.slice(20),
+        ].join('-');
+    }
+
+    /**
+     * Generate a ULID (48-bit timestamp + 80 random bits, Crockford base32)
+     *
+     * @private
+     * @returns {string} 26 character ULID
+     */
+    private generateUlid(): string {
+        let time = Date.now();
+        let timePart = '';
+        for (let i = 0; i < 10; i++) {
+            timePart = ULID_ALPHABET[time % 32] + timePart;
+            time = Math.floor(time / 32);
+        }
+
+        const random = randomBytes(16);
+        let randomPart = '';
+        for (let i = 0; i < 16; i++) {
+            randomPart += ULID_ALPHABET[random[i] % 32];
+        }
+
+        return timePart + randomPart;
+    }
+}
@@ -0,0 +1,163 @@
+/**
+ * @file Request Sampler Utility Class
+ * @description Decides which requests are logged on high-traffic routes
+ * @author samofprog
+ * @license MIT
+ */
+
+import { RequestSamplerOptions } from '../types';
+import { PathMatcher } from './path-matcher.util';
+
+/**
+ * FNV-1a 32-bit offset basis and prime
+ */
+const FNV_OFFSET = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+/**
+ * Utility class for sampling logged requests.
+ *
+ * Purpose:
+ * - Apply a global sample rate and per-route rates (first matching rule wins)
+ * - Sample deterministically by request ID, so every line of a request and
+ *   every service sharing the ID makes the same decision
+ * - Keep errors (status >= 400) and slow requests regardless of the rate
+ *
+ * @class RequestSampler
+ *
+ * @example
+ * ```typescript
+ * import { RequestSampler } from '@samofprog/nestjs-request-logger';
+ *
+ * const sampler = new RequestSampler({
+ *   rate: 0.1,
+ *   routes: [{ path: '/api/search', rate: 0.01 }],
+ *   alwaysLogSlowerThanMs: 1000,
+ * });
+ *
+ * sampler.isSampled('/api/search', 'GET', requestId); // true for ~1% of IDs
+ * sampler.shouldAlwaysLog(503, 12);                   // true
+ * ```
+ */
+export class RequestSampler {
+    private readonly rate: number;
+    private readonly routes: { matcher: PathMatcher; rate: number }[];
+    private readonly alwaysLogErrors: boolean;
+    private readonly alwaysLogSlowerThanMs?: number;
+
+    /**
+     * Create a new RequestSampler instance
+     *
+     * @param {RequestSamplerOptions} [options={}] - Sampling options
+     * @param {number} [options.rate=1] - Global sample rate between 0 and 1
+     * @param {SampleRateRule[]} [options.routes=[]] - Per-route sample rates
+     * @param {boolean} [options.alwaysLogErrors=true] - Keep requests completed with status >= 400
+     * @param {number} [options.alwaysLogSlowerThanMs] - Keep requests slower than this duration
+     */
+    constructor(options: RequestSamplerOptions = {}) {
+        this.rate = this.clampRate(options.rate ?? 1);
+        this.routes = (options.routes ?? []).map((route) => ({
+            matcher: new PathMatcher([
+                { method: route.method, path: route.path },
+            ]),
+            rate: this.clampRate(route.rate),
+        }));
+        this.alwaysLogErrors = options.alwaysLogErrors ?? true;
+        this.alwaysLogSlowerThanMs = options.alwaysLogSlowerThanMs;
+    }
+
+    /**
+     * Whether sampled-out requests may still be logged on completion
+     */
+    get hasOverrides(): boolean {
+        return this.alwaysLogErrors || this.alwaysLogSlowerThanMs !== undefined;
+    }
+
+    /**
+     * Get the sample rate applying to a request
+     *
+     * @param {string} path - Request path
+     * @param {string} [method] - HTTP method
+     * @returns {number} Sample rate between 0 and 1
+     */
+    rateFor(path: string, method?: string): number {
+        const route = this.routes.find((candidate) =>
+            candidate.matcher.matches(path, method)
+        );
+        return route ? route.rate : this.rate;
+    }
+
+    /**
+     * Decide whether a request is sampled
+     *
+     * @param {string} path - Request path
+     * @param {string} [method] - HTTP method
+     * @param {string} [requestId] - Request ID; random sampling is used without one
+     * @returns {boolean} True if the request should be logged
+     */
+    isSampled(path: string, method?: string, requestId?: string): boolean {
+        const rate = this.rateFor(path, method);
+        if (rate >= 1) {
+            return true;
+        }
+        if (rate <= 0) {
+            return false;
+        }
+
+        const position =
+            requestId !== undefined ? this.hash(requestId) : Math.random();
+        return position < rate;
+    }
+
+    /**
+     * Check whether a completed request must be logged even if not sampled
+     *
+     * @param {number} statusCode - Response status code
+     * @param {number} durationMs - Request duration in milliseconds
+     * @param {boolean} [aborted=false] - Whether the request was aborted (counts as an error)
+     * @returns {boolean} True for errors and slow requests (when enabled)
+     */
+    shouldAlwaysLog(
+        statusCode: number,
+        durationMs: number,
+        aborted = false
+    ): boolean {
+        if (this.alwaysLogErrors && (aborted || statusCode >= 400)) {
+            return true;
+        }
+        return (
+            this.alwaysLogSlowerThanMs !== undefined &&
+            durationMs >= this.alwaysLogSlowerThanMs
+        );
+    }
+
+    /**
+     * Map a string to a uniformly distributed number in [0, 1) (FNV-1a)
+     *
+     * @private
+     * @param {string} value - Value to hash
+     * @returns {number} Position in [0, 1)
+     */
+    private hash(value: string): number {
+        let hash = FNV_OFFSET;
+        for (let i = 0; i < value.length; i++) {
+            hash ^= value.charCodeAt(i);
+            hash = Math.imul(hash, FNV_PRIME);
+        }
+        return (hash >>> 0) / 0x100000000;
+    }
+
+    /**
+     * Clamp a sample rate to [0, 1]
+     *
+     * @private
+     * @param {number} rate - Configured rate
+     * @returns {number} Clamped rate (NaN is treated as 1)
+     */
+    private clampRate(rate: number): number {
+        if (Number.isNaN(rate)) {
+            return 1;
+        }
+        return Math.min(1, Math.max(0, rate));
+    }
+}
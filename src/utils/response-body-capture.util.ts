@@ -0,0 +1,377 @@
+/**
+ * @file Response Body Capture Utility Class
+ * @description Captures response payloads written by Express and Fastify for logging
+ * @author samofprog
+ * @license MIT
+ */
+
+import { Res } from '../types';
+import { BodySerializer } from './body-serializer.util';
+import { PatternCompiler } from './pattern-compiler.util';
+
+/**
+ * Default content types whose payload is captured.
+ * Binary payloads (images, archives, octet streams) are never captured.
+ */
+const DEFAULT_CONTENT_TYPES = [
+    'application/json',
+    'application/*+json',
+    'text/*',
+];
+
+/**
+ * Default maximum number of bytes kept from a response payload
+ */
+const DEFAULT_MAX_BYTES = 4096;
+
+/**
+ * Default marker appended to payloads larger than the byte limit
+ */
+const DEFAULT_TRUNCATION_MARKER = '...[truncated]';
+
+/**
+ * JSON payloads are kept whole up to this size so they can be redacted
+ * before being truncated; larger ones are logged as a placeholder
+ */
+const MAX_JSON_BYTES = 1024 * 1024;
+
+/**
+ * Minimal writable shape shared by Express responses and raw Node responses
+ */
+interface WritableResponse {
+    write: (...args: unknown[]) => boolean;
+    end: (...args: unknown[]) => unknown;
+    getHeader?: (name: string) => unknown;
+}
+
+/**
+ * Minimal shape of a Fastify reply
+ */
+interface SendableResponse {
+    send: (payload?: unknown) => unknown;
+    getHeader?: (name: string) => unknown;
+}
+
+/**
+ * Utility class for capturing response bodies.
+ *
+ * Purpose:
+ * - Wrap `res.write` / `res.end` (Express, raw Node responses) and `reply.send` (Fastify)
+ * - Redact JSON payloads with `sanitize` before truncating them to
+ *   `maxBytes`, so truncation never exposes redacted fields
+ * - Keep at most `maxBytes` of other payloads in memory
+ * - Only expose payloads whose content type is in the allowlist
+ * - Skip streamed payloads entirely
+ *
+ * @class ResponseBodyCapture
+ *
+ * @example
+ * ```typescript
+ * import { ResponseBodyCapture } from '@samofprog/nestjs-request-logger';
+ *
+ * const capture = new ResponseBodyCapture({ maxBytes: 1024 });
+ * const readBody = capture.attach(res);
+ *
+ * res.once('finish', () => {
+ *   console.log(readBody()); // { id: 1 } or '{"items":[...]...[truncated]'
+ * });
+ * ```
+ */
+export class ResponseBodyCapture {
+    private readonly maxBytes: number;
+    private readonly contentTypePatterns: RegExp[];
+    private readonly truncationMarker: string;
+    private readonly sanitize: (body: unknown) => unknown;
+    private readonly serializer = new BodySerializer();
+
+    /**
+     * Create a new ResponseBodyCapture instance
+     *
+     * @param {Object} options - Capture options
+     * @param {number} [options.maxBytes=4096] - Maximum number of payload bytes kept
+     * @param {string[]} [options.contentTypes] - Allowed content types (supports wildcards: text/*)
+     * @param {string} [options.truncationMarker='...[truncated]'] - Suffix for truncated payloads
+     * @param {Function} [options.sanitize] - Redacts the payload before truncation
+     */
+    constructor(
+        options: {
+            maxBytes?: number;
+            contentTypes?: string[];
+            truncationMarker?: string;
+            sanitize?: (body: unknown) => unknown;
+        } = {}
+    ) {
+        this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+        this.contentTypePatterns = (
+            options.contentTypes ?? DEFAULT_CONTENT_TYPES
+        ).map((type) => PatternCompiler.compile(type.toLowerCase()));
+        this.truncationMarker =
+            options.truncationMarker ?? DEFAULT_TRUNCATION_MARKER;
+        this.sanitize = options.sanitize ?? ((body): unknown => body);
+    }
+
+    /**
+     * Start capturing the payload of a response
+     *
+     * @param {Res} res - Express response or Fastify reply
+     * @returns {Function} Reader returning the captured body, or undefined when nothing loggable was written
+     */
+    attach(res: Res): () => unknown {
+        const chunks: Buffer[] = [];
+        let capturedBytes = 0;
+        let totalBytes = 0;
+        let streamed = false;
+        // Object payloads passed to reply.send, kept as-is
+        let sentObject: object | undefined;
+        // Headers are sent with the first chunk: the content type is known
+        let limit: number | undefined;
+
+        const append = (chunk: unknown, encoding?: unknown): void => {
+            const buffer = this.toBuffer(chunk, encoding);
+            if (!buffer) {
+                return;
+            }
+
+            limit ??= this.isJson(this.getContentType(res))
+                ? Math.max(this.maxBytes, MAX_JSON_BYTES)
+                : this.maxBytes;
+            totalBytes += buffer.length;
+            const remaining = limit - capturedBytes;
+            if (remaining > 0) {
+                const kept =
+                    buffer.length > remaining
+                        ? buffer.subarray(0, remaining)
+                        : buffer;
+                chunks.push(kept);
+                capturedBytes += kept.length;
+            }
+        };
+
+        if (this.isFastifyReply(res)) {
+            const reply = res as unknown as SendableResponse;
+            const originalSend = reply.send;
+            reply.send = function (payload?: unknown): unknown {
+                // Fastify may send again (e.g. error handler): last payload wins
+                chunks.length = 0;
+                capturedBytes = 0;
+                totalBytes = 0;
+                sentObject = undefined;
+                streamed = ResponseBodyCapture.isStream(payload);
+
+                if (
+                    !streamed &&
+                    typeof payload === 'object' &&
+                    payload !== null &&
+                    !Buffer.isBuffer(payload)
+                ) {
+                    // Serialized when read, never inside reply.send
+                    sentObject = payload;
+                } else if (!streamed) {
+                    append(payload);
+                }
+
+                return originalSend.call(this, payload);
+            };
+        } else {
+            const writable = res as unknown as WritableResponse;
+            const originalWrite = writable.write;
+            const originalEnd = writable.end;
+
+            writable.write = function (...args: unknown[]): boolean {
+                append(args[0], args[1]);
+                return originalWrite.apply(this, args);
+            };
+            writable.end = function (...args: unknown[]): unknown {
+                if (typeof args[0] !== 'function') {
+                    append(args[0], args[1]);
+                }
+                return originalEnd.apply(this, args);
+            };
+        }
+
+        return (): unknown => {
+            if (streamed || (totalBytes === 0 && !sentObject)) {
+                return undefined;
+            }
+
+            const contentType = this.getContentType(res);
+            if (!this.isAllowedContentType(contentType)) {
+                return undefined;
+            }
+
+            if (sentObject) {
+                return this.truncate(this.sanitize(this.normalize(sentObject)));
+            }
+
+            const text = Buffer.concat(chunks).toString('utf8');
+            if (this.isJson(contentType)) {
+                // A partial JSON document cannot be redacted: never log it
+                if (totalBytes > capturedBytes) {
+                    return `[JSON body: ${totalBytes} bytes]`;
+                }
+                try {
+                    return this.truncate(this.sanitize(JSON.parse(text)));
+                } catch {
+                    return this.truncate(this.sanitize(text));
+                }
+            }
+
+            if (totalBytes > capturedBytes) {
+                return `${this.sanitize(this.dropPartialCharacter(text))}${this.truncationMarker}`;
+            }
+
+            return this.sanitize(text);
+        };
+    }
+
+    /**
+     * Normalize an object sent through `reply.send` to the JSON it is sent
+     * as, so class instances (entities, DTOs) and `toJSON()` results are
+     * redacted like plain objects
+     *
+     * @private
+     * @param {object} payload - Object passed to `reply.send`
+     * @returns {unknown} Plain JSON value
+     */
+    private normalize(payload: object): unknown {
+        const text = this.serializer.stringify(payload);
+        try {
+            return JSON.parse(text);
+        } catch {
+            return text;
+        }
+    }
+
+    /**
+     * Truncate a redacted payload to `maxBytes` once serialized
+     *
+     * @private
+     * @param {unknown} body - Redacted payload
+     * @returns {unknown} The payload itself when small enough, otherwise its truncated JSON text
+     */
+    private truncate(body: unknown): unknown {
+        const text =
+            typeof body === 'string' ? body : this.serializer.stringify(body);
+        const buffer = Buffer.from(text);
+        if (buffer.length <= this.maxBytes) {
+            return body;
+        }
+        return `${this.dropPartialCharacter(
+            buffer.subarray(0, this.maxBytes).toString('utf8')
+        )}${this.truncationMarker}`;
+    }
+
+    /**
+     * Remove the replacement character left by a multi-byte character cut
+     * at the byte limit
+     *
+     * @private
+     * @param {string} text - Decoded prefix of a payload
+     * @returns {string} Text ending on a character boundary
+     */
+    private dropPartialCharacter(text: string): string {
+        return text.replace(/\uFFFD+$/, '');
+    }
+
+    /**
+     * Check whether a content type is JSON
+     *
+     * @private
+     * @param {string} contentType - Response content type
+     * @returns {boolean} True for `application/json` and `+json` types
+     */
+    private isJson(contentType: string): boolean {
+        return contentType.includes('json');
+    }
+
+    /**
+     * Convert a written chunk to a Buffer
+     *
+     * @private
+     * @param {unknown} chunk - Chunk passed to write/end/send
+     * @param {unknown} encoding - Optional string encoding
+     * @returns {Buffer | undefined} Buffer, or undefined for empty/unsupported chunks
+     */
+    private toBuffer(chunk: unknown, encoding?: unknown): Buffer | undefined {
+        if (chunk === undefined || chunk === null) {
+            return undefined;
+        }
+        if (Buffer.isBuffer(chunk)) {
+            return chunk;
+        }
+        if (chunk instanceof Uint8Array) {
+            return Buffer.from(chunk);
+        }
+        if (typeof chunk === 'string') {
+            return Buffer.from(
+                chunk,
+                typeof encoding === 'string'
+                    ? (encoding as BufferEncoding)
+                    : 'utf8'
+            );
+        }
+        return Buffer.from(String(chunk), 'utf8');
+    }
+
+    /**
+     * Read the response content type (lowercase, without parameters)
+     *
+     * @private
+     * @param {Res} res - Express response or Fastify reply
+     * @returns {string} Content type, or empty string when not set
+     */
+    private getContentType(res: Res): string {
+        const target = res as unknown as { getHeader?: (n: string) => unknown };
+        const value =
+            typeof target.getHeader === 'function'
+                ? target.getHeader('content-type')
+                : undefined;
+        return String(value ?? '')
+            .split(';')[0]
+            .trim()
+            .toLowerCase();
+    }
+
+    /**
+     * Check whether a content type is in the allowlist
+     *
+     * @private
+     * @param {string} contentType - Response content type
+     * @returns {boolean} True if the payload may be logged
+     */
+    private isAllowedContentType(contentType: string): boolean {
+        return this.contentTypePatterns.some((pattern) =>
+            pattern.test(contentType)
+        );
+    }
+
+    /**
+     * Check whether the response is a Fastify reply (has `raw` and `send`)
+     *
+     * @private
+     * @param {Res} res - Response object
+     * @returns {boolean} True for Fastify replies
+     */
+    private isFastifyReply(res: Res): boolean {
+        return (
+            'raw' in res &&
+            !!res.raw &&
+            typeof (res as unknown as SendableResponse).send === 'function'
+        );
+    }
+
+    /**
+     * Check whether a payload is a readable stream
+     *
+     * @private
+     * @param {unknown} payload - Payload passed to reply.send
+     * @returns {boolean} True for streams
+     */
+    private static isStream(payload: unknown): boolean {
+        return (
+            typeof payload === 'object' &&
+            payload !== null &&
+            typeof (payload as { pipe?: unknown }).pipe === 'function'
+        );
+    }
+}
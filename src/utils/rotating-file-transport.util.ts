@@ -0,0 +1,171 @@
+/**
+ * @file Rotating File Transport Utility Class
+ * @description Transport appending request log lines to a size-rotated file
+ * @author samofprog
+ * @license MIT
+ */
+
+import {
+    closeSync,
+    existsSync,
+    fstatSync,
+    mkdirSync,
+    openSync,
+    renameSync,
+    unlinkSync,
+    writeSync,
+} from 'fs';
+import { dirname } from 'path';
+import { LogLevel } from '@nestjs/common';
+import {
+    LogTransport,
+    LogTransportEntry,
+    LogTransportFormat,
+    RotatingFileTransportOptions,
+} from '../types';
+import { BodySerializer } from './body-serializer.util';
+
+/**
+ * Default size in bytes at which the file is rotated (10 MiB)
+ */
+const DEFAULT_MAX_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Default number of rotated files kept
+ */
+const DEFAULT_MAX_FILES = 5;
+
+/**
+ * Transport appending one line per entry to a file, rotated by size.
+ *
+ * When a line would grow the file past `maxSize`, `app.log` is renamed to
+ * `app.log.1` (`app.log.1` to `app.log.2`, and so on, the oldest beyond
+ * `maxFiles` being overwritten) and a new `app.log` is started.
+ *
+ * Lines are written with blocking `writeSync` calls so none is lost on
+ * crash, and rotation renames files synchronously: without `bufferLogs`
+ * this file I/O runs on the request path and blocks the event loop. Enable
+ * `bufferLogs` to move it to the periodic flush. The file is closed by
+ * `onApplicationShutdown`.
+ *
+ * @class RotatingFileTransport
+ * @implements {LogTransport}
+ *
+ * @example
+ * ```typescript
+ * import { RotatingFileTransport } from '@samofprog/nestjs-request-logger';
+ *
+ * app.use(requestLoggerFactory({
+ *   transports: [
+ *     new RotatingFileTransport({
+ *       filename: 'logs/requests.log',
+ *       maxSize: 50 * 1024 * 1024,
+ *       maxFiles: 10,
+ *     }),
+ *   ],
+ * }));
+ * ```
+ */
+export class RotatingFileTransport implements LogTransport {
+    readonly level?: LogLevel;
+    readonly format?: LogTransportFormat;
+    private readonly filename: string;
+    private readonly maxSize: number;
+    private readonly maxFiles: number;
+    private readonly serializer = new BodySerializer();
+    private fd?: number;
+    private size = 0;
+
+    /**
+     * Create a new RotatingFileTransport instance
+     *
+     * @param {RotatingFileTransportOptions} options - Transport options
+     * @param {string} options.filename - Path of the active log file (parent directories are created)
+     * @param {number} [options.maxSize=10485760] - Size in bytes at which the file is rotated
+     * @param {number} [options.maxFiles=5] - Rotated files kept
+     * @param {LogLevel} [options.level] - Minimum level written
+     * @param {LogTransportFormat} [options.format='json'] - Formatter of the lines written
+     */
+    constructor(options: RotatingFileTransportOptions) {
+        this.filename = options.filename;
+        this.maxSize = options.maxSize ?? DEFAULT_MAX_SIZE;
+        this.maxFiles = options.maxFiles ?? DEFAULT_MAX_FILES;
+        this.level = options.level;
+        this.format = options.format ?? 'json';
+    }
+
+    /**
+     * Append an entry as a single line, rotating the file first when full
+     *
+     * @param {LogTransportEntry} entry - Formatted line
+     * @returns {void}
+     */
+    write(entry: LogTransportEntry): void {
+        const line = `${
+            typeof entry.message === 'string'
+                ? entry.message
+                : this.serializer.stringify(entry.message)
+        }\n`;
+        const bytes = Buffer.byteLength(line);
+
+        let fd = this.open();
+        // A line larger than maxSize still goes to a file of its own
+        if (this.size > 0 && this.size + bytes > this.maxSize) {
+            this.rotate();
+            fd = this.open();
+        }
+
+        writeSync(fd, line);
+        this.size += bytes;
+    }
+
+    /**
+     * Close the active file; the next write reopens it
+     *
+     * @returns {void}
+     */
+    close(): void {
+        if (this.fd !== undefined) {
+            closeSync(this.fd);
+            this.fd = undefined;
+        }
+    }
+
+    /**
+     * Open the active file in append mode, once
+     *
+     * @private
+     * @returns {number} File descriptor
+     */
+    private open(): number {
+        if (this.fd === undefined) {
+            mkdirSync(dirname(this.filename), { recursive: true });
+            this.fd = openSync(this.filename, 'a');
+            this.size = fstatSync(this.fd).size;
+        }
+        return this.fd;
+    }
+
+    /**
+     * Shift the rotated files and move the active file to `.1`
+     *
+     * @private
+     * @returns {void}
+     */
+    private rotate(): void {
+        this.close();
+
+        if (this.maxFiles < 1) {
+            unlinkSync(this.filename);
+            return;
+        }
+
+        for (let index = this.maxFiles - 1; index >= 1; index--) {
+            const rotated = `${this.filename}.${index}`;
+            if (existsSync(rotated)) {
+                renameSync(rotated, `${this.filename}.${index + 1}`);
+            }
+        }
+        renameSync(this.filename, `${this.filename}.1`);
+    }
+}
@@ -0,0 +1,122 @@
+/**
+ * @file Route Normalizer Utility Class
+ * @description Resolves low-cardinality route templates for logged requests
+ * @author samofprog
+ * @license MIT
+ */
+
+import { Req, RoutePlaceholderRule } from '../types';
+import { PatternCompiler } from './pattern-compiler.util';
+
+/**
+ * Built-in placeholder rules, tested after the custom ones
+ */
+const DEFAULT_PLACEHOLDERS: RoutePlaceholderRule[] = [
+    {
+        pattern:
+            /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+        placeholder: ':uuid',
+    },
+    { pattern: /^\d+$/, placeholder: ':id' },
+    // MongoDB ObjectIds, MD5/SHA digests and other long hex tokens
+    { pattern: /^[0-9a-f]{16,}$/i, placeholder: ':hash' },
+];
+
+/**
+ * Utility class for resolving the route template of a request.
+ *
+ * Purpose:
+ * - Read the matched route from Express (`req.route`) or Fastify (`routeOptions.url`)
+ * - Otherwise replace UUIDs, numeric IDs and hashes in the path with placeholders
+ * - Drop the query string so the route stays low-cardinality
+ *
+ * @class RouteNormalizer
+ *
+ * @example
+ * ```typescript
+ * import { RouteNormalizer } from '@samofprog/nestjs-request-logger';
+ *
+ * const normalizer = new RouteNormalizer();
+ *
+ * normalizer.normalize('/users/42/orders?page=2');
+ * // '/users/:id/orders'
+ * normalizer.normalize('/files/3f2b6c1e-8d4a-4f0e-9a55-1c2d3e4f5a6b');
+ * // '/files/:uuid'
+ * ```
+ */
+export class RouteNormalizer {
+    private readonly placeholders: RoutePlaceholderRule[];
+
+    /**
+     * Create a new RouteNormalizer instance
+     *
+     * @param {Object} [options={}] - Normalizer options
+     * @param {RoutePlaceholderRule[]} [options.placeholders=[]] - Extra segment rules, tested before the built-in ones
+     */
+    constructor(options: { placeholders?: RoutePlaceholderRule[] } = {}) {
+        this.placeholders = [
+            ...(options.placeholders ?? []),
+            ...DEFAULT_PLACEHOLDERS,
+        ].map(({ pattern, placeholder }) => ({
+            pattern: PatternCompiler.stateless(pattern),
+            placeholder,
+        }));
+    }
+
+    /**
+     * Get the route template matched by the framework, if routing already ran
+     *
+     * @param {Req} req - Express or Fastify request
+     * @returns {string | undefined} Route template such as `/users/:id`
+     */
+    static template(req: Req): string | undefined {
+        const request = req as unknown as {
+            baseUrl?: string;
+            route?: { path?: unknown };
+            routeOptions?: { url?: string };
+            routerPath?: string;
+        };
+
+        // Express: mount path of the router plus the route path
+        if (typeof request.route?.path === 'string') {
+            return `${request.baseUrl ?? ''}${request.route.path}`;
+        }
+
+        // Fastify: routeOptions.url (v4.10+), routerPath before
+        return request.routeOptions?.url ?? request.routerPath;
+    }
+
+    /**
+     * Resolve the route of a request: the framework template when available,
+     * the normalized path otherwise
+     *
+     * @param {Req} req - Express or Fastify request
+     * @param {string} path - Raw request path
+     * @returns {string} Route template
+     */
+    resolve(req: Req, path: string): string {
+        return RouteNormalizer.template(req) ?? this.normalize(path);
+    }
+
+    /**
+     * Replace dynamic path segments with placeholders and drop the query string
+     *
+     * @param {string} path - Raw request path
+     * @returns {string} Normalized path
+     */
+    normalize(path: string): string {
+        return path
+            .split('?')[0]
+            .split('/')
+            .map((segment) => {
+                if (!segment) {
+                    return segment;
+                }
+                const rule = this.placeholders.find(({ pattern }) =>
+                    pattern.test(segment)
+                );
+                return rule ? rule.placeholder : segment;
+            })
+            .join('/');
+    }
+}
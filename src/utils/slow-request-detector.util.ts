@@ -0,0 +1,89 @@
+/**
+ * @file Slow Request Detector Utility Class
+ * @description Flags completed requests exceeding global or per-route thresholds
+ * @author samofprog
+ * @license MIT
+ */
+
+import { SlowRequestThresholdRule } from '../types';
+import { PathMatcher } from './path-matcher.util';
+
+/**
+ * Utility class for detecting slow requests.
+ *
+ * Purpose:
+ * - Apply a global duration threshold
+ * - Override it per route (first matching rule wins)
+ *
+ * @class SlowRequestDetector
+ *
+ * @example
+ * ```typescript
+ * import { SlowRequestDetector } from '@samofprog/nestjs-request-logger';
+ *
+ * const detector = new SlowRequestDetector({
+ *   thresholdMs: 1000,
+ *   routes: [{ path: '/api/reports/*', thresholdMs: 10000 }],
+ * });
+ *
+ * detector.isSlow('/api/users', 'GET', 1500);      // true
+ * detector.isSlow('/api/reports/1', 'GET', 1500);  // false
+ * ```
+ */
+export class SlowRequestDetector {
+    private readonly thresholdMs?: number;
+    private readonly routes: { matcher: PathMatcher; thresholdMs: number }[];
+
+    /**
+     * Create a new SlowRequestDetector instance
+     *
+     * @param {Object} options - Detector options
+     * @param {number} [options.thresholdMs] - Global threshold (no global detection when omitted)
+     * @param {SlowRequestThresholdRule[]} [options.routes=[]] - Per-route thresholds
+     */
+    constructor(
+        options: {
+            thresholdMs?: number;
+            routes?: SlowRequestThresholdRule[];
+        } = {}
+    ) {
+        this.thresholdMs = options.thresholdMs;
+        this.routes = (options.routes ?? []).map((route) => ({
+            matcher: new PathMatcher([
+                { method: route.method, path: route.path },
+            ]),
+            thresholdMs: route.thresholdMs,
+        }));
+    }
+
+    /**
+     * Get the threshold applying to a request
+     *
+     * @param {string} path - Request path
+     * @param {string} [method] - HTTP method
+     * @returns {number | undefined} Threshold in milliseconds, or undefined when none applies
+     */
+    thresholdFor(path: string, method?: string): number | undefined {
+        const route = this.routes.find((candidate) =>
+            candidate.matcher.matches(path, method)
+        );
+        return route ? route.thresholdMs : this.thresholdMs;
+    }
+
+    /**
+     * Check whether a completed request is slow
+     *
+     * @param {string} path - Request path
+     * @param {string | undefined} method - HTTP method
+     * @param {number} durationMs - Request duration in milliseconds
+     * @returns {boolean} True if the duration reaches the threshold
+     */
+    isSlow(
+        path: string,
+        method: string | undefined,
+        durationMs: number
+    ): boolean {
+        const threshold = this.thresholdFor(path, method);
+        return threshold !== undefined && durationMs >= threshold;
+    }
+}
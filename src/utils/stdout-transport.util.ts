@@ -0,0 +1,67 @@
+/**
+ * @file Stdout Transport Utility Class
+ * @description Transport writing request log lines to stdout as JSON lines
+ * @author samofprog
+ * @license MIT
+ */
+
+import { LogLevel } from '@nestjs/common';
+import {
+    LogTransport,
+    LogTransportEntry,
+    LogTransportFormat,
+    StdoutTransportOptions,
+} from '../types';
+import { BodySerializer } from './body-serializer.util';
+
+/**
+ * Transport writing one line per entry to stdout, bypassing the Nest logger.
+ *
+ * Lines are `RequestLogRecord` JSON by default (`format: 'json'`); string
+ * messages are written as-is and other values are serialized to JSON.
+ *
+ * @class StdoutTransport
+ * @implements {LogTransport}
+ *
+ * @example
+ * ```typescript
+ * import { StdoutTransport } from '@samofprog/nestjs-request-logger';
+ *
+ * app.use(requestLoggerFactory({ transports: [new StdoutTransport()] }));
+ * // {"event":"request.completed","message":"Request completed",...}
+ * ```
+ */
+export class StdoutTransport implements LogTransport {
+    readonly level?: LogLevel;
+    readonly format?: LogTransportFormat;
+    private readonly stream: { write(chunk: string): unknown };
+    private readonly serializer = new BodySerializer();
+
+    /**
+     * Create a new StdoutTransport instance
+     *
+     * @param {StdoutTransportOptions} [options={}] - Transport options
+     * @param {LogLevel} [options.level] - Minimum level written
+     * @param {LogTransportFormat} [options.format='json'] - Formatter of the lines written
+     * @param {Object} [options.stream=process.stdout] - Stream the lines are written to
+     */
+    constructor(options: StdoutTransportOptions = {}) {
+        this.level = options.level;
+        this.format = options.format ?? 'json';
+        this.stream = options.stream ?? process.stdout;
+    }
+
+    /**
+     * Write an entry as a single line
+     *
+     * @param {LogTransportEntry} entry - Formatted line
+     * @returns {void}
+     */
+    write(entry: LogTransportEntry): void {
+        const line =
+            typeof entry.message === 'string'
+                ? entry.message
+                : this.serializer.stringify(entry.message);
+        this.stream.write(`${line}\n`);
+    }
+}
@@ -0,0 +1,272 @@
+/**
+ * @file Structured Log Formatter
+ * @description Formats log entries as structured records for JSON log pipelines
+ * @author samofprog
+ * @license MIT
+ */
+
+import {
+    CompletedRequestDetails,
+    HeaderSanitizerFunction,
+    RequestDetails,
+    RequestHandlerMetadata,
+    RequestLogEvent,
+    RequestLogRecord,
+    RequestOutcome,
+    StructuredMessageFormatters,
+} from '../types';
+import { HeaderFieldExtractor } from './header-field-extractor.util';
+import { HeaderSanitizer } from './header-sanitizer.util';
+
+/**
+ * Structured log record formatter.
+ *
+ * Produces `RequestLogRecord` objects (see `src/types/request-log-record.types.ts`)
+ * instead of key=value strings. Used by the `json` and `object` output modes.
+ *
+ * Supports:
+ * - Custom header field extraction (as an object)
+ * - Automatic header sanitization
+ * - Request body logging
+ *
+ * @class StructuredLogFormatter
+ *
+ * @example
+ * ```typescript
+ * import { StructuredLogFormatter } from '@samofprog/nestjs-request-logger';
+ *
+ * const formatter = new StructuredLogFormatter({ headerFields: ['content-type'] });
+ *
+ * const record = formatter.incoming({
+ *   method: 'GET',
+ *   path: '/api/users',
+ *   headers: { 'content-type': 'application/json' },
+ * });
+ * // Result: { event: 'request.incoming', message: 'Incoming request', timestamp: '...',
+ * //           method: 'GET', path: '/api/users', headers: { 'content-type': 'application/json' } }
+ * ```
+ */
+export class StructuredLogFormatter implements StructuredMessageFormatters {
+    private readonly headerFieldExtractor: HeaderFieldExtractor;
+    private readonly responseHeaderFieldExtractor: HeaderFieldExtractor;
+    private readonly sanitizeHeaders: HeaderSanitizerFunction;
+    private readonly logRequestBody: boolean;
+
+    /**
+     * Create a new StructuredLogFormatter instance
+     *
+     * @param {Object} options - Formatter options
+     * @param {string[]} [options.headerFields=[]] - Header fields to extract
+     * @param {string[]} [options.responseHeaderFields=[]] - Response header fields to extract
+     * @param {boolean} [options.logRequestBody=false] - Whether to log request body
+     * @param {(string | RegExp)[]} [options.sensitiveHeaders] - Custom list of sensitive headers
+     * @param {HeaderSanitizerFunction} [options.sanitizeHeaders] - Custom header sanitizer (replaces `sensitiveHeaders` masking)
+     */
+    constructor(
+        options: {
+            headerFields?: string[];
+            responseHeaderFields?: string[];
+            logRequestBody?: boolean;
+            sensitiveHeaders?: (string | RegExp)[];
+            sanitizeHeaders?: HeaderSanitizerFunction;
+        } = {}
+    ) {
+        this.headerFieldExtractor = new HeaderFieldExtractor(
+            options.headerFields ?? []
+        );
+        this.responseHeaderFieldExtractor = new HeaderFieldExtractor(
+            options.responseHeaderFields ?? []
+        );
+        if (options.sanitizeHeaders) {
+            this.sanitizeHeaders = options.sanitizeHeaders;
+        } else {
+            const headerSanitizer = new HeaderSanitizer(
+                options.sensitiveHeaders
+            );
+            this.sanitizeHeaders = (headers) =>
+                headerSanitizer.sanitize(headers);
+        }
+        this.logRequestBody = options.logRequestBody ?? false;
+    }
+
+    /**
+     * Build the record for an incoming request
+     *
+     * @param {RequestDetails} details - Request details
+     * @param {number} [timestamp=Date.now()] - Time the line was logged, in epoch milliseconds
+     * @returns {RequestLogRecord} Structured record
+     */
+    incoming = (
+        details: RequestDetails,
+        timestamp = Date.now()
+    ): RequestLogRecord => {
+        const record: RequestLogRecord = {
+            event: 'request.incoming',
+            message: 'Incoming request',
+            timestamp: new Date(timestamp).toISOString(),
+            method: details.method,
+            path: details.path,
+        };
+
+        if (details.requestId) {
+            record.requestId = details.requestId;
+        }
+
+        this.assignHandler(record, details);
+        this.assignRequest(record, details);
+
+        return record;
+    };
+
+    /**
+     * Build the record for a completed request
+     *
+     * @param {CompletedRequestDetails} details - Completed request details
+     * @param {number} [now=Date.now()] - Time the line was logged, in epoch milliseconds
+     * @returns {RequestLogRecord} Structured record
+     */
+    completed = (
+        details: CompletedRequestDetails,
+        now = Date.now()
+    ): RequestLogRecord => {
+        const durationMs = Number(details.durationMs);
+
+        const { event, message } = this.completedEvent(details.outcome);
+        const record: RequestLogRecord = {
+            event,
+            message,
+            timestamp: new Date(now).toISOString(),
+            startedAt: new Date(now - Math.round(durationMs)).toISOString(),
+            method: details.method,
+            path: details.path,
+            statusCode: details.statusCode,
+            durationMs,
+        };
+
+        if (details.requestId) {
+            record.requestId = details.requestId;
+        }
+
+        this.assignHandler(record, details);
+
+        if (details.slow) {
+            record.slow = true;
+        }
+
+        if (details.abortReason) {
+            record.abortReason = details.abortReason;
+        }
+
+        if (details.bytesSent !== undefined) {
+            record.bytesSent = details.bytesSent;
+        }
+
+        if (details.requestBytes !== undefined) {
+            record.requestBytes = details.requestBytes;
+        }
+
+        if (details.responseBytes !== undefined) {
+            record.responseBytes = details.responseBytes;
+        }
+
+        if (details.error) {
+            record.error = details.error;
+        }
+
+        if (details.responseHeaders) {
+            const responseHeaders = this.responseHeaderFieldExtractor.select(
+                this.sanitizeHeaders(details.responseHeaders)
+            );
+            if (Object.keys(responseHeaders).length > 0) {
+                record.responseHeaders = responseHeaders;
+            }
+        }
+
+        // completion-only mode: one record with the request details
+        if (details.request) {
+            this.assignRequest(record, details.request);
+        }
+
+        if (details.responseData !== undefined) {
+            record.responseBody = details.responseData;
+        }
+
+        return record;
+    };
+
+    /**
+     * Get the event and message of a completed request record
+     *
+     * @private
+     * @param {RequestOutcome} [outcome='completed'] - Request outcome
+     * @returns {Object} Event and message
+     */
+    private completedEvent(outcome?: RequestOutcome): {
+        event: RequestLogEvent;
+        message: string;
+    } {
+        if (outcome === 'aborted') {
+            return { event: 'request.aborted', message: 'Request aborted' };
+        }
+        if (outcome === 'in-flight') {
+            return {
+                event: 'request.in-flight',
+                message: 'Request still in flight',
+            };
+        }
+        return { event: 'request.completed', message: 'Request completed' };
+    }
+
+    /**
+     * Copy the selected headers, query, client metadata and body of a request onto a record
+     *
+     * @private
+     * @param {RequestLogRecord} record - Record being built
+     * @param {RequestDetails} details - Request details
+     */
+    private assignRequest(
+        record: RequestLogRecord,
+        details: RequestDetails
+    ): void {
+        const headers = this.headerFieldExtractor.select(
+            this.sanitizeHeaders(details.headers)
+        );
+        if (Object.keys(headers).length > 0) {
+            record.headers = headers;
+        }
+
+        if (details.query && Object.keys(details.query).length > 0) {
+            record.query = details.query;
+        }
+
+        if (details.client && Object.keys(details.client).length > 0) {
+            record.client = details.client;
+        }
+
+        if (this.logRequestBody && details.body !== undefined) {
+            record.body = details.body;
+        }
+    }
+
+    /**
+     * Copy the route, controller and handler onto a record when present
+     *
+     * @private
+     * @param {RequestLogRecord} record - Record being built
+     * @param {RequestHandlerMetadata} metadata - Route handler metadata
+     */
+    private assignHandler(
+        record: RequestLogRecord,
+        metadata: RequestHandlerMetadata
+    ): void {
+        if (metadata.route) {
+            record.route = metadata.route;
+        }
+        if (metadata.controller) {
+            record.controller = metadata.controller;
+        }
+        if (metadata.handler) {
+            record.handler = metadata.handler;
+        }
+    }
+}
@@ -0,0 +1,116 @@
+/**
+ * @file User Agent Parser Utility Class
+ * @description Extracts browser, operating system and bot flag from user agents
+ * @author samofprog
+ * @license MIT
+ */
+
+import { UserAgentDetails } from '../types';
+
+/**
+ * Crawlers, monitoring agents, headless browsers and HTTP libraries
+ */
+const BOT_PATTERN =
+    /bot\b|bot\/|crawl|spider|slurp|facebookexternalhit|preview|monitor|headless|lighthouse|curl\/|wget\/|python-requests|python-urllib|go-http-client|okhttp|axios\/|node-fetch|postman/i;
+
+/**
+ * Browser rules, most specific first (Edge and Opera also announce Chrome,
+ * Chrome also announces Safari)
+ */
+const BROWSERS: { name: string; pattern: RegExp }[] = [
+    { name: 'Edge', pattern: /Edg(?:e|A|iOS)?\/([\d.]+)/ },
+    { name: 'Opera', pattern: /(?:OPR|Opera)\/([\d.]+)/ },
+    { name: 'Samsung Internet', pattern: /SamsungBrowser\/([\d.]+)/ },
+    { name: 'Firefox', pattern: /(?:Firefox|FxiOS)\/([\d.]+)/ },
+    { name: 'Chrome', pattern: /(?:Chrome|CriOS)\/([\d.]+)/ },
+    { name: 'Safari', pattern: /Version\/([\d.]+).*Safari\// },
+    { name: 'Internet Explorer', pattern: /(?:MSIE |Trident\/.*rv:)([\d.]+)/ },
+    { name: 'curl', pattern: /curl\/([\d.]+)/ },
+    { name: 'Wget', pattern: /Wget\/([\d.]+)/ },
+    { name: 'Postman', pattern: /PostmanRuntime\/([\d.]+)/ },
+];
+
+/**
+ * Operating system rules, most specific first (iOS and Android user agents
+ * also mention Mac OS X and Linux)
+ */
+const OPERATING_SYSTEMS: { name: string; pattern: RegExp }[] = [
+    { name: 'Windows', pattern: /Windows NT ([\d.]+)/ },
+    { name: 'iOS', pattern: /(?:iPhone|iPad|iPod).*? OS ([\d_]+)/ },
+    { name: 'Android', pattern: /Android ([\d.]+)/ },
+    { name: 'Chrome OS', pattern: /CrOS \S+ ([\d.]+)/ },
+    { name: 'macOS', pattern: /Mac OS X ([\d_.]+)/ },
+    { name: 'Linux', pattern: /Linux()/ },
+];
+
+/**
+ * Utility class for parsing `user-agent` headers.
+ *
+ * Purpose:
+ * - Detect the browser (or HTTP client) and its version
+ * - Detect the operating system and its version
+ * - Flag crawlers, monitoring agents and HTTP libraries as bots
+ *
+ * The parser is heuristic and dependency-free: it recognizes the common
+ * browsers and clients, and leaves unknown fields undefined.
+ *
+ * @class UserAgentParser
+ *
+ * @example
+ * ```typescript
+ * import { UserAgentParser } from '@samofprog/nestjs-request-logger';
+ *
+ * new UserAgentParser().parse(
+ *   'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+ * );
+ * // { browser: 'Chrome', browserVersion: '120.0.0.0', os: 'macOS', osVersion: '10.15.7', bot: false }
+ * ```
+ */
+export class UserAgentParser {
+    /**
+     * Parse a user agent string
+     *
+     * @param {string} userAgent - Value of the `user-agent` header
+     * @returns {UserAgentDetails} Parsed details (only `bot` when nothing is recognized)
+     */
+    parse(userAgent: string): UserAgentDetails {
+        const details: UserAgentDetails = { bot: BOT_PATTERN.test(userAgent) };
+
+        const browser = this.match(BROWSERS, userAgent);
+        if (browser) {
+            details.browser = browser.name;
+            details.browserVersion = browser.version;
+        }
+
+        const os = this.match(OPERATING_SYSTEMS, userAgent);
+        if (os) {
+            details.os = os.name;
+            if (os.version) {
+                details.osVersion = os.version.replace(/_/g, '.');
+            }
+        }
+
+        return details;
+    }
+
+    /**
+     * Find the first rule matching a user agent
+     *
+     * @private
+     * @param {Object[]} rules - Rules to test in order
+     * @param {string} userAgent - User agent string
+     * @returns {Object | undefined} Matched name and version
+     */
+    private match(
+        rules: { name: string; pattern: RegExp }[],
+        userAgent: string
+    ): { name: string; version?: string } | undefined {
+        for (const { name, pattern } of rules) {
+            const match = pattern.exec(userAgent);
+            if (match) {
+                return { name, version: match[1] || undefined };
+            }
+        }
+        return undefined;
+    }
+}